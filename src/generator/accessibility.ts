@@ -0,0 +1,434 @@
+import { AccessibilityRule, AccessibilityRuleKind, DesignTokens } from '../types/index.js';
+
+/**
+ * Foreground and background color tokens that must meet the contrast rule
+ */
+const CONTRAST_PAIRS: { foreground: string; background: string; description: string }[] = [
+  { foreground: 'text', background: 'background', description: 'Body text' },
+  { foreground: 'muted', background: 'background', description: 'Muted text' },
+  { foreground: 'link', background: 'background', description: 'Links' },
+  { foreground: 'on-primary', background: 'primary', description: 'Button text' }
+];
+
+/**
+ * Contrast ratio used when a README asks for contrast without a number
+ */
+const DEFAULT_MIN_CONTRAST = 4.5;
+
+/**
+ * Applies accessibility rules to generated web UIs: markup, styles and
+ * scripts for each rule, color adjustments for contrast, and a check script
+ * that verifies the generated files.
+ */
+export class AccessibilityGenerator {
+  /**
+   * Check whether the README asks for a kind of rule
+   */
+  public has(rules: AccessibilityRule[], kind: AccessibilityRuleKind): boolean {
+    return rules.some(rule => rule.kind === kind);
+  }
+
+  /**
+   * Get the strictest contrast ratio the rules ask for
+   * @returns The ratio, or null when contrast is not required
+   */
+  public minContrast(rules: AccessibilityRule[]): number | null {
+    const ratios = rules
+      .filter(rule => rule.kind === 'contrast')
+      .map(rule => rule.minContrast ?? DEFAULT_MIN_CONTRAST);
+    return ratios.length > 0 ? Math.max(...ratios) : null;
+  }
+
+  /**
+   * Adjust foreground colors until each pair meets the required contrast.
+   * Background colors and the primary color are kept as written.
+   * @param tokens Resolved design tokens
+   * @param rules Accessibility rules from the README
+   * @returns Tokens with adjusted foreground colors
+   */
+  public enforceContrast(tokens: DesignTokens, rules: AccessibilityRule[]): DesignTokens {
+    const min = this.minContrast(rules);
+    if (min === null) {
+      return tokens;
+    }
+
+    const colors = { ...tokens.colors };
+    for (const pair of this.contrastPairs(tokens)) {
+      const adjusted = this.ensureContrast(colors[pair.foreground], colors[pair.background], min);
+      if (adjusted) {
+        colors[pair.foreground] = adjusted;
+      }
+    }
+
+    return { ...tokens, colors };
+  }
+
+  /**
+   * Get the color pairs to check, including state colors such as `completed`
+   */
+  public contrastPairs(tokens: DesignTokens): typeof CONTRAST_PAIRS {
+    const states = Object.keys(tokens.typography)
+      .map(name => name.match(/^(.+)-(decoration|weight|style)$/)?.[1])
+      .filter((state): state is string => !!state && state !== 'font' && !!tokens.colors[state]);
+
+    return [
+      ...CONTRAST_PAIRS,
+      ...[...new Set(states)].map(state => ({
+        foreground: state,
+        background: 'background',
+        description: `${state[0].toUpperCase()}${state.slice(1)} items`
+      }))
+    ].filter(pair => tokens.colors[pair.foreground] && tokens.colors[pair.background]);
+  }
+
+  /**
+   * Generate the skip link placed before the page header
+   */
+  public generateSkipLink(rules: AccessibilityRule[]): string {
+    return this.has(rules, 'focus-management')
+      ? `\n    <a class="skip-link" href="#main">Skip to main content</a>`
+      : '';
+  }
+
+  /**
+   * Generate the live region used to announce changes to screen readers
+   */
+  public generateLiveRegion(rules: AccessibilityRule[]): string {
+    return this.has(rules, 'aria')
+      ? `\n        <div id="status" class="visually-hidden" role="status" aria-live="polite"></div>`
+      : '';
+  }
+
+  /**
+   * Generate the style rules for focus, hidden text and reduced motion
+   */
+  public generateCss(rules: AccessibilityRule[]): string {
+    const blocks: string[] = [];
+
+    if (this.has(rules, 'focus-management') || this.has(rules, 'keyboard-navigation')) {
+      blocks.push(`:focus-visible {
+    outline: 3px solid var(--color-link);
+    outline-offset: 2px;
+}`);
+    }
+
+    if (this.has(rules, 'focus-management')) {
+      blocks.push(`.skip-link {
+    position: absolute;
+    left: -9999px;
+}
+
+.skip-link:focus {
+    left: var(--spacing-base);
+    top: var(--spacing-base);
+    padding: calc(0.5 * var(--spacing-base));
+    color: var(--color-on-primary);
+    background-color: var(--color-primary);
+    z-index: 1000;
+}`);
+    }
+
+    if (this.has(rules, 'aria')) {
+      blocks.push(`.visually-hidden {
+    position: absolute;
+    width: 1px;
+    height: 1px;
+    overflow: hidden;
+    clip: rect(0 0 0 0);
+    white-space: nowrap;
+}`);
+    }
+
+    if (this.has(rules, 'reduced-motion')) {
+      blocks.push(`@media (prefers-reduced-motion: reduce) {
+    :root {
+        --motion-duration: 0s;
+    }
+}`);
+    }
+
+    return blocks.join('\n\n');
+  }
+
+  /**
+   * Generate script helpers for focus management, announcements and
+   * keyboard navigation
+   * @param typed Whether to add TypeScript parameter types
+   */
+  public generateScript(rules: AccessibilityRule[], typed: boolean = false): string {
+    const blocks: string[] = [];
+
+    if (this.has(rules, 'focus-management')) {
+      blocks.push(`// Move focus to an element, making it focusable first if needed
+function moveFocus(element${typed ? ': HTMLElement | null' : ''}) {
+    if (!element) return;
+    if (!element.hasAttribute('tabindex') && element.tabIndex < 0) {
+        element.setAttribute('tabindex', '-1');
+    }
+    element.focus();
+}`);
+    }
+
+    if (this.has(rules, 'aria')) {
+      blocks.push(`// Announce a change to screen reader users through the live region
+function announce(message${typed ? ': string' : ''}) {
+    const status = document.getElementById('status');
+    if (!status) return;
+    status.textContent = '';
+    setTimeout(() => { status.textContent = message; }, 50);
+}`);
+    }
+
+    if (this.has(rules, 'keyboard-navigation')) {
+      blocks.push(`// Keyboard support: Enter and Space activate custom controls, arrow keys
+// move between items of a list, and Escape returns focus to the main content
+document.addEventListener('keydown', (event) => {
+    const target = event.target;
+    if (!(target instanceof HTMLElement)) return;
+
+    if ((event.key === 'Enter' || event.key === ' ') && target.getAttribute('role') === 'button') {
+        event.preventDefault();
+        target.click();
+        return;
+    }
+
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        const list = target.closest('ul, ol, [role="list"], [role="listbox"]');
+        if (!list) return;
+        const items = Array.from(list.querySelectorAll('li, [role="option"]'));
+        const current = items.findIndex(item => item.contains(target));
+        const next = items[current + (event.key === 'ArrowDown' ? 1 : -1)];
+        const focusable = next && (next.querySelector('button, input, a, [tabindex]') || next);
+        if (focusable instanceof HTMLElement) {
+            event.preventDefault();
+            if (focusable.tabIndex < 0) focusable.setAttribute('tabindex', '-1');
+            focusable.focus();
+        }
+        return;
+    }
+
+    if (event.key === 'Escape') {
+        const main = document.getElementById('main');
+        if (main) {
+            main.setAttribute('tabindex', '-1');
+            main.focus();
+        }
+    }
+});`);
+    }
+
+    return blocks.join('\n\n');
+  }
+
+  /**
+   * Generate a Node script that checks the generated files against every
+   * accessibility rule and exits non-zero when any check fails
+   * @param title Application title
+   * @param rules Accessibility rules from the README
+   * @param tokens Design tokens written to tokens.json
+   * @param scriptFile The page script, checked for keyboard handlers
+   */
+  public generateCheckScript(
+    title: string,
+    rules: AccessibilityRule[],
+    tokens: DesignTokens,
+    scriptFile: string
+  ): string {
+    const requirements = rules.map(rule => ({ kind: rule.kind, text: rule.text }));
+    const pairs = this.contrastPairs(tokens);
+
+    return `#!/usr/bin/env node
+// Accessibility checks for ${title}, one group per requirement in the README.
+// Run with: node a11y-check.js
+
+const fs = require('fs');
+const path = require('path');
+
+const read = (file) => fs.readFileSync(path.join(__dirname, file), 'utf8');
+const html = read('index.html');
+const css = read('style.css');
+const script = read(${JSON.stringify(scriptFile)});
+const tokens = JSON.parse(read('tokens.json'));
+
+const REQUIREMENTS = ${JSON.stringify(requirements, null, 4)};
+const MIN_CONTRAST = ${this.minContrast(rules) ?? DEFAULT_MIN_CONTRAST};
+const CONTRAST_PAIRS = ${JSON.stringify(pairs, null, 4)};
+
+const results = [];
+function check(kind, description, passed, detail) {
+    results.push({ kind, description, passed, detail });
+}
+
+function attributes(tag) {
+    const attrs = {};
+    for (const match of tag.matchAll(/([\\w-]+)(?:\\s*=\\s*"([^"]*)")?/g)) {
+        attrs[match[1].toLowerCase()] = match[2] === undefined ? '' : match[2];
+    }
+    return attrs;
+}
+
+function luminance(color) {
+    let hex = color.trim().replace('#', '');
+    let channels;
+    const rgb = color.match(/rgba?\\(\\s*(\\d+)[\\s,]+(\\d+)[\\s,]+(\\d+)/);
+    if (rgb) {
+        channels = rgb.slice(1, 4).map(Number);
+    } else if (/^[0-9a-f]{3,8}$/i.test(hex)) {
+        if (hex.length <= 4) hex = hex.split('').map(c => c + c).join('');
+        channels = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
+    } else {
+        return null;
+    }
+    const [r, g, b] = channels.map(c => {
+        const s = c / 255;
+        return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function contrast(foreground, background) {
+    const a = luminance(foreground);
+    const b = luminance(background);
+    if (a === null || b === null) return null;
+    return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+const CHECKS = {
+    'semantic-html': () => {
+        for (const tag of ['header', 'main', 'footer']) {
+            check('semantic-html', \`<\${tag}> landmark is present\`, new RegExp(\`<\${tag}[\\\\s>]\`).test(html));
+        }
+        check('semantic-html', '<html> declares a language', /<html[^>]*\\slang="[^"]+"/.test(html));
+        check('semantic-html', 'Page has a single <h1>', (html.match(/<h1[\\s>]/g) || []).length === 1);
+    },
+    'labels': () => {
+        const labelled = new Set(Array.from(html.matchAll(/<label[^>]*\\sfor="([^"]+)"/g), m => m[1]));
+        for (const match of html.matchAll(/<(input|select|textarea)\\b([^>]*)>/g)) {
+            const attrs = attributes(match[2]);
+            if (attrs.type === 'hidden') continue;
+            const ok = 'aria-label' in attrs || 'aria-labelledby' in attrs || labelled.has(attrs.id);
+            check('labels', \`<\${match[1]}\${attrs.id ? '#' + attrs.id : ''}> has a label\`, ok);
+        }
+        for (const match of html.matchAll(/<button\\b([^>]*)>([\\s\\S]*?)<\\/button>/g)) {
+            const ok = match[2].replace(/<[^>]+>/g, '').trim() !== '' || 'aria-label' in attributes(match[1]);
+            check('labels', 'Button has an accessible name', ok);
+        }
+        if (!results.some(r => r.kind === 'labels')) {
+            check('labels', 'No unlabelled controls', true, 'no form controls in the page markup');
+        }
+    },
+    'aria': () => {
+        check('aria', 'A live region announces changes', /aria-live="(polite|assertive)"/.test(html));
+        check('aria', 'Changes are announced from script', /announce\\(/.test(script));
+    },
+    'keyboard-navigation': () => {
+        check('keyboard-navigation', 'Script handles keydown events', /addEventListener\\(\\s*'keydown'/.test(script));
+        check('keyboard-navigation', 'No positive tabindex values', !/tabindex="[1-9]/.test(html));
+    },
+    'focus-management': () => {
+        check('focus-management', 'Skip link targets the main content', /<a[^>]*href="#main"/.test(html) && /<main[^>]*id="main"/.test(html));
+        check('focus-management', 'Focus is visible', /:focus-visible\\s*{[^}]*outline/.test(css));
+    },
+    'contrast': () => {
+        for (const pair of CONTRAST_PAIRS) {
+            const ratio = contrast(tokens.colors[pair.foreground], tokens.colors[pair.background]);
+            check('contrast', \`\${pair.description} (\${pair.foreground} on \${pair.background})\`,
+                ratio !== null && ratio >= MIN_CONTRAST,
+                ratio === null ? 'color could not be read' : \`\${ratio.toFixed(2)}:1, needs \${MIN_CONTRAST}:1\`);
+        }
+    },
+    'alt-text': () => {
+        for (const match of html.matchAll(/<img\\b([^>]*)>/g)) {
+            check('alt-text', 'Image has alt text', 'alt' in attributes(match[1]));
+        }
+        if (!results.some(r => r.kind === 'alt-text')) {
+            check('alt-text', 'No images without alt text', true, 'no images in the page markup');
+        }
+    },
+    'reduced-motion': () => {
+        check('reduced-motion', 'Motion is reduced on request', /prefers-reduced-motion:\\s*reduce/.test(css));
+    }
+};
+
+for (const kind of new Set(REQUIREMENTS.map(r => r.kind))) {
+    const texts = REQUIREMENTS.filter(r => r.kind === kind).map(r => r.text);
+    console.log(\`\\n\${kind}: \${texts.join('; ')}\`);
+    const start = results.length;
+    CHECKS[kind]();
+    for (const result of results.slice(start)) {
+        console.log(\`  \${result.passed ? 'PASS' : 'FAIL'} \${result.description}\${result.detail ? \` (\${result.detail})\` : ''}\`);
+    }
+}
+
+const failures = results.filter(r => !r.passed).length;
+console.log(\`\\n\${results.length - failures} passed, \${failures} failed\`);
+process.exit(failures > 0 ? 1 : 0);
+`;
+  }
+
+  /**
+   * Move a foreground color towards black or white until it meets the
+   * required contrast against the background
+   * @returns The adjusted color as hex, or null if no change is needed or
+   *          the colors cannot be read
+   */
+  private ensureContrast(foreground: string, background: string, min: number): string | null {
+    const fg = this.parseColor(foreground);
+    const bg = this.parseColor(background);
+    if (!fg || !bg || this.contrast(fg, bg) >= min) {
+      return null;
+    }
+
+    // Head for whichever extreme contrasts more with the background
+    const target = this.contrast([0, 0, 0], bg) > this.contrast([255, 255, 255], bg)
+      ? [0, 0, 0]
+      : [255, 255, 255];
+
+    let mixed = fg;
+    for (let step = 1; step <= 20; step++) {
+      const amount = step / 20;
+      mixed = fg.map((c, i) => Math.round(c + (target[i] - c) * amount));
+      if (this.contrast(mixed, bg) >= min) break;
+    }
+
+    return `#${mixed.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  /**
+   * Parse a hex or rgb() color into channels
+   */
+  private parseColor(color: string | undefined): number[] | null {
+    if (!color) return null;
+
+    const rgb = color.match(/rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+    if (rgb) {
+      return rgb.slice(1, 4).map(Number);
+    }
+
+    let hex = color.trim().replace(/^#/, '');
+    if (!/^[0-9a-f]{3,8}$/i.test(hex)) return null;
+    if (hex.length <= 4) {
+      hex = hex.split('').map(c => c + c).join('');
+    }
+    return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
+  }
+
+  /**
+   * WCAG contrast ratio between two colors
+   */
+  private contrast(a: number[], b: number[]): number {
+    const [la, lb] = [this.luminance(a), this.luminance(b)];
+    return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+  }
+
+  /**
+   * WCAG relative luminance of a color
+   */
+  private luminance(channels: number[]): number {
+    const [r, g, b] = channels.map(c => {
+      const s = c / 255;
+      return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  }
+}
@@ -1,172 +0,0 @@
-import { 
-  ParsedReadme, 
-  AppType, 
-  SourceFile, 
-  ProgrammingLanguage 
-} from '../types/index.js';
-
-/**
- * Responsible for defining the architecture of the generated application.
- * Creates the structure of directories and files based on the app type.
- */
-export class ArchitectureGenerator {
-  /**
-   * Generate the basic architecture of the application
-   * @param parsed Parsed README data
-   * @returns Array of source files representing the application architecture
-   */
-  public generateArchitecture(parsed: ParsedReadme): SourceFile[] {
-    // Simplified implementation that just creates a basic HTML file
-    const files: SourceFile[] = [];
-    
-    files.push({
-      path: 'index.html',
-      content: this.generateHtmlTemplate(parsed),
-      language: ProgrammingLanguage.HTML
-    });
-    
-    return files;
-  }
-
-  /**
-   * Generate HTML template based on README data
-   */
-  private generateHtmlTemplate(parsed: ParsedReadme): string {
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${parsed.title || 'Generated App'}</title>
-</head>
-<body>
-    <header>
-        <h1>${parsed.title || 'Generated App'}</h1>
-    </header>
-    <main>
-        <p>${parsed.description || 'App description'}</p>
-    </main>
-    <footer>
-        <p>&copy; ${new Date().getFullYear()}</p>
-    </footer>
-</body>
-</html>`;
-  }
-
-  // Stubs for required methods
-  private generateWebAppArchitecture(parsed: ParsedReadme): SourceFile[] {
-    return [{ 
-      path: 'index.html', 
-      content: this.generateHtmlTemplate(parsed),
-      language: ProgrammingLanguage.HTML
-    }];
-  }
-
-  private generateMobileAppArchitecture(parsed: ParsedReadme): SourceFile[] {
-    return [{ 
-      path: 'App.js', 
-      content: `// Mobile app stub`,
-      language: ProgrammingLanguage.JAVASCRIPT
-    }];
-  }
-
-  private generateCliAppArchitecture(parsed: ParsedReadme): SourceFile[] {
-    return [{ 
-      path: 'cli.js', 
-      content: `// CLI app stub`,
-      language: ProgrammingLanguage.JAVASCRIPT
-    }];
-  }
-
-  private generateDesktopAppArchitecture(parsed: ParsedReadme): SourceFile[] {
-    return [{ 
-      path: 'main.js', 
-      content: `// Desktop app stub`,
-      language: ProgrammingLanguage.JAVASCRIPT
-    }];
-  }
-
-  private generateApiServerArchitecture(parsed: ParsedReadme): SourceFile[] {
-    return [{ 
-      path: 'server.js', 
-      content: `// API server stub`,
-      language: ProgrammingLanguage.JAVASCRIPT
-    }];
-  }
-
-  private generateCliMainFile(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// CLI main file stub`;
-  }
-
-  private generateCliCommands(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// CLI commands stub`;
-  }
-
-  private generateCliUtils(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// CLI utils stub`;
-  }
-
-  private generateMobileAppEntryPoint(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// Mobile app entry point stub`;
-  }
-
-  private generateMobileMainScreen(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// Mobile main screen stub`;
-  }
-
-  private generateMobileStyles(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// Mobile styles stub`;
-  }
-
-  private generateDesktopMainProcess(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// Desktop main process stub`;
-  }
-
-  private generateDesktopHtml(parsed: ParsedReadme): string {
-    return `<!-- Desktop HTML stub -->`;
-  }
-
-  private generateDesktopRenderer(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// Desktop renderer stub`;
-  }
-
-  private generateDesktopStyles(parsed: ParsedReadme): string {
-    return `/* Desktop styles stub */`;
-  }
-
-  private generateApiServerIndex(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// API server index stub`;
-  }
-
-  private generateApiRoutes(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// API routes stub`;
-  }
-
-  private generateApiControllers(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// API controllers stub`;
-  }
-
-  private generateApiModels(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// API models stub`;
-  }
-
-  private generateApiMiddleware(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// API middleware stub`;
-  }
-
-  private hasDataModelSection(parsed: ParsedReadme): boolean {
-    return false;
-  }
-
-  private generateCssTemplate(parsed: ParsedReadme): string {
-    return `/* CSS template stub */`;
-  }
-
-  private generateMainScript(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// Main script stub`;
-  }
-
-  private generateDataModelScript(parsed: ParsedReadme, useTypeScript: boolean): string {
-    return `// Data model script stub`;
-  }
-}
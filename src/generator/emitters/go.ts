@@ -0,0 +1,96 @@
+import { AppEntity, AppField, AppModel, AppType, CliCommand, EntityField, ProgrammingLanguage } from '../../types/index.js';
+import { TemplateEmitter } from './template.js';
+import path from 'path';
+
+/**
+ * Go types for entity field types
+ */
+const GO_TYPES: Record<EntityField['type'], string> = {
+  string: 'string',
+  number: 'float64',
+  boolean: 'bool',
+  date: 'string',
+  object: 'map[string]any',
+  reference: 'any',
+  unknown: 'any'
+};
+
+/**
+ * Names a generated Go package cannot take: keywords, predeclared types and
+ * functions, and the packages the Go templates import alongside them
+ */
+const GO_RESERVED = new Set([
+  'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func',
+  'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct',
+  'switch', 'type', 'var',
+  'any', 'bool', 'error', 'float64', 'int', 'string', 'append', 'copy', 'len', 'make', 'new', 'nil',
+  'api', 'cli', 'commands', 'errors', 'flag', 'fmt', 'io', 'main', 'models', 'os', 'store', 'strings'
+]);
+
+/**
+ * Emits a Go module with its entry point in `cmd/<name>/main.go` and an
+ * `internal/` package for each entity or command
+ */
+export class GoEmitter extends TemplateEmitter {
+  protected entryPoints: Partial<Record<AppType, string[]>> = {
+    [AppType.CLI_APP]: ['cmd/*/main.go'],
+    [AppType.API_SERVER]: ['cmd/*/main.go']
+  };
+
+  constructor() {
+    super(ProgrammingLanguage.GO);
+  }
+
+  /**
+   * Run from the module root: go run ./cmd/<name>
+   */
+  public runCommand(appType: AppType, mainFile: string): string | undefined {
+    return `go run ./${path.dirname(mainFile)}`;
+  }
+
+  protected context(model: AppModel): Record<string, unknown> {
+    return {
+      ...super.context(model),
+      // Sorted, as Go imports are, e.g. {{#each goPackages.entities}}
+      goPackages: {
+        entities: model.entities.map(entity => this.goPackage(entity.name)).sort(),
+        commands: model.cli.commands.map(command => this.goPackage(command.name)).sort()
+      }
+    };
+  }
+
+  protected entityValues(entity: AppEntity): Record<string, unknown> {
+    return { goPackage: this.goPackage(entity.name) };
+  }
+
+  protected fieldValues(field: AppField): Record<string, unknown> {
+    return { goType: this.goType(field) };
+  }
+
+  protected commandValues(command: CliCommand): Record<string, unknown> {
+    return { goPackage: this.goPackage(command.name) };
+  }
+
+  /**
+   * The Go type of an entity field. Optional fields are pointers, or nil
+   * slices and maps, so they can be left out of JSON; allowed values are
+   * checked when a request is validated.
+   */
+  private goType(field: EntityField): string {
+    const base = field.name === 'id' && field.type === 'number' ? 'int' : GO_TYPES[field.type];
+    if (field.isArray) {
+      return `[]${base}`;
+    }
+    return field.optional && !base.startsWith('map') && base !== 'any' ? `*${base}` : base;
+  }
+
+  /**
+   * Name of the Go package for an entity or command, e.g. `loanitem` for
+   * `LoanItem` and `remoteadd` for `remote add`, with `pkg` after names Go
+   * or the templates already use
+   */
+  private goPackage(name: string): string {
+    const pkg = name.toLowerCase().replace(/[^a-z0-9]/g, '').replace(/^(?=\d)/, 'x');
+    return GO_RESERVED.has(pkg) ? `${pkg}pkg` : pkg;
+  }
+}
@@ -0,0 +1,84 @@
+import { AppType, CodeTemplate, GeneratorOptions, LanguageEmitter, ParsedReadme, ProgrammingLanguage } from '../../types/index.js';
+import { ReadmeClassifier } from '../../parser/classifier.js';
+import { TemplateRegistry } from '../templates.js';
+import { TemplateEmitter } from './template.js';
+import { JavaScriptEmitter } from './javascript.js';
+import { TypeScriptEmitter } from './typescript.js';
+import { PythonEmitter } from './python.js';
+import { GoEmitter } from './go.js';
+
+export { TemplateEmitter, JavaScriptEmitter, TypeScriptEmitter, PythonEmitter, GoEmitter };
+
+/**
+ * An emitter chosen for an app, with the template it renders
+ */
+export interface EmitterSelection {
+  emitter: LanguageEmitter;
+  template: CodeTemplate;
+}
+
+/**
+ * Holds an emitter for each programming language and chooses the one an
+ * app is generated with
+ */
+export class EmitterRegistry {
+  private emitters: Map<ProgrammingLanguage, LanguageEmitter>;
+  private classifier: ReadmeClassifier;
+
+  constructor() {
+    this.emitters = new Map();
+    this.classifier = new ReadmeClassifier();
+
+    this.register(new JavaScriptEmitter());
+    this.register(new TypeScriptEmitter());
+    this.register(new PythonEmitter());
+    this.register(new GoEmitter());
+  }
+
+  /**
+   * Add an emitter, replacing any for the same language
+   */
+  public register(emitter: LanguageEmitter): void {
+    this.emitters.set(emitter.language, emitter);
+  }
+
+  /**
+   * Get the emitter for a language. Languages without one of their own,
+   * such as one a project adds templates for, are rendered from their
+   * templates alone.
+   */
+  public get(language: ProgrammingLanguage): LanguageEmitter {
+    return this.emitters.get(language) ?? new TemplateEmitter(language);
+  }
+
+  /**
+   * Choose the language to generate an app in: the one asked for in the
+   * options, else the README's `ZS:LANGUAGE`, else the language the
+   * classifier found the README uses most, else JavaScript. Languages
+   * without a template for the app type are passed over.
+   * @returns The emitter and its template, or undefined if there is no
+   *          template for the app type at all
+   */
+  public select(
+    parsed: ParsedReadme,
+    appType: AppType,
+    templates: TemplateRegistry,
+    options: GeneratorOptions
+  ): EmitterSelection | undefined {
+    const languages = [
+      options.preferredLanguage,
+      parsed.metadata.language ? this.classifier.languageOfName(parsed.metadata.language) : undefined,
+      ...(parsed.languages ?? []),
+      ProgrammingLanguage.JAVASCRIPT
+    ];
+    for (const language of languages) {
+      const template = language && templates.find(appType, language);
+      if (template) {
+        return { emitter: this.get(template.languages[0]), template };
+      }
+    }
+
+    const template = templates.findAll(appType)[0];
+    return template && { emitter: this.get(template.languages[0]), template };
+  }
+}
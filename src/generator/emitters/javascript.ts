@@ -0,0 +1,44 @@
+import { AppType, ProgrammingLanguage } from '../../types/index.js';
+import { TemplateEmitter } from './template.js';
+
+/**
+ * Emits plain JavaScript that runs without a build step: Node.js servers and
+ * CLIs, web pages that open straight from disk, and Electron apps
+ */
+export class JavaScriptEmitter extends TemplateEmitter {
+  protected entryPoints: Partial<Record<AppType, string[]>> = {
+    [AppType.WEB_APP]: ['index.html'],
+    [AppType.CLI_APP]: ['index.js'],
+    [AppType.DESKTOP_APP]: ['main.js'],
+    [AppType.API_SERVER]: ['server.js', 'index.js']
+  };
+
+  constructor(language: ProgrammingLanguage = ProgrammingLanguage.JAVASCRIPT) {
+    super(language);
+  }
+
+  /**
+   * Run the main file with Node.js, or open the page. Desktop apps start
+   * through their package's start script.
+   */
+  public runCommand(appType: AppType, mainFile: string): string | undefined {
+    switch (appType) {
+      case AppType.WEB_APP:
+        return `${this.build()}open ${mainFile}`;
+      case AppType.CLI_APP:
+      case AppType.API_SERVER:
+        return `${this.build()}node ${this.compiledPath(mainFile)}`;
+      case AppType.DESKTOP_APP:
+        return 'npm install && npm start';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * What to run before the app, if it needs building
+   */
+  protected build(): string {
+    return '';
+  }
+}
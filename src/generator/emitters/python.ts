@@ -0,0 +1,79 @@
+import { AppField, AppType, EntityField, ProgrammingLanguage } from '../../types/index.js';
+import { TemplateEmitter } from './template.js';
+import path from 'path';
+
+/**
+ * Python type hints for entity field types
+ */
+const PY_TYPES: Record<EntityField['type'], string> = {
+  string: 'str',
+  number: 'float',
+  boolean: 'bool',
+  date: 'str',
+  object: 'dict[str, Any]',
+  reference: 'str | int',
+  unknown: 'Any'
+};
+
+/**
+ * Python keywords, and names the model templates use in a dataclass body,
+ * that cannot be attribute names there
+ */
+const PY_RESERVED = new Set([
+  'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def',
+  'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is',
+  'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+  'field'
+]);
+
+/**
+ * Emits a Python package with a `pyproject.toml`, run with `python3 -m`
+ */
+export class PythonEmitter extends TemplateEmitter {
+  protected entryPoints: Partial<Record<AppType, string[]>> = {
+    [AppType.CLI_APP]: ['*/__main__.py'],
+    [AppType.API_SERVER]: ['*/__main__.py']
+  };
+
+  constructor() {
+    super(ProgrammingLanguage.PYTHON);
+  }
+
+  /**
+   * Run the package: python3 -m <package>
+   */
+  public runCommand(appType: AppType, mainFile: string): string | undefined {
+    return `python3 -m ${path.dirname(mainFile).replace(/\//g, '.')}`;
+  }
+
+  protected fieldValues(field: AppField): Record<string, unknown> {
+    return { pyName: this.pyName(field.name), pyType: this.pyType(field) };
+  }
+
+  /**
+   * The attribute name of an entity field, e.g. `due_date` for `dueDate`,
+   * with `_` after names Python or the templates already use, as in `from_`.
+   * Records keep the field's own name as their JSON key.
+   */
+  private pyName(name: string): string {
+    const attribute = name
+      .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean)
+      .join('_')
+      .replace(/^(?=\d)/, '_');
+    return PY_RESERVED.has(attribute) ? `${attribute}_` : attribute;
+  }
+
+  /**
+   * The Python type hint of an entity field, with `int` for numeric ids
+   * since the store numbers records 1, 2, 3…
+   */
+  private pyType(field: AppField): string {
+    const base = field.values
+      ? `Literal[${field.values.map(value => `'${value.replace(/['\\]/g, '\\$&')}'`).join(', ')}]`
+      : field.name === 'id' && field.type === 'number' ? 'int' : PY_TYPES[field.type];
+    return field.isArray ? `list[${base}]` : base;
+  }
+}
@@ -0,0 +1,322 @@
+import { AppModel, AppEntity, AppField, AppType, CliCommand, CodeTemplate, DesignTokens, LanguageEmitter, ProgrammingLanguage, SourceFile, UiAction, UiControl, UiRegion, WebAppPlan } from '../../types/index.js';
+import { TemplateRenderer } from '../renderer.js';
+import { TokenGenerator } from '../tokens.js';
+import { AccessibilityGenerator } from '../accessibility.js';
+
+/**
+ * How generated web apps name each action to screen reader users, as in
+ * "Delete Buy milk" for a ✕ button
+ */
+const UI_ACTION_VERBS: Record<UiAction, string> = {
+  add: 'Add',
+  remove: 'Delete',
+  toggle: 'Mark done',
+  edit: 'Edit',
+  filter: 'Show',
+  clear: 'Clear'
+};
+
+/**
+ * Emits an app by rendering a language's templates with the application
+ * model. Languages extend it to add their own template values, such as a
+ * type for each field, and to say how their apps start and run; a language
+ * with templates but no emitter of its own is rendered by this class alone.
+ */
+export class TemplateEmitter implements LanguageEmitter {
+  /**
+   * Files that start each type of application, in order of preference. A
+   * `*` matches one directory name, such as a Python package.
+   */
+  protected entryPoints: Partial<Record<AppType, string[]>> = {};
+
+  protected renderer: TemplateRenderer;
+  protected tokenGenerator: TokenGenerator;
+  protected accessibilityGenerator: AccessibilityGenerator;
+
+  constructor(public readonly language: ProgrammingLanguage) {
+    this.renderer = new TemplateRenderer();
+    this.tokenGenerator = new TokenGenerator();
+    this.accessibilityGenerator = new AccessibilityGenerator();
+  }
+
+  /**
+   * Render the template's files
+   * @param model The application model
+   * @param template The language's template for the app type
+   * @param partials Partials the template can include
+   */
+  public emit(model: AppModel, template: CodeTemplate, partials: Map<string, string>): SourceFile[] {
+    const context = this.context(model);
+    const outputs = template.files.flatMap(file =>
+      this.expandTemplatePath(file.path, context).map(([filePath, scope]) => ({
+        file,
+        name: `${template.name}/${filePath}`,
+        path: this.renderer.render(filePath, scope, partials, `${template.name}/${filePath} (path)`),
+        scope
+      }))
+    );
+
+    // Pages are rendered last so they can load every script the rest of the
+    // template made, with the page script last. A JavaScript main file, such
+    // as a desktop app's main process, is not loaded by the page. A file that
+    // renders to nothing is left out.
+    const render = (output: typeof outputs[number], scripts: string[]) =>
+      this.renderer.render(output.file.template, { ...output.scope, scripts }, partials, output.name);
+    const isPage = (output: typeof outputs[number]) => output.path.endsWith('.html');
+    const contents = new Map(outputs.filter(output => !isPage(output)).map(output => [output, render(output, [])]));
+
+    const mainFile = this.mainFile(outputs, model.appType);
+    const scripts = outputs
+      .filter(output => /\.(js|ts)$/.test(output.path) && !output.path.endsWith('.d.ts'))
+      .filter(output => output.path !== mainFile && contents.get(output)?.trim())
+      .map(output => output.path)
+      .sort((a, b) => Number(a === context.script) - Number(b === context.script))
+      .map(script => this.compiledPath(script));
+    outputs.filter(isPage).forEach(output => contents.set(output, render(output, scripts)));
+
+    const files: SourceFile[] = outputs
+      .filter(output => contents.get(output)!.trim() !== '')
+      .map(output => ({
+        path: output.path,
+        content: contents.get(output)!,
+        language: output.file.language
+      }));
+
+    // Apps with a UI also get design tokens and an accessibility check,
+    // unless the template provides its own
+    if (model.appType === AppType.WEB_APP || model.appType === AppType.DESKTOP_APP) {
+      const generated = [
+        ...this.generateTokenFiles(model.tokens),
+        ...this.generateAccessibilityCheck(model, context.script as string)
+      ];
+      files.push(...generated.filter(file => !files.some(f => f.path === file.path)));
+    }
+
+    return files;
+  }
+
+  /**
+   * The first of the app type's entry points among the files
+   */
+  public mainFile(files: Pick<SourceFile, 'path'>[], appType: AppType): string | undefined {
+    for (const candidate of this.entryPoints[appType] ?? []) {
+      const pattern = new RegExp(`^${candidate.replace(/[.]/g, '\\.').replace(/\*/g, '[^/]+')}$`);
+      const file = files.find(f => pattern.test(f.path));
+      if (file) {
+        return file.path;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The command to run the app; none unless the language says how
+   */
+  public runCommand(appType: AppType, mainFile: string): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Build the values templates can refer to
+   */
+  protected context(model: AppModel): Record<string, unknown> {
+    const rules = model.accessibility;
+    const a11y = this.accessibilityGenerator;
+    const tokens = model.tokens;
+
+    // Every token as a CSS variable reference, e.g. {{vars.colors.primary}}
+    const vars: Record<string, Record<string, string>> = {};
+    for (const [category, values] of Object.entries(tokens)) {
+      vars[category] = {};
+      for (const name of Object.keys(values as Record<string, string>)) {
+        vars[category][name] = this.tokenGenerator.variable(category as keyof DesignTokens, name);
+      }
+    }
+
+    // One flag per requirement kind, e.g. {{#if a11y.focusManagement}}
+    const flags: Record<string, boolean> = {};
+    for (const rule of rules) {
+      flags[rule.kind.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase())] = true;
+    }
+
+    return {
+      title: model.title,
+      description: model.description,
+      slug: model.slug,
+      year: new Date().getFullYear(),
+      appType: model.appType,
+      language: this.language,
+      features: model.features,
+      entities: model.entities.map(entity => ({
+        ...entity,
+        ...this.entityValues(entity),
+        fields: entity.fields.map(field => ({ ...field, ...this.fieldValues(field) }))
+      })),
+      routes: model.routes,
+      program: model.cli.program,
+      commands: model.cli.commands.map(command => ({ ...command, ...this.commandValues(command) })),
+      globalOptions: model.cli.options,
+      metadata: model.metadata,
+      complexity: model.complexity,
+      script: this.sourcePath(model.appType === AppType.DESKTOP_APP ? 'renderer' : 'app'),
+      ui: this.uiView(model.ui),
+      tokens,
+      vars,
+      stateRules: this.tokenGenerator.generateStateRules(tokens),
+      a11y: {
+        ...flags,
+        skipLink: a11y.generateSkipLink(rules),
+        liveRegion: a11y.generateLiveRegion(rules),
+        css: a11y.generateCss(rules),
+        script: a11y.generateScript(rules)
+      }
+    };
+  }
+
+  /**
+   * Values the language adds to an entity, such as its package name
+   */
+  protected entityValues(entity: AppEntity): Record<string, unknown> {
+    return {};
+  }
+
+  /**
+   * Values the language adds to a field, such as its type
+   */
+  protected fieldValues(field: AppField): Record<string, unknown> {
+    return {};
+  }
+
+  /**
+   * Values the language adds to a CLI command, such as its module name
+   */
+  protected commandValues(command: CliCommand): Record<string, unknown> {
+    return {};
+  }
+
+  /**
+   * Path of a source file in the language's layout, e.g. `app.js`
+   */
+  protected sourcePath(name: string): string {
+    return `${name}.js`;
+  }
+
+  /**
+   * Path of the script a page loads for a source file
+   */
+  protected compiledPath(file: string): string {
+    return file;
+  }
+
+  /**
+   * Work out which files a template file produces. A `[collection]/` segment
+   * in its path, as in `models/[entities]/{{name | kebab}}.js`, makes one file
+   * per item of that collection, with the item's fields in scope.
+   * @returns Each file's path template and the values to render it with
+   */
+  private expandTemplatePath(
+    filePath: string,
+    context: Record<string, unknown>
+  ): [string, Record<string, unknown>][] {
+    const match = /(^|\/)\[(\w+)\]\//.exec(filePath);
+    if (!match) {
+      return [[filePath, context]];
+    }
+
+    const items = context[match[2]];
+    if (!Array.isArray(items)) {
+      throw new Error(`Template ${filePath} repeats over "${match[2]}", which is not a list`);
+    }
+
+    const itemPath = filePath.slice(0, match.index + match[1].length) + filePath.slice(match.index + match[0].length);
+    return items.flatMap((item, index) => this.expandTemplatePath(itemPath, {
+      ...context,
+      '@index': index,
+      '@number': index + 1,
+      '@first': index === 0,
+      '@last': index === items.length - 1,
+      ...item
+    }));
+  }
+
+  /**
+   * Describe the web UI plan for templates. Regions and controls get flags
+   * for their kind, as in `{{#if is.list}}`, counters the text either side
+   * of the number, and every action a list, empty when it is not supported.
+   */
+  private uiView(plan: WebAppPlan): Record<string, unknown> {
+    const flags = (kinds: string[], kind: string) =>
+      Object.fromEntries(kinds.map(each => [each, each === kind]));
+    const control = (control: UiControl) => ({
+      is: flags(['button', 'checkbox', 'text', 'input'], control.type),
+      label: control.label,
+      action: control.action,
+      verb: control.action && UI_ACTION_VERBS[control.action],
+      event: control.event ?? (control.type === 'checkbox' ? 'change' : 'click'),
+      field: control.field,
+      filter: control.filter
+    });
+    const region = (region: UiRegion) => {
+      const [before, after] = (region.text ?? '').split('{count}');
+      return {
+        is: flags(['header', 'filters', 'list', 'counter', 'text'], region.kind),
+        text: region.text,
+        before,
+        after: after ?? '',
+        remaining: region.count === 'remaining',
+        controls: region.controls.map(control)
+      };
+    };
+    const list = plan.regions.find(each => each.kind === 'list');
+
+    return {
+      ...plan,
+      noun: plan.entity?.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase(),
+      regions: plan.regions.map(region),
+      listControls: list ? list.controls.map(control) : [],
+      actions: Object.fromEntries(
+        (['add', 'remove', 'toggle', 'edit', 'filter', 'clear'] as const).map(action => [action, plan.actions[action] ?? []])
+      )
+    };
+  }
+
+  /**
+   * Generate the design token stylesheet and JSON for apps with a UI
+   */
+  private generateTokenFiles(tokens: DesignTokens): SourceFile[] {
+    return [
+      {
+        path: 'tokens.css',
+        content: this.tokenGenerator.generateCss(tokens),
+        language: ProgrammingLanguage.CSS
+      },
+      {
+        path: 'tokens.json',
+        content: this.tokenGenerator.generateJson(tokens),
+        language: 'json'
+      }
+    ];
+  }
+
+  /**
+   * Generate the script that checks the UI against the README's
+   * accessibility requirements
+   * @param script The script loaded by the page
+   */
+  private generateAccessibilityCheck(model: AppModel, script: string): SourceFile[] {
+    if (model.accessibility.length === 0) {
+      return [];
+    }
+
+    return [{
+      path: 'a11y-check.js',
+      content: this.accessibilityGenerator.generateCheckScript(
+        model.title,
+        model.accessibility,
+        model.tokens,
+        script
+      ),
+      language: ProgrammingLanguage.JAVASCRIPT
+    }];
+  }
+}
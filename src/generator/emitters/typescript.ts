@@ -0,0 +1,80 @@
+import { AppField, AppModel, AppType, EntityField, ProgrammingLanguage } from '../../types/index.js';
+import { JavaScriptEmitter } from './javascript.js';
+
+/**
+ * TypeScript types for entity field types
+ */
+const TS_TYPES: Record<EntityField['type'], string> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  date: 'string',
+  object: 'Record<string, unknown>',
+  reference: 'string | number',
+  unknown: 'unknown'
+};
+
+/**
+ * Emits TypeScript sources in `src/` that compile to `dist/`. Apps run as
+ * their JavaScript counterparts do once built; desktop apps compile in their
+ * start script.
+ */
+export class TypeScriptEmitter extends JavaScriptEmitter {
+  protected entryPoints: Partial<Record<AppType, string[]>> = {
+    [AppType.WEB_APP]: ['index.html'],
+    [AppType.CLI_APP]: ['src/index.ts'],
+    [AppType.DESKTOP_APP]: ['src/main.ts'],
+    [AppType.API_SERVER]: ['src/server.ts', 'src/index.ts']
+  };
+
+  constructor() {
+    super(ProgrammingLanguage.TYPESCRIPT);
+  }
+
+  protected context(model: AppModel): Record<string, unknown> {
+    const context = super.context(model);
+    return {
+      ...context,
+      a11y: {
+        ...(context.a11y as Record<string, unknown>),
+        script: this.accessibilityGenerator.generateScript(model.accessibility, true)
+      }
+    };
+  }
+
+  protected fieldValues(field: AppField): Record<string, unknown> {
+    return { tsType: this.tsType(field) };
+  }
+
+  protected sourcePath(name: string): string {
+    return `src/${name}.ts`;
+  }
+
+  /**
+   * Path of the JavaScript a source file compiles to, e.g. `dist/app.js`
+   * for `src/app.ts`
+   */
+  protected compiledPath(file: string): string {
+    return file.endsWith('.ts')
+      ? file.replace(/^src\//, 'dist/').replace(/\.ts$/, '.js')
+      : file;
+  }
+
+  protected build(): string {
+    return 'npm install && npm run build && ';
+  }
+
+  /**
+   * The TypeScript type of an entity field. Dates are ISO 8601 strings, as
+   * they are in JSON, and references hold the id of the record.
+   */
+  private tsType(field: AppField): string {
+    const base = field.values
+      ? field.values.map(value => `'${value.replace(/['\\]/g, '\\$&')}'`).join(' | ')
+      : TS_TYPES[field.type];
+    if (!field.isArray) {
+      return base;
+    }
+    return base.includes(' ') ? `(${base})[]` : `${base}[]`;
+  }
+}
@@ -1,16 +1,24 @@
-import { ParsedReadme, GeneratorOptions, GenerationResult, SourceFile, AppType } from '../types/index.js';
+import { ParsedReadme, GeneratorOptions, GenerationResult, AppType } from '../types/index.js';
 import { CodeWriter } from './codewriter.js';
+import { TemplateRegistry, BUILTIN_TEMPLATE_DIR } from './templates.js';
+import { AppModelBuilder } from './model.js';
+import { EmitterRegistry } from './emitters/index.js';
 import path from 'path';
 
 /**
  * Main code generator class that handles the generation of application code
- * based on a parsed README file.
+ * based on a parsed README file. The README is turned into an application
+ * model, which the emitter for the chosen language writes out as files.
  */
 export class CodeGenerator {
   private codeWriter: CodeWriter;
+  private modelBuilder: AppModelBuilder;
+  private emitters: EmitterRegistry;
 
   constructor() {
     this.codeWriter = new CodeWriter();
+    this.modelBuilder = new AppModelBuilder();
+    this.emitters = new EmitterRegistry();
   }
 
   /**
@@ -26,14 +34,18 @@ export class CodeGenerator {
       // Determine application type and structure
       const appType = parsed.appType || AppType.WEB_APP;
       
-      // Generate source files based on the application type
-      const files = this.generateSourceFiles(parsed, options);
+      // Emit the application model in the chosen language
+      const templates = await this.loadTemplates(options);
+      const selected = this.emitters.select(parsed, appType, templates, options);
+      const model = this.modelBuilder.build(parsed, appType);
+      const files = selected ? selected.emitter.emit(model, selected.template, templates.getPartials()) : [];
+      const language = selected?.emitter.language;
 
       // Determine the main file to run
-      const mainFile = this.determineMainFile(files, appType);
+      const mainFile = selected?.emitter.mainFile(files, appType);
       
       // Determine command to run the application
-      const commandToRun = this.determineCommandToRun(appType, mainFile);
+      const commandToRun = selected && mainFile ? selected.emitter.runCommand(appType, mainFile) : undefined;
 
       // If an output format is specified, handle it
       let outputPath: string | undefined;
@@ -60,6 +72,7 @@ export class CodeGenerator {
         files,
         outputPath,
         appType,
+        language,
         mainFile,
         commandToRun
       };
@@ -69,207 +82,15 @@ export class CodeGenerator {
   }
 
   /**
-   * Generate source files based on the parsed README
-   * @param parsed The parsed README
-   * @param options Generator options
-   */
-  private generateSourceFiles(
-    parsed: ParsedReadme,
-    options: GeneratorOptions
-  ): SourceFile[] {
-    // This is where we would use templates and the parsed README
-    // to generate actual application code
-    
-    // For a simple implementation, we'll just create some basic files based on the app type
-    const files: SourceFile[] = [];
-    
-    if (parsed.appType === AppType.WEB_APP) {
-      // Basic web app structure
-      files.push({
-        path: 'index.html',
-        content: this.generateHtmlContent(parsed),
-        language: 'html' as any
-      });
-      
-      files.push({
-        path: 'style.css',
-        content: this.generateCssContent(parsed),
-        language: 'css' as any
-      });
-      
-      files.push({
-        path: 'app.js',
-        content: this.generateJsContent(parsed),
-        language: 'javascript' as any
-      });
-    } else if (parsed.appType === AppType.CLI_APP) {
-      // Basic CLI app structure
-      files.push({
-        path: 'index.js',
-        content: this.generateCliContent(parsed),
-        language: 'javascript' as any
-      });
-      
-      files.push({
-        path: 'package.json',
-        content: this.generatePackageJson(parsed),
-        language: 'javascript' as any
-      });
-    }
-    
-    // In a more complete implementation, we would analyze the README in detail
-    // and generate much more sophisticated code
-    
-    return files;
-  }
-
-  /**
-   * Determine the main file to run for the application
-   */
-  private determineMainFile(files: SourceFile[], appType: AppType): string | undefined {
-    switch (appType) {
-      case AppType.WEB_APP:
-        return files.find(f => f.path === 'index.html')?.path;
-      case AppType.CLI_APP:
-        return files.find(f => f.path === 'index.js')?.path;
-      case AppType.API_SERVER:
-        return files.find(f => f.path === 'server.js' || f.path === 'index.js')?.path;
-      default:
-        return undefined;
-    }
-  }
-
-  /**
-   * Determine the command to run the application
+   * Load the built-in templates, then any from the configured template
+   * directory over them
    */
-  private determineCommandToRun(appType: AppType, mainFile?: string): string | undefined {
-    if (!mainFile) return undefined;
-    
-    switch (appType) {
-      case AppType.WEB_APP:
-        return `open ${mainFile}`;
-      case AppType.CLI_APP:
-        return `node ${mainFile}`;
-      case AppType.API_SERVER:
-        return `node ${mainFile}`;
-      default:
-        return undefined;
+  private async loadTemplates(options: GeneratorOptions): Promise<TemplateRegistry> {
+    const templates = new TemplateRegistry();
+    await templates.loadDirectory(BUILTIN_TEMPLATE_DIR);
+    if (options.templateDir) {
+      await templates.loadDirectory(path.resolve(options.templateDir));
     }
-  }
-
-  /**
-   * Generate HTML content for a web application
-   */
-  private generateHtmlContent(parsed: ParsedReadme): string {
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${parsed.title}</title>
-    <link rel="stylesheet" href="style.css">
-</head>
-<body>
-    <header>
-        <h1>${parsed.title}</h1>
-    </header>
-    <main>
-        <p>${parsed.description}</p>
-        <div id="app"></div>
-    </main>
-    <footer>
-        <p>&copy; ${new Date().getFullYear()} Generated from Zero Source README</p>
-    </footer>
-    <script src="app.js"></script>
-</body>
-</html>`;
-  }
-
-  /**
-   * Generate CSS content for a web application
-   */
-  private generateCssContent(parsed: ParsedReadme): string {
-    return `/* Styles for ${parsed.title} */
-
-* {
-    box-sizing: border-box;
-    margin: 0;
-    padding: 0;
-}
-
-body {
-    font-family: Arial, sans-serif;
-    line-height: 1.6;
-    color: #333;
-    max-width: 1200px;
-    margin: 0 auto;
-    padding: 1rem;
-}
-
-header {
-    background-color: #f4f4f4;
-    text-align: center;
-    padding: 1rem;
-    margin-bottom: 2rem;
-}
-
-main {
-    min-height: 70vh;
-}
-
-footer {
-    text-align: center;
-    padding: 1rem;
-    margin-top: 2rem;
-    background-color: #f4f4f4;
-}`;
-  }
-
-  /**
-   * Generate JavaScript content for a web application
-   */
-  private generateJsContent(parsed: ParsedReadme): string {
-    return `// Main application code for ${parsed.title}
-
-document.addEventListener('DOMContentLoaded', () => {
-    console.log('Application initialized');
-    initApp();
-});
-
-function initApp() {
-    const appElement = document.getElementById('app');
-    if (!appElement) return;
-    
-    appElement.innerHTML = '<p>Application successfully generated from Zero Source README!</p>';
-}`;
-  }
-
-  /**
-   * Generate CLI application content
-   */
-  private generateCliContent(parsed: ParsedReadme): string {
-    return `#!/usr/bin/env node
-
-console.log('${parsed.title}');
-console.log('${parsed.description}');
-console.log('');
-console.log('This CLI application was generated from a Zero Source README.');`;
-  }
-
-  /**
-   * Generate package.json for a JavaScript application
-   */
-  private generatePackageJson(parsed: ParsedReadme): string {
-    return JSON.stringify({
-      name: parsed.title.toLowerCase().replace(/\s+/g, '-'),
-      version: '1.0.0',
-      description: parsed.description,
-      main: 'index.js',
-      scripts: {
-        start: 'node index.js'
-      },
-      author: '',
-      license: 'MIT'
-    }, null, 2);
+    return templates;
   }
 }
@@ -0,0 +1,145 @@
+import { ParsedReadme, AppType, AppModel, AppEntity, ApiRoute, EntitySchema, DesignTokens } from '../types/index.js';
+import { TokenGenerator } from './tokens.js';
+import { AccessibilityGenerator } from './accessibility.js';
+import { WebAppPlanner } from './webapp.js';
+
+/**
+ * Timestamp fields the generated server fills in, by normalized field name
+ */
+const MANAGED_TIMESTAMPS: Record<string, 'created' | 'updated'> = {
+  createdat: 'created',
+  created: 'created',
+  updatedat: 'updated',
+  updated: 'updated',
+  modifiedat: 'updated'
+};
+
+/**
+ * Builds the application model that language emitters generate code from:
+ * the README's entities with their REST resources, the routes serving them,
+ * the command-line interface, the planned web UI and the design tokens.
+ */
+export class AppModelBuilder {
+  private tokenGenerator: TokenGenerator;
+  private accessibilityGenerator: AccessibilityGenerator;
+  private webAppPlanner: WebAppPlanner;
+
+  constructor() {
+    this.tokenGenerator = new TokenGenerator();
+    this.accessibilityGenerator = new AccessibilityGenerator();
+    this.webAppPlanner = new WebAppPlanner();
+  }
+
+  /**
+   * Build the model of a parsed README
+   * @param parsed The parsed README
+   * @param appType The application type being generated
+   */
+  public build(parsed: ParsedReadme, appType: AppType): AppModel {
+    // Letters, digits and dashes only, so it can name packages, modules and
+    // directories in every language
+    const slug = parsed.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'app';
+    const ui = this.webAppPlanner.plan(parsed, slug);
+    const entities = parsed.entities.map(entity => ({
+      ...this.entity(entity),
+      storageKey: ui.storageKeys[entity.name]
+    }));
+
+    return {
+      title: parsed.title,
+      description: this.description(parsed),
+      slug,
+      appType,
+      features: parsed.features,
+      entities,
+      routes: entities.flatMap(entity => this.routes(entity)),
+      cli: { ...parsed.commands, program: parsed.commands.program ?? slug },
+      ui,
+      tokens: this.resolveTokens(parsed),
+      accessibility: parsed.accessibility,
+      metadata: parsed.metadata,
+      complexity: parsed.complexity
+    };
+  }
+
+  /**
+   * Describe an entity: its plural, REST resource name and id type, and for
+   * each field whether it is required and whether the server manages it
+   * (ids and created/updated timestamps)
+   */
+  private entity(entity: EntitySchema): AppEntity {
+    const plural = this.pluralize(entity.name);
+    const idField = entity.fields.find(field => field.name === 'id');
+
+    return {
+      ...entity,
+      plural,
+      resource: plural.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/[\s_]+/g, '-').toLowerCase(),
+      idType: idField?.type === 'number' ? 'number' : 'string',
+      hasId: idField !== undefined,
+      fields: entity.fields.map(field => ({
+        ...field,
+        // Set even when empty, so a field without one does not show the README's
+        description: field.description,
+        required: !field.optional,
+        managed: field.name === 'id'
+          ? 'id'
+          : MANAGED_TIMESTAMPS[field.name.replace(/[_-]/g, '').toLowerCase()]
+      }))
+    };
+  }
+
+  /**
+   * The REST routes that serve an entity
+   */
+  private routes(entity: AppEntity): ApiRoute[] {
+    const collection = `/${entity.resource}`;
+    const item = `${collection}/:id`;
+
+    return [
+      { method: 'GET', path: collection, entity: entity.name, action: 'list' },
+      { method: 'POST', path: collection, entity: entity.name, action: 'create' },
+      { method: 'GET', path: item, entity: entity.name, action: 'get' },
+      { method: 'PUT', path: item, entity: entity.name, action: 'replace' },
+      { method: 'PATCH', path: item, entity: entity.name, action: 'update' },
+      { method: 'DELETE', path: item, entity: entity.name, action: 'remove' }
+    ];
+  }
+
+  /**
+   * Pluralize an English noun, well enough for resource names
+   */
+  private pluralize(name: string): string {
+    if (/[^aeiou]y$/i.test(name)) return `${name.slice(0, -1)}ies`;
+    if (/(s|x|z|ch|sh)$/i.test(name)) return `${name}es`;
+    return `${name}s`;
+  }
+
+  /**
+   * The README's description: the text under the title or, as spec 2.0 puts
+   * it, the first paragraph of the Description section
+   */
+  private description(parsed: ParsedReadme): string {
+    const section = parsed.sections.find(each => /^description$/i.test(each.title.trim()));
+    const paragraphs = [parsed.description, ...(section?.content.split(/\n\s*\n/) ?? [])];
+    return paragraphs.map(paragraph => this.plainText(paragraph)).find(Boolean) ?? '';
+  }
+
+  /**
+   * Text without HTML comments, such as ZS tags, on one line
+   */
+  private plainText(text: string): string {
+    return text.replace(/<!--[\s\S]*?-->/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Resolve the README's design tokens, adjusting colors to meet any
+   * contrast requirement
+   */
+  private resolveTokens(parsed: ParsedReadme): DesignTokens {
+    return this.accessibilityGenerator.enforceContrast(
+      this.tokenGenerator.resolve(parsed.designTokens),
+      parsed.accessibility
+    );
+  }
+}
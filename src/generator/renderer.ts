@@ -0,0 +1,320 @@
+/**
+ * A node of a parsed template
+ */
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; path: string; filters: string[]; line: number }
+  | { type: 'partial'; name: string; line: number }
+  | {
+      type: 'block';
+      kind: 'if' | 'unless' | 'each';
+      path: string;
+      children: TemplateNode[];
+      inverse: TemplateNode[];
+      line: number;
+    };
+
+/**
+ * A `{{ ... }}` tag found in a template
+ */
+interface TemplateTag {
+  start: number;
+  end: number;
+  body: string;
+  line: number;
+}
+
+/**
+ * Functions a variable can be piped through, e.g. `{{ title | json }}`. Each
+ * gets the previous filter's output, or the value itself for the first, so
+ * `json` can serialize arrays and objects.
+ */
+const FILTERS: Record<string, (value: unknown) => string> = {
+  json: value => JSON.stringify(value ?? ''),
+  js: value => text(value).replace(/['\\]/g, '\\$&').replace(/\n/g, '\\n'),
+  html: value => text(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;'),
+  upper: value => text(value).toUpperCase(),
+  lower: value => text(value).toLowerCase(),
+  kebab: value => words(text(value)).join('-'),
+  snake: value => words(text(value)).join('_'),
+  camel: value => words(text(value)).map((w, i) => (i === 0 ? w : capitalize(w))).join(''),
+  pascal: value => words(text(value)).map(capitalize).join(''),
+  trim: value => text(value).trim()
+};
+
+/**
+ * Partials can include each other, but not without end
+ */
+const MAX_PARTIAL_DEPTH = 20;
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * Renders templates written in a small Handlebars-like language:
+ *
+ * - `{{ path.to.value }}` inserts a value as is; `{{ value | json }}` pipes
+ *   it through a filter (json, js, html, upper, lower, kebab, snake, camel,
+ *   pascal, trim)
+ * - `{{#if path}} ... {{else}} ... {{/if}}` and `{{#unless path}}` choose on
+ *   truthiness; empty arrays are false
+ * - `{{#each path}} ... {{else}} ... {{/each}}` repeats for every item, with
+ *   the item's fields in scope, `this` for the item itself and `@index`,
+ *   `@number`, `@first` and `@last`
+ * - `{{> name}}` renders a partial with the current scope
+ * - `{{! comment }}` is dropped
+ *
+ * Block tags, partials and comments alone on a line take the whole line with
+ * them, so they do not leave blank lines in the output.
+ */
+export class TemplateRenderer {
+  /**
+   * Render a template
+   * @param source The template source
+   * @param context Values the template can refer to
+   * @param partials Partial templates by name
+   * @param name Name of the template, for error messages
+   * @returns The rendered text
+   * @throws Error if the template is malformed or uses an unknown partial or filter
+   */
+  public render(
+    source: string,
+    context: Record<string, unknown>,
+    partials: Map<string, string> = new Map(),
+    name: string = 'template'
+  ): string {
+    return this.renderNodes(this.parse(source, name), [context], partials, name, 0);
+  }
+
+  /**
+   * Parse a template into a tree of nodes
+   */
+  private parse(source: string, name: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: { node: Extract<TemplateNode, { type: 'block' }>; inElse: boolean }[] = [];
+    const target = () => {
+      const open = stack[stack.length - 1];
+      return open ? (open.inElse ? open.node.inverse : open.node.children) : root;
+    };
+
+    let position = 0;
+    for (const tag of this.tags(source)) {
+      const standalone = this.standalone(source, tag);
+      const textEnd = standalone ? standalone.start : tag.start;
+      if (textEnd > position) {
+        target().push({ type: 'text', text: source.slice(position, textEnd) });
+      }
+      position = standalone ? standalone.end : tag.end;
+
+      const body = tag.body;
+      const where = `in ${name} on line ${tag.line}`;
+
+      if (body.startsWith('!')) {
+        continue;
+      }
+
+      if (body.startsWith('#')) {
+        const [kind, path] = body.slice(1).trim().split(/\s+/);
+        if (kind !== 'if' && kind !== 'unless' && kind !== 'each') {
+          throw new Error(`Unknown block "{{#${kind}}}" ${where}`);
+        }
+        if (!path) {
+          throw new Error(`{{#${kind}}} needs a value ${where}`);
+        }
+        const node: Extract<TemplateNode, { type: 'block' }> = {
+          type: 'block',
+          kind,
+          path,
+          children: [],
+          inverse: [],
+          line: tag.line
+        };
+        target().push(node);
+        stack.push({ node, inElse: false });
+        continue;
+      }
+
+      if (body === 'else') {
+        const open = stack[stack.length - 1];
+        if (!open || open.inElse) {
+          throw new Error(`Unexpected {{else}} ${where}`);
+        }
+        open.inElse = true;
+        continue;
+      }
+
+      if (body.startsWith('/')) {
+        const kind = body.slice(1).trim();
+        const open = stack.pop();
+        if (!open || open.node.kind !== kind) {
+          throw new Error(`Unexpected {{/${kind}}} ${where}`);
+        }
+        continue;
+      }
+
+      if (body.startsWith('>')) {
+        target().push({ type: 'partial', name: body.slice(1).trim(), line: tag.line });
+        continue;
+      }
+
+      const [path, ...filters] = body.split('|').map(part => part.trim());
+      const unknown = filters.find(filter => !FILTERS[filter]);
+      if (unknown) {
+        throw new Error(`Unknown filter "${unknown}" ${where}`);
+      }
+      target().push({ type: 'variable', path, filters, line: tag.line });
+    }
+
+    const unclosed = stack.pop();
+    if (unclosed) {
+      throw new Error(`Unclosed {{#${unclosed.node.kind}}} in ${name} on line ${unclosed.node.line}`);
+    }
+    if (position < source.length) {
+      root.push({ type: 'text', text: source.slice(position) });
+    }
+
+    return root;
+  }
+
+  /**
+   * Find every `{{ ... }}` tag in a template
+   */
+  private tags(source: string): TemplateTag[] {
+    const tags: TemplateTag[] = [];
+    const pattern = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+    let line = 1;
+    let counted = 0;
+
+    let match;
+    while ((match = pattern.exec(source)) !== null) {
+      for (; counted < match.index; counted++) {
+        if (source[counted] === '\n') line++;
+      }
+      tags.push({ start: match.index, end: match.index + match[0].length, body: match[1], line });
+    }
+
+    return tags;
+  }
+
+  /**
+   * If a block tag, partial or comment is alone on its line, get the span of the
+   * whole line including its line break
+   */
+  private standalone(source: string, tag: TemplateTag): { start: number; end: number } | undefined {
+    if (!/^[#/!>]|^else$/.test(tag.body)) {
+      return undefined;
+    }
+
+    const lineStart = source.lastIndexOf('\n', tag.start - 1) + 1;
+    const newline = source.indexOf('\n', tag.end);
+    const lineEnd = newline === -1 ? source.length : newline + 1;
+
+    const before = source.slice(lineStart, tag.start);
+    const after = source.slice(tag.end, newline === -1 ? source.length : newline).replace(/\r$/, '');
+    return before.trim() === '' && after.trim() === '' ? { start: lineStart, end: lineEnd } : undefined;
+  }
+
+  /**
+   * Render nodes against a stack of scopes, innermost last
+   */
+  private renderNodes(
+    nodes: TemplateNode[],
+    scopes: unknown[],
+    partials: Map<string, string>,
+    name: string,
+    depth: number
+  ): string {
+    let output = '';
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.text;
+          break;
+
+        case 'variable': {
+          const value = this.lookup(node.path, scopes);
+          output += text(node.filters.reduce((result: unknown, filter) => FILTERS[filter](result), value));
+          break;
+        }
+
+        case 'partial': {
+          const partial = partials.get(node.name);
+          if (partial === undefined) {
+            throw new Error(`Unknown partial "${node.name}" in ${name} on line ${node.line}`);
+          }
+          if (depth >= MAX_PARTIAL_DEPTH) {
+            throw new Error(`Partials nest more than ${MAX_PARTIAL_DEPTH} deep at "${node.name}" in ${name}`);
+          }
+          const partialName = `partial ${node.name}`;
+          output += this.renderNodes(this.parse(partial, partialName), scopes, partials, partialName, depth + 1);
+          break;
+        }
+
+        case 'block': {
+          const value = this.lookup(node.path, scopes);
+
+          if (node.kind === 'each') {
+            const items = Array.isArray(value) ? value : [];
+            output += items.length === 0
+              ? this.renderNodes(node.inverse, scopes, partials, name, depth)
+              : items.map((item, index) => this.renderNodes(node.children, [
+                  ...scopes,
+                  { '@index': index, '@number': index + 1, '@first': index === 0, '@last': index === items.length - 1 },
+                  item
+                ], partials, name, depth)).join('');
+            break;
+          }
+
+          const truthy = Array.isArray(value) ? value.length > 0 : !!value;
+          const chosen = truthy === (node.kind === 'if') ? node.children : node.inverse;
+          output += this.renderNodes(chosen, scopes, partials, name, depth);
+          break;
+        }
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Resolve a dotted path against the scopes, innermost first. `this` is
+   * the innermost scope itself.
+   */
+  private lookup(path: string, scopes: unknown[]): unknown {
+    const [head, ...rest] = path.split('.');
+
+    let value: unknown;
+    if (head === 'this') {
+      value = scopes[scopes.length - 1];
+    } else {
+      const scope = [...scopes].reverse().find(s => typeof s === 'object' && s !== null && head in s);
+      value = scope ? (scope as Record<string, unknown>)[head] : undefined;
+    }
+
+    for (const key of rest) {
+      if (typeof value !== 'object' || value === null) {
+        return undefined;
+      }
+      value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+  }
+}
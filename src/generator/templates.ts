@@ -0,0 +1,196 @@
+import { AppType, CodeTemplate, FileLanguage, ProgrammingLanguage, TemplateFile } from '../types/index.js';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * Directory of the templates shipped with the server
+ */
+export const BUILTIN_TEMPLATE_DIR = fileURLToPath(new URL('../../templates', import.meta.url));
+
+/**
+ * Extension that marks a file in a template directory as a template
+ */
+const TEMPLATE_EXTENSION = '.tpl';
+
+/**
+ * Directory, inside a template directory, that holds partials
+ */
+const PARTIALS_DIR = 'partials';
+
+/**
+ * Languages of generated files, by extension
+ */
+const EXTENSION_LANGUAGES: Record<string, FileLanguage> = {
+  '.html': ProgrammingLanguage.HTML,
+  '.css': ProgrammingLanguage.CSS,
+  '.js': ProgrammingLanguage.JAVASCRIPT,
+  '.mjs': ProgrammingLanguage.JAVASCRIPT,
+  '.cjs': ProgrammingLanguage.JAVASCRIPT,
+  '.ts': ProgrammingLanguage.TYPESCRIPT,
+  '.py': ProgrammingLanguage.PYTHON,
+  '.java': ProgrammingLanguage.JAVA,
+  '.cs': ProgrammingLanguage.CSHARP,
+  '.go': ProgrammingLanguage.GO,
+  '.json': 'json'
+};
+
+/**
+ * Holds the code templates for each application type and language, and the
+ * partials they share.
+ *
+ * Templates are loaded from directories laid out as
+ * `<app-type>/<language>/<file path>.tpl`, e.g. `web-app/javascript/index.html.tpl`,
+ * with partials in `partials/<name>.tpl`. Loading a second directory merges
+ * it into the first: files and partials with the same path replace the
+ * earlier ones and new files are added, so a project can override or extend
+ * the built-in scaffolding without copying all of it.
+ */
+export class TemplateRegistry {
+  private templates: Map<string, CodeTemplate>;
+  private partials: Map<string, string>;
+
+  constructor() {
+    this.templates = new Map();
+    this.partials = new Map();
+  }
+
+  /**
+   * Add a template, merging its files into any template already registered
+   * for the same application type and language
+   * @param template The template to add
+   */
+  public register(template: CodeTemplate): void {
+    for (const language of template.languages) {
+      const key = this.key(template.appType, language);
+      const existing = this.templates.get(key);
+      if (!existing) {
+        this.templates.set(key, { ...template, languages: [language], files: [...template.files] });
+        continue;
+      }
+
+      for (const file of template.files) {
+        const index = existing.files.findIndex(f => f.path === file.path);
+        if (index === -1) {
+          existing.files.push(file);
+        } else {
+          existing.files[index] = file;
+        }
+      }
+    }
+  }
+
+  /**
+   * Add a partial, replacing any partial with the same name
+   * @param name Name used in `{{> name}}`
+   * @param source The partial template
+   */
+  public registerPartial(name: string, source: string): void {
+    this.partials.set(name, source);
+  }
+
+  /**
+   * Find the template for an application type and language
+   * @returns The template, or undefined if none is registered
+   */
+  public find(appType: AppType, language: ProgrammingLanguage): CodeTemplate | undefined {
+    return this.templates.get(this.key(appType, language));
+  }
+
+  /**
+   * Get every template for an application type
+   */
+  public findAll(appType: AppType): CodeTemplate[] {
+    return [...this.templates.values()].filter(t => t.appType === appType);
+  }
+
+  /**
+   * Get the registered partials by name
+   */
+  public getPartials(): Map<string, string> {
+    return new Map(this.partials);
+  }
+
+  /**
+   * Load every template and partial in a directory
+   * @param dir The template directory
+   * @throws Error if the directory does not exist or names an unknown
+   *         application type or language
+   */
+  public async loadDirectory(dir: string): Promise<void> {
+    if (!await fs.pathExists(dir)) {
+      throw new Error(`Template directory not found: ${dir}`);
+    }
+
+    const partialsDir = path.join(dir, PARTIALS_DIR);
+    if (await fs.pathExists(partialsDir)) {
+      for (const file of await this.templateFiles(partialsDir)) {
+        this.registerPartial(file.slice(0, -TEMPLATE_EXTENSION.length), await this.readTemplate(path.join(partialsDir, file)));
+      }
+    }
+
+    const appTypes = Object.values(AppType) as string[];
+    const languages = Object.values(ProgrammingLanguage) as string[];
+
+    for (const appTypeDir of await fs.readdir(dir)) {
+      if (appTypeDir === PARTIALS_DIR || !(await fs.stat(path.join(dir, appTypeDir))).isDirectory()) continue;
+      if (!appTypes.includes(appTypeDir)) {
+        throw new Error(`Unknown application type "${appTypeDir}" in ${dir}; expected one of ${appTypes.join(', ')}`);
+      }
+
+      for (const languageDir of await fs.readdir(path.join(dir, appTypeDir))) {
+        const templateDir = path.join(dir, appTypeDir, languageDir);
+        if (!(await fs.stat(templateDir)).isDirectory()) continue;
+        if (!languages.includes(languageDir)) {
+          throw new Error(`Unknown language "${languageDir}" in ${path.join(dir, appTypeDir)}; expected one of ${languages.join(', ')}`);
+        }
+
+        const language = languageDir as ProgrammingLanguage;
+        const files: TemplateFile[] = [];
+        for (const file of await this.templateFiles(templateDir)) {
+          const filePath = file.slice(0, -TEMPLATE_EXTENSION.length);
+          files.push({
+            path: filePath,
+            template: await this.readTemplate(path.join(templateDir, file)),
+            language: EXTENSION_LANGUAGES[path.extname(filePath)] ?? language
+          });
+        }
+
+        this.register({
+          name: `${appTypeDir}/${languageDir}`,
+          appType: appTypeDir as AppType,
+          languages: [language],
+          files
+        });
+      }
+    }
+  }
+
+  /**
+   * List the template files under a directory as `/` separated relative paths
+   */
+  private async templateFiles(dir: string, prefix: string = ''): Promise<string[]> {
+    const found: string[] = [];
+    for (const entry of (await fs.readdir(dir)).sort()) {
+      const full = path.join(dir, entry);
+      if ((await fs.stat(full)).isDirectory()) {
+        found.push(...await this.templateFiles(full, `${prefix}${entry}/`));
+      } else if (entry.endsWith(TEMPLATE_EXTENSION)) {
+        found.push(`${prefix}${entry}`);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Read a template, normalizing line endings so generated files do not
+   * depend on how the templates were checked out
+   */
+  private async readTemplate(file: string): Promise<string> {
+    return (await fs.readFile(file, 'utf8')).replace(/\r\n/g, '\n');
+  }
+
+  private key(appType: AppType, language: ProgrammingLanguage): string {
+    return `${appType}/${language}`;
+  }
+}
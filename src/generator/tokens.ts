@@ -0,0 +1,140 @@
+import { DesignTokens } from '../types/index.js';
+
+/**
+ * Tokens used when the README's Style Guide leaves a value unset
+ */
+const DEFAULT_TOKENS: DesignTokens = {
+  colors: {
+    primary: '#0066cc',
+    text: '#333333',
+    background: '#ffffff',
+    surface: '#f4f4f4',
+    border: '#dddddd',
+    muted: '#888888'
+  },
+  typography: {
+    'font-family': 'Arial, sans-serif',
+    'font-size': '16px',
+    'line-height': '1.6'
+  },
+  spacing: {
+    base: '1rem'
+  },
+  motion: {
+    duration: '0s',
+    easing: 'ease',
+    'hover-filter': 'none'
+  }
+};
+
+/**
+ * CSS custom property prefix for each token category
+ */
+const CATEGORY_PREFIXES: Record<keyof DesignTokens, string> = {
+  colors: 'color',
+  typography: 'typography',
+  spacing: 'spacing',
+  motion: 'motion'
+};
+
+/**
+ * CSS properties for state tokens such as `completed-decoration`
+ */
+const STATE_PROPERTIES: Record<string, string> = {
+  decoration: 'text-decoration',
+  weight: 'font-weight',
+  style: 'font-style'
+};
+
+/**
+ * Turns design tokens into CSS custom properties and JSON, filling in
+ * defaults for anything the Style Guide does not mention.
+ */
+export class TokenGenerator {
+  /**
+   * Merge README tokens over the defaults
+   * @param tokens Tokens parsed from the README
+   * @returns A complete token set
+   */
+  public resolve(tokens: DesignTokens): DesignTokens {
+    const colors = { ...DEFAULT_TOKENS.colors, ...tokens.colors };
+
+    // Links follow the primary color and buttons put the page background on it,
+    // unless the Style Guide names them
+    colors.link ??= colors.primary;
+    colors['on-primary'] ??= colors.background;
+
+    return {
+      colors,
+      typography: { ...DEFAULT_TOKENS.typography, ...tokens.typography },
+      spacing: { ...DEFAULT_TOKENS.spacing, ...tokens.spacing },
+      motion: { ...DEFAULT_TOKENS.motion, ...tokens.motion }
+    };
+  }
+
+  /**
+   * Generate a stylesheet declaring every token as a custom property on `:root`
+   */
+  public generateCss(tokens: DesignTokens): string {
+    const declarations = (Object.keys(CATEGORY_PREFIXES) as (keyof DesignTokens)[])
+      .flatMap(category =>
+        Object.entries(tokens[category]).map(
+          ([name, value]) => `    ${this.variableName(category, name)}: ${value};`
+        )
+      );
+
+    return `/* Design tokens generated from the README Style Guide */
+
+:root {
+${declarations.join('\n')}
+}`;
+  }
+
+  /**
+   * Generate the tokens as a JSON document
+   */
+  public generateJson(tokens: DesignTokens): string {
+    return JSON.stringify(tokens, null, 2);
+  }
+
+  /**
+   * Get a `var()` reference to a token
+   */
+  public variable(category: keyof DesignTokens, name: string): string {
+    return `var(${this.variableName(category, name)})`;
+  }
+
+  /**
+   * Generate rules for state classes such as `.completed`, built from
+   * typography tokens named `<state>-decoration`, `<state>-weight` or
+   * `<state>-style` and a matching color token
+   */
+  public generateStateRules(tokens: DesignTokens): string {
+    const states = new Map<string, string[]>();
+
+    for (const name of Object.keys(tokens.typography)) {
+      const match = name.match(/^(.+)-(decoration|weight|style)$/);
+      if (!match || match[1] === 'font') continue;
+
+      const declarations = states.get(match[1]) || [];
+      declarations.push(`    ${STATE_PROPERTIES[match[2]]}: ${this.variable('typography', name)};`);
+      states.set(match[1], declarations);
+    }
+
+    return [...states.entries()]
+      .map(([state, declarations]) => {
+        if (tokens.colors[state]) {
+          declarations.push(`    color: ${this.variable('colors', state)};`);
+        }
+        return `.${state} {\n${declarations.join('\n')}\n}`;
+      })
+      .join('\n\n');
+  }
+
+  /**
+   * Build the custom property name for a token
+   */
+  private variableName(category: keyof DesignTokens, name: string): string {
+    return `--${CATEGORY_PREFIXES[category]}-${name}`;
+  }
+}
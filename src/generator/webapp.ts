@@ -0,0 +1,424 @@
+import {
+  EntityField,
+  EntitySchema,
+  Feature,
+  ParsedReadme,
+  ReadmeSection,
+  UiAction,
+  UiControl,
+  UiFilter,
+  UiRegion,
+  UiRequirement,
+  WebAppPlan,
+  WireframeNode
+} from '../types/index.js';
+
+/**
+ * Words that name each action, in a requirement or on a button
+ */
+const ACTION_PATTERNS: [UiAction, RegExp][] = [
+  ['toggle', /\b(toggle|mark|check|uncheck|complete)\b/i],
+  ['remove', /\b(delete|remove|trash|discard)\b|^[✕×xX🗑]$/i],
+  ['edit', /\b(edit|rename|change|modify)\b/i],
+  ['clear', /\bclear\b/i],
+  ['filter', /\b(filter|show only)\b/i],
+  ['add', /\b(add|create|new)\b|^\+/i]
+];
+
+/**
+ * Names of text fields that make good item labels, best first
+ */
+const TEXT_FIELDS = /^(title|name|text|label|summary|description)$/i;
+
+/**
+ * Names of boolean fields that mean an item is done
+ */
+const DONE_FIELDS = /^(completed?|done|finished|checked|closed|resolved)$/i;
+
+/**
+ * Filter labels that show everything, and those that show items not done
+ */
+const ALL_FILTER = /^(all|any|everything)$/i;
+const REMAINING_FILTER = /^(active|incomplete|pending|open|todo|to do|remaining|unfinished|not done|outstanding)$/i;
+
+/**
+ * Counter text that counts items not yet done
+ */
+const REMAINING_COUNT = /\b(left|remaining|active|to ?do|pending|open|incomplete|outstanding)\b/i;
+
+/**
+ * Plans the UI of a generated web app: which entity it lists, the regions
+ * drawn in the README wireframe, the filters and the actions that features
+ * and interactions ask for. The plan is plain data that the web app
+ * templates render into views and controllers.
+ */
+export class WebAppPlanner {
+  /**
+   * Plan the web UI for a README
+   * @param parsed The parsed README
+   * @param slug Application slug, used in storage keys
+   */
+  public plan(parsed: ParsedReadme, slug: string): WebAppPlan {
+    const entity = this.primaryEntity(parsed);
+    const fields = entity?.fields.filter(field => field.name !== 'id') ?? [];
+    const textField = this.pickField(fields, TEXT_FIELDS, 'string');
+    const doneField = this.pickField(fields, DONE_FIELDS, 'boolean');
+
+    const requirements = parsed.features;
+    const { actions, unmatched } = this.planActions(requirements);
+    const wireframe = this.findWireframe(parsed.sections);
+    const filters = this.planFilters(wireframe, requirements, entity, doneField);
+    if (filters.length > 0) {
+      actions.filter ??= [];
+    }
+
+    const events = this.interactionEvents(requirements);
+    const regions = entity
+      ? this.planRegions(wireframe, filters, actions, textField, doneField, events)
+      : [];
+
+    return {
+      entity: entity?.name,
+      textField,
+      doneField,
+      regions,
+      filters,
+      defaultFilter: filters[0]?.name,
+      actions,
+      unmatched,
+      storageKeys: this.storageKeys(parsed, entity, slug)
+    };
+  }
+
+  /**
+   * The entity the features talk about most, or the first one
+   */
+  private primaryEntity(parsed: ParsedReadme): EntitySchema | undefined {
+    const text = parsed.features.map(feature => feature.text).join('\n').toLowerCase();
+    const mentions = (entity: EntitySchema) =>
+      (text.match(new RegExp(`\\b${entity.name.toLowerCase()}`, 'g')) ?? []).length;
+
+    return [...parsed.entities].sort((a, b) => mentions(b) - mentions(a))[0];
+  }
+
+  /**
+   * Pick the field a name pattern prefers, or else the first of a type
+   */
+  private pickField(fields: EntityField[], preferred: RegExp, type: EntityField['type']): string | undefined {
+    const ofType = fields.filter(field => field.type === type && !field.isArray);
+    return (ofType.find(field => preferred.test(field.name)) ?? ofType[0])?.name;
+  }
+
+  /**
+   * Work out the action each feature and interaction asks for. For
+   * "Click the delete button to remove a task" the part after "to" decides.
+   */
+  private planActions(requirements: Feature[]): Pick<WebAppPlan, 'actions' | 'unmatched'> {
+    const actions: WebAppPlan['actions'] = {};
+    const unmatched: UiRequirement[] = [];
+
+    for (const requirement of requirements) {
+      const purpose = requirement.text.split(/\bto\b/i).slice(1).join(' to ') || requirement.text;
+      const action = this.actionFor(purpose) ?? this.actionFor(requirement.text);
+      const entry = { id: requirement.id, text: requirement.text };
+
+      if (action) {
+        (actions[action] ??= []).push(entry);
+      } else if (requirement.kind === 'interaction') {
+        unmatched.push(entry);
+      }
+    }
+
+    return { actions, unmatched };
+  }
+
+  private actionFor(text: string): UiAction | undefined {
+    return ACTION_PATTERNS.find(([, pattern]) => pattern.test(text.trim()))?.[0];
+  }
+
+  /**
+   * Events named by interactions, by action, e.g. `dblclick` for
+   * "Double-click a task to edit it"
+   */
+  private interactionEvents(requirements: Feature[]): Partial<Record<UiAction, string>> {
+    const events: Partial<Record<UiAction, string>> = {};
+    for (const requirement of requirements) {
+      if (requirement.kind !== 'interaction' || !/\bdouble[- ]?click/i.test(requirement.text)) continue;
+      const action = this.actionFor(requirement.text.split(/\bto\b/i).slice(1).join(' ') || requirement.text);
+      if (action) events[action] = 'dblclick';
+    }
+    return events;
+  }
+
+  /**
+   * Find the first wireframe, preferring User Interface sections
+   */
+  private findWireframe(sections: ReadmeSection[]): WireframeNode | undefined {
+    const all: ReadmeSection[] = [];
+    const walk = (list: ReadmeSection[]) => list.forEach(section => {
+      all.push(section);
+      walk(section.subsections);
+    });
+    walk(sections);
+
+    const preferred = all.find(section => /\b(interface|ui|layout|screens?|wireframes?)\b/i.test(section.title) && section.wireframes.length > 0);
+    return (preferred ?? all.find(section => section.wireframes.length > 0))?.wireframes[0].root;
+  }
+
+  /**
+   * Plan the filters from the wireframe's filter buttons, or from a feature
+   * such as "Filter tasks by status (all, active, completed)"
+   */
+  private planFilters(
+    wireframe: WireframeNode | undefined,
+    requirements: Feature[],
+    entity: EntitySchema | undefined,
+    doneField: string | undefined
+  ): UiFilter[] {
+    let labels = wireframe
+      ? this.regions(wireframe).map(region => this.filterLabels(region)).find(found => found.length > 0) ?? []
+      : [];
+
+    if (labels.length === 0) {
+      for (const requirement of requirements) {
+        const listed = /\bfilter\b[^(]*\(([^)]+)\)/i.exec(requirement.text);
+        if (listed) {
+          labels = listed[1].split(/,|\bor\b|\/|\|/).map(label => label.trim()).filter(Boolean);
+          break;
+        }
+      }
+    }
+
+    return labels.map(label => this.filter(label, entity, doneField));
+  }
+
+  /**
+   * Build the test for a filter label
+   */
+  private filter(label: string, entity: EntitySchema | undefined, doneField: string | undefined): UiFilter {
+    const name = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'filter';
+    const display = label.charAt(0).toUpperCase() + label.slice(1);
+    const matched = (test: string): UiFilter => ({ name, label: display, test, unmatched: false });
+
+    if (ALL_FILTER.test(label)) {
+      return matched('() => true');
+    }
+
+    const valueField = entity?.fields.find(field => field.values?.some(value => value.toLowerCase() === label.toLowerCase()));
+    if (valueField) {
+      const value = valueField.values!.find(v => v.toLowerCase() === label.toLowerCase())!;
+      return matched(`item => item.${valueField.name} === ${JSON.stringify(value)}`);
+    }
+
+    const booleanField = entity?.fields.find(field => field.type === 'boolean' && field.name.toLowerCase() === name.replace(/-/g, ''));
+    if (booleanField) {
+      return matched(`item => item.${booleanField.name} === true`);
+    }
+    if (doneField && DONE_FIELDS.test(label)) {
+      return matched(`item => item.${doneField} === true`);
+    }
+    if (doneField && REMAINING_FILTER.test(label)) {
+      return matched(`item => !item.${doneField}`);
+    }
+
+    return { name, label: display, test: '() => true', unmatched: true };
+  }
+
+  /**
+   * Plan the regions from the wireframe, or a default layout without one
+   */
+  private planRegions(
+    wireframe: WireframeNode | undefined,
+    filters: UiFilter[],
+    actions: WebAppPlan['actions'],
+    textField: string | undefined,
+    doneField: string | undefined,
+    events: Partial<Record<UiAction, string>>
+  ): UiRegion[] {
+    const itemControls = (nodes?: WireframeNode[]): UiControl[] => {
+      const controls: UiControl[] = nodes
+        ? nodes.flatMap(node => this.itemControl(node, actions, textField, doneField))
+        : [
+            ...(doneField ? [{ type: 'checkbox' as const, action: 'toggle' as const, field: doneField }] : []),
+            { type: 'text' as const, field: textField, ...(actions.edit ? { action: 'edit' as const } : {}) },
+            ...(actions.remove ? [{ type: 'button' as const, label: '✕', action: 'remove' as const }] : [])
+          ];
+      return controls.map(control => (control.action && events[control.action] ? { ...control, event: events[control.action] } : control));
+    };
+
+    const addControls: UiControl[] = [
+      { type: 'input', field: textField },
+      { type: 'button', label: 'Add', action: 'add' }
+    ];
+
+    const regions: UiRegion[] = [];
+    for (const region of wireframe ? this.regions(wireframe) : []) {
+      const list = this.find(region, 'list');
+      if (list) {
+        const row = list.children.find(child => child.type === 'row');
+        regions.push({ kind: 'list', controls: itemControls(row ? row.children : [list.children[0]].filter(Boolean)) });
+        continue;
+      }
+
+      const filterLabels = this.filterLabels(region);
+      if (filterLabels.length > 0 && filters.length > 0) {
+        const label = this.texts(region).find(text => !filterLabels.includes(text));
+        regions.push({
+          kind: 'filters',
+          text: label,
+          controls: filters.map(filter => ({ type: 'button', label: filter.label, action: 'filter', filter: filter.name }))
+        });
+        continue;
+      }
+
+      const texts = this.texts(region);
+      const buttons = this.nodes(region, 'button');
+      const clear: UiControl[] = actions.clear
+        ? buttons.filter(button => this.actionFor(button.label ?? '') === 'clear').map(button => ({ type: 'button', label: button.label, action: 'clear' }))
+        : [];
+
+      const counter = texts.find(text => /\d/.test(text));
+      if (counter) {
+        regions.push({
+          kind: 'counter',
+          text: counter.replace(/\d+/, '{count}'),
+          count: doneField && REMAINING_COUNT.test(counter) ? 'remaining' : 'all',
+          controls: clear
+        });
+        continue;
+      }
+
+      const add = buttons.find(button => this.actionFor(button.label ?? '') === 'add');
+      if (add && actions.add) {
+        regions.push({
+          kind: 'header',
+          text: texts[0],
+          controls: [{ type: 'input', field: textField }, { type: 'button', label: add.label, action: 'add' }]
+        });
+        continue;
+      }
+
+      if (texts.length > 0 || clear.length > 0) {
+        regions.push({ kind: 'text', text: texts.join(' ') || undefined, controls: clear });
+      }
+    }
+
+    // Make sure every supported action has somewhere to happen
+    if (actions.add && !regions.some(region => region.kind === 'header')) {
+      regions.unshift({ kind: 'header', controls: addControls });
+    }
+    if (filters.length > 0 && !regions.some(region => region.kind === 'filters')) {
+      const at = regions.findIndex(region => region.kind === 'list');
+      const region: UiRegion = {
+        kind: 'filters',
+        controls: filters.map(filter => ({ type: 'button', label: filter.label, action: 'filter', filter: filter.name }))
+      };
+      regions.splice(at === -1 ? regions.length : at, 0, region);
+    }
+    if (!regions.some(region => region.kind === 'list')) {
+      regions.push({ kind: 'list', controls: itemControls() });
+    }
+    if (!wireframe && doneField) {
+      regions.push({ kind: 'counter', text: '{count} items left', count: 'remaining', controls: [] });
+    }
+    if (actions.clear && doneField && !regions.some(region => region.controls.some(control => control.action === 'clear'))) {
+      const last = regions[regions.length - 1];
+      const button: UiControl = { type: 'button', label: 'Clear completed', action: 'clear' };
+      if (last.kind === 'counter' || last.kind === 'text') {
+        last.controls.push(button);
+      } else {
+        regions.push({ kind: 'text', controls: [button] });
+      }
+    }
+
+    return regions;
+  }
+
+  /**
+   * Turn an element of a wireframe list row into a control for each item
+   */
+  private itemControl(
+    node: WireframeNode,
+    actions: WebAppPlan['actions'],
+    textField: string | undefined,
+    doneField: string | undefined
+  ): UiControl[] {
+    switch (node.type) {
+      case 'checkbox':
+        return doneField ? [{ type: 'checkbox', action: 'toggle', field: doneField }] : [];
+      case 'text':
+        return [{ type: 'text', field: textField, ...(actions.edit ? { action: 'edit' as const } : {}) }];
+      case 'button': {
+        const action = this.actionFor(node.label ?? '');
+        return action && action !== 'add' ? [{ type: 'button', label: node.label, action }] : [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Labels of a region's buttons when they look like filters: several
+   * buttons, or a "Filter" or "Show" label next to them
+   */
+  private filterLabels(region: WireframeNode): string[] {
+    const buttons = this.nodes(region, 'button').map(button => button.label ?? '').filter(Boolean);
+    const labelled = this.texts(region).some(text => /\b(filters?|show)\b/i.test(text));
+    const looksLikeFilters = buttons.some(label => ALL_FILTER.test(label) || REMAINING_FILTER.test(label) || DONE_FIELDS.test(label));
+    return buttons.length >= 2 && (labelled || looksLikeFilters) ? buttons : [];
+  }
+
+  /**
+   * The boxes of a wireframe, from top to bottom
+   */
+  private regions(root: WireframeNode): WireframeNode[] {
+    const regions = root.children.filter(child => child.type === 'region');
+    return regions.length > 0 ? regions : [root];
+  }
+
+  private find(node: WireframeNode, type: WireframeNode['type']): WireframeNode | undefined {
+    return this.nodes(node, type)[0];
+  }
+
+  private nodes(node: WireframeNode, type: WireframeNode['type']): WireframeNode[] {
+    return [
+      ...(node.type === type ? [node] : []),
+      ...node.children.flatMap(child => this.nodes(child, type))
+    ];
+  }
+
+  private texts(node: WireframeNode): string[] {
+    return this.nodes(node, 'text').map(text => text.label ?? '').filter(Boolean);
+  }
+
+  /**
+   * localStorage keys for each entity, when the README asks for browser
+   * storage. A key written in the README, as in
+   * `localStorage.setItem('todos', ...)`, is used for the main entity.
+   */
+  private storageKeys(parsed: ParsedReadme, entity: EntitySchema | undefined, slug: string): Record<string, string> {
+    const mentionsStorage = /\blocal ?storage\b|\bbrowser storage\b/i;
+    const wanted = parsed.features.some(feature => mentionsStorage.test(feature.text)) ||
+      parsed.codeBlocks.some(block => /\blocalStorage\b/.test(block.content)) ||
+      this.allSections(parsed.sections).some(section => /storage|persist/i.test(section.title) && mentionsStorage.test(section.content));
+    if (!wanted) {
+      return {};
+    }
+
+    const written = parsed.codeBlocks
+      .map(block => /localStorage\.(?:setItem|getItem)\(\s*['"`]([^'"`]+)['"`]/.exec(block.content)?.[1])
+      .find(Boolean);
+
+    const keys: Record<string, string> = {};
+    for (const each of parsed.entities) {
+      keys[each.name] = each === entity && written
+        ? written
+        : `${slug}-${each.name.toLowerCase()}`;
+    }
+    return keys;
+  }
+
+  private allSections(sections: ReadmeSection[]): ReadmeSection[] {
+    return sections.flatMap(section => [section, ...this.allSections(section.subsections)]);
+  }
+}
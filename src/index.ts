@@ -7,8 +7,18 @@ import {
   ListToolsRequestSchema,
   McpError
 } from '@modelcontextprotocol/sdk/types.js';
-import { ReadmeParser } from './parser/index.js';
+import { ReadmeParser, ValidationReporter } from './parser/index.js';
+import { CURRENT_SPEC_VERSION } from './parser/schemas.js';
+import { REPORT_FORMATS } from './parser/reporter.js';
 import { CodeGenerator } from './generator/index.js';
+import {
+  AppType,
+  ClassificationCandidate,
+  FixResult,
+  ParsedReadme,
+  QualityReport,
+  ValidationDiagnostic
+} from './types/index.js';
 import fs from 'fs-extra';
 import path from 'path';
 
@@ -22,6 +32,7 @@ class TinsServer {
   private server: Server;
   private parser: ReadmeParser;
   private generator: CodeGenerator;
+  private reporter: ValidationReporter;
 
   constructor() {
     this.server = new Server(
@@ -38,6 +49,7 @@ class TinsServer {
 
     this.parser = new ReadmeParser();
     this.generator = new CodeGenerator();
+    this.reporter = new ValidationReporter();
 
     this.setupToolHandlers();
     
@@ -77,8 +89,18 @@ class TinsServer {
               },
               preferred_language: {
                 type: 'string',
-                enum: ['javascript', 'typescript', 'python', 'java'],
+                enum: ['javascript', 'typescript', 'python', 'go'],
                 description: 'Preferred programming language (if applicable)'
+              },
+              template_dir: {
+                type: 'string',
+                description: 'Directory of templates that override or extend the built-in ones'
+              },
+              min_quality: {
+                type: 'number',
+                minimum: 0,
+                maximum: 100,
+                description: 'Refuse to generate when the README quality score (see score_readme) is below this'
               }
             },
             required: ['readme_path']
@@ -93,6 +115,60 @@ class TinsServer {
               readme_path: {
                 type: 'string',
                 description: 'Path to the README.md file to validate'
+              },
+              fix: {
+                type: 'boolean',
+                description: 'Fix structural problems and return the changes as a unified diff'
+              },
+              write: {
+                type: 'boolean',
+                description: 'With fix, write the corrected README back to disk'
+              },
+              format: {
+                type: 'string',
+                enum: REPORT_FORMATS,
+                description: 'Report format: text (default), json, sarif (SARIF 2.1.0) or junit (JUnit XML). Fix mode always reports text'
+              }
+            },
+            required: ['readme_path']
+          }
+        },
+        {
+          name: 'score_readme',
+          description: 'Score how completely a README.md file specifies the application and suggest improvements',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              readme_path: {
+                type: 'string',
+                description: 'Path to the README.md file to score'
+              },
+              format: {
+                type: 'string',
+                enum: ['text', 'json'],
+                description: 'Report format: text (default) or json'
+              }
+            },
+            required: ['readme_path']
+          }
+        },
+        {
+          name: 'migrate_readme',
+          description: 'Upgrade a README.md file to a newer version of the Zero Source specification',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              readme_path: {
+                type: 'string',
+                description: 'Path to the README.md file to migrate'
+              },
+              target_version: {
+                type: 'string',
+                description: `Spec version to migrate to (defaults to ${CURRENT_SPEC_VERSION})`
+              },
+              write: {
+                type: 'boolean',
+                description: 'Write the migrated README back to disk'
               }
             },
             required: ['readme_path']
@@ -107,6 +183,10 @@ class TinsServer {
         return this.handleGenerateFromReadme(request.params.arguments);
       } else if (request.params.name === 'validate_readme') {
         return this.handleValidateReadme(request.params.arguments);
+      } else if (request.params.name === 'score_readme') {
+        return this.handleScoreReadme(request.params.arguments);
+      } else if (request.params.name === 'migrate_readme') {
+        return this.handleMigrateReadme(request.params.arguments);
       } else {
         throw new McpError(
           ErrorCode.MethodNotFound,
@@ -150,11 +230,29 @@ class TinsServer {
       // Parse the README
       const parsed = await this.parser.parseFile(args.readme_path);
 
+      // Hold back generation from specs too thin to build from
+      if (typeof args.min_quality === 'number') {
+        const quality = this.parser.score(parsed);
+        if (quality.score < args.min_quality) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `README quality ${quality.score} is below the required ${args.min_quality}; nothing was generated.\n\n` +
+                      this.formatQualityReport(quality)
+              }
+            ],
+            isError: true
+          };
+        }
+      }
+
       // Set up generator options
       const outputDir = args.output_dir || path.join(process.cwd(), 'generated_app');
       const options = {
         outputFormat: args.output_type || 'files',
         preferredLanguage: args.preferred_language || undefined,
+        templateDir: args.template_dir || undefined,
         includeComments: true
       };
 
@@ -167,7 +265,10 @@ class TinsServer {
           {
             type: 'text',
             text: `Successfully generated application code for "${parsed.title}"\n\n` +
+                  this.formatClassificationNote(parsed) +
+                  this.formatExtractionWarnings(parsed) +
                   `Type: ${result.appType}\n` +
+                  (result.language ? `Language: ${result.language}\n` : '') +
                   `Files: ${result.files.length}\n` +
                   `Output: ${result.outputPath || 'In-memory only'}\n\n` +
                   `To run the application:\n${result.commandToRun || 'No run command available'}`
@@ -219,8 +320,43 @@ class TinsServer {
         };
       }
 
+      const format = args.format ?? 'text';
+      if (!REPORT_FORMATS.includes(format)) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: format must be one of ${REPORT_FORMATS.join(', ')}`
+            }
+          ],
+          isError: true
+        };
+      }
+
+      if (args.fix) {
+        return await this.handleFixReadme(args.readme_path, args.write === true);
+      }
+
       // Validate the README
       const result = await this.parser.validateFile(args.readme_path);
+      if (format !== 'text') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: this.reporter.format(result, format, args.readme_path, this.parser.getRules())
+            }
+          ],
+          isError: !result.valid
+        };
+      }
+
+      const errors = result.diagnostics.filter(d => d.severity === 'error');
+      const warnings = result.diagnostics.filter(d => d.severity === 'warning');
+      const infos = result.diagnostics.filter(d => d.severity === 'info');
+      const infoText = infos.length > 0
+        ? `\n\nInfo:\n${infos.map(i => this.formatDiagnostic(i)).join('\n')}`
+        : '';
 
       // Build response
       if (result.valid) {
@@ -229,9 +365,10 @@ class TinsServer {
             {
               type: 'text',
               text: `README validation successful!\n\n` +
-                    (result.warnings.length > 0 
-                      ? `Warnings:\n${result.warnings.map(w => `- ${w}`).join('\n')}`
-                      : 'No warnings.')
+                    (warnings.length > 0 
+                      ? `Warnings:\n${warnings.map(w => this.formatDiagnostic(w)).join('\n')}`
+                      : 'No warnings.') +
+                    infoText
             }
           ],
           isError: false
@@ -242,10 +379,11 @@ class TinsServer {
             {
               type: 'text',
               text: `README validation failed!\n\n` +
-                    `Errors:\n${result.errors.map(e => `- ${e}`).join('\n')}\n\n` +
-                    (result.warnings.length > 0 
-                      ? `Warnings:\n${result.warnings.map(w => `- ${w}`).join('\n')}`
-                      : '')
+                    `Errors:\n${errors.map(e => this.formatDiagnostic(e)).join('\n')}\n\n` +
+                    (warnings.length > 0 
+                      ? `Warnings:\n${warnings.map(w => this.formatDiagnostic(w)).join('\n')}`
+                      : '') +
+                    infoText
             }
           ],
           isError: true
@@ -264,6 +402,233 @@ class TinsServer {
     }
   }
 
+  /**
+   * Fix a README for the validate_readme tool, reporting the changes as a
+   * unified diff and the problems that remain
+   */
+  private async handleFixReadme(readmePath: string, write: boolean) {
+    const result = await this.parser.fixFile(readmePath, { write });
+    return this.formatRewrite(result, result.written ? `Fixed ${readmePath}` : `Proposed fixes for ${readmePath}`);
+  }
+
+  /**
+   * Handle the score_readme tool request
+   */
+  private async handleScoreReadme(args: any) {
+    try {
+      // Check required arguments
+      if (!args.readme_path) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Error: readme_path is required'
+            }
+          ],
+          isError: true
+        };
+      }
+
+      // Validate file exists
+      if (!await fs.pathExists(args.readme_path)) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: File not found at ${args.readme_path}`
+            }
+          ],
+          isError: true
+        };
+      }
+
+      const report = await this.parser.scoreFile(args.readme_path);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: args.format === 'json'
+              ? JSON.stringify(report, null, 2)
+              : this.formatQualityReport(report)
+          }
+        ],
+        isError: false
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error scoring README: ${error instanceof Error ? error.message : 'Unknown error'}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Handle the migrate_readme tool request
+   */
+  private async handleMigrateReadme(args: any) {
+    try {
+      // Check required arguments
+      if (!args.readme_path) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Error: readme_path is required'
+            }
+          ],
+          isError: true
+        };
+      }
+
+      // Validate file exists
+      if (!await fs.pathExists(args.readme_path)) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: File not found at ${args.readme_path}`
+            }
+          ],
+          isError: true
+        };
+      }
+
+      const result = await this.parser.migrateFile(args.readme_path, {
+        targetVersion: args.target_version,
+        write: args.write === true
+      });
+      if (result.fromVersion === result.toVersion) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${args.readme_path} already targets spec ${result.toVersion}.`
+            }
+          ],
+          isError: false
+        };
+      }
+
+      const versions = `from spec ${result.fromVersion} to ${result.toVersion}`;
+      return this.formatRewrite(result, result.written
+        ? `Migrated ${args.readme_path} ${versions}`
+        : `Proposed migration of ${args.readme_path} ${versions}`);
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error migrating README: ${error instanceof Error ? error.message : 'Unknown error'}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Report a fixed or migrated README: the changes, the unified diff, whether
+   * it was written, and the problems that remain
+   */
+  private formatRewrite(result: FixResult, heading: string) {
+    const errors = result.validation.diagnostics.filter(d => d.severity === 'error');
+    const warnings = result.validation.diagnostics.filter(d => d.severity === 'warning');
+
+    if (result.diff === '') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No changes needed.\n\n` +
+                  (errors.length > 0 ? `Errors:\n${errors.map(e => this.formatDiagnostic(e)).join('\n')}\n\n` : '') +
+                  (warnings.length > 0 ? `Warnings:\n${warnings.map(w => this.formatDiagnostic(w)).join('\n')}` : 'No warnings.')
+          }
+        ],
+        isError: !result.validation.valid
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${heading}:\n` +
+                `${result.changes.map(c => `- ${c}`).join('\n')}\n\n` +
+                `\`\`\`diff\n${result.diff}\`\`\`\n\n` +
+                (result.written ? '' : 'Nothing was written. Pass write: true to apply these changes.\n\n') +
+                (errors.length > 0 ? `Remaining errors:\n${errors.map(e => this.formatDiagnostic(e)).join('\n')}\n\n` : '') +
+                (warnings.length > 0 ? `Remaining warnings:\n${warnings.map(w => this.formatDiagnostic(w)).join('\n')}` : 'No remaining warnings.')
+        }
+      ],
+      isError: !result.validation.valid
+    };
+  }
+
+  /**
+   * Explain an uncertain app type detection, naming the runner-up so the
+   * author can pin the platform with a ZS:PLATFORM tag
+   */
+  private formatClassificationNote(parsed: ParsedReadme): string {
+    const classification = parsed.classification;
+    if (!classification || !classification.uncertain) {
+      return '';
+    }
+
+    const [leader, runnerUp] = classification.appTypes;
+    const describe = (candidate: ClassificationCandidate<AppType>) =>
+      `${candidate.value} (${Math.round(candidate.confidence * 100)}%: ${candidate.evidence.slice(0, 3).join(', ')})`;
+
+    return `Note: the application type is uncertain.\n` +
+           `Chosen: ${describe(leader)}\n` +
+           (runnerUp ? `Runner-up: ${describe(runnerUp)}\n` : '') +
+           `Add a <!-- ZS:PLATFORM:... --> tag to the README to choose explicitly.\n\n`;
+  }
+
+  /**
+   * List warnings noticed while extracting the README, such as Style Guide
+   * statements that were ignored
+   */
+  private formatExtractionWarnings(parsed: ParsedReadme): string {
+    const warnings = parsed.diagnostics.filter(d => d.severity === 'warning');
+    if (warnings.length === 0) {
+      return '';
+    }
+
+    return `Warnings:\n${warnings.map(w => this.formatDiagnostic(w)).join('\n')}\n\n`;
+  }
+
+  /**
+   * Format a quality report: the overall score, a line per area and
+   * suggestions for the weakest areas
+   */
+  private formatQualityReport(report: QualityReport): string {
+    const width = Math.max(...report.areas.map(area => area.title.length));
+    const areas = report.areas.map(area =>
+      `- ${area.title.padEnd(width)} ${String(area.score).padStart(3)}  ${area.findings.join('; ')}`);
+    const weakest = report.weakest.map((area, i) =>
+      `${i + 1}. ${area.title} (${area.score})\n${area.suggestions.map(s => `   - ${s}`).join('\n')}`);
+
+    return `README quality: ${report.score}/100 (${report.grade})\n\n` +
+           `Areas:\n${areas.join('\n')}\n\n` +
+           (weakest.length > 0 ? `Weakest areas:\n${weakest.join('\n')}` : 'Every area is fully specified.');
+  }
+
+  /**
+   * Format a validation diagnostic as a bullet with its location and rule id
+   */
+  private formatDiagnostic(diagnostic: ValidationDiagnostic): string {
+    const range = diagnostic.range;
+    const location = range
+      ? `${range.file ? `${range.file}:` : ''}${range.start.line}:${range.start.column} `
+      : '';
+    return `- ${location}[${diagnostic.ruleId}] ${diagnostic.message}`;
+  }
+
   /**
    * Start the MCP server
    */
@@ -0,0 +1,137 @@
+import {
+  AccessibilityRule,
+  AccessibilityRuleKind,
+  ReadmeList,
+  ReadmeSection,
+  SourceRange,
+  ValidationDiagnostic
+} from '../types/index.js';
+
+/**
+ * Section titles that hold accessibility requirements
+ */
+const ACCESSIBILITY_TITLE = /\b(accessibility|a11y)\b/i;
+
+/**
+ * Patterns that map a requirement statement to the rules it asks for
+ */
+const RULE_PATTERNS: [AccessibilityRuleKind, RegExp][] = [
+  ['focus-management', /\bfocus(ed|able)?\b/],
+  ['semantic-html', /\bsemantic\b|\blandmarks?\b/],
+  ['aria', /\baria\b|\bscreen[-\s]?readers?\b/],
+  ['keyboard-navigation', /\bkeyboard\b|\btab\s+(key|order)\b/],
+  ['contrast', /\bcontrast\b|\bwcag\b/],
+  ['labels', /\blabel(s|led|ling)?\b|\bform\s+(fields?|controls?|inputs?)\b/],
+  ['alt-text', /\balt\b|\balternative\s+text\b|\btext\s+alternatives?\b/],
+  ['reduced-motion', /\breduced?\s+motion\b|\bmotion\s+sensitiv/]
+];
+
+/**
+ * WCAG minimum contrast ratios for normal text
+ */
+const WCAG_CONTRAST = { AA: 4.5, AAA: 7 };
+
+/**
+ * A single requirement statement with the place it was written
+ */
+interface RequirementStatement {
+  text: string;
+  range: SourceRange;
+}
+
+/**
+ * Parses Accessibility sections into structured rules that the generators
+ * enforce. Statements that match no known rule are reported so authors can
+ * see which requirements are not enforced.
+ */
+export class AccessibilityParser {
+  /**
+   * Parse every Accessibility section of a README
+   * @param sections Top-level sections of the parsed README
+   * @returns The rules and a warning for each unrecognized requirement
+   */
+  public parse(sections: ReadmeSection[]): {
+    rules: AccessibilityRule[];
+    diagnostics: ValidationDiagnostic[];
+  } {
+    const rules: AccessibilityRule[] = [];
+    const diagnostics: ValidationDiagnostic[] = [];
+
+    for (const section of this.findAccessibilitySections(sections)) {
+      for (const item of this.collectItems(section)) {
+        const matched = this.parseStatement(item.text, item.range);
+        if (matched.length === 0) {
+          diagnostics.push({
+            ruleId: 'unrecognized-accessibility',
+            severity: 'warning',
+            message: `Accessibility requirement was not recognized and is not enforced: ${item.text}`,
+            range: item.range
+          });
+        }
+        rules.push(...matched);
+      }
+    }
+
+    return { rules, diagnostics };
+  }
+
+  /**
+   * Find Accessibility sections, including nested ones
+   */
+  private findAccessibilitySections(sections: ReadmeSection[]): ReadmeSection[] {
+    return sections.flatMap(section =>
+      ACCESSIBILITY_TITLE.test(section.title)
+        ? [section]
+        : this.findAccessibilitySections(section.subsections)
+    );
+  }
+
+  /**
+   * Collect list items, including nested ones, from a section tree
+   */
+  private collectItems(section: ReadmeSection): RequirementStatement[] {
+    const items: RequirementStatement[] = [];
+    const visit = (list: ReadmeList) => {
+      for (const item of list.items) {
+        items.push({ text: item.text.trim(), range: item.range });
+        item.children.forEach(visit);
+      }
+    };
+
+    section.lists.forEach(visit);
+    section.subsections.forEach(sub => items.push(...this.collectItems(sub)));
+    return items;
+  }
+
+  /**
+   * Build one rule for each kind of requirement a statement mentions
+   */
+  private parseStatement(text: string, range: SourceRange): AccessibilityRule[] {
+    const lower = text.replace(/[`*_]/g, '').toLowerCase();
+    const rules: AccessibilityRule[] = [];
+
+    for (const [kind, pattern] of RULE_PATTERNS) {
+      if (!pattern.test(lower)) continue;
+
+      const rule: AccessibilityRule = { kind, text, range };
+      if (kind === 'contrast') {
+        rule.minContrast = this.minContrast(lower);
+      }
+      rules.push(rule);
+    }
+
+    return rules;
+  }
+
+  /**
+   * Read the required contrast ratio from a statement, e.g. "at least 7:1" or
+   * "WCAG AAA". Defaults to WCAG AA for normal text.
+   */
+  private minContrast(statement: string): number {
+    const ratio = statement.match(/(\d+(?:\.\d+)?)\s*:\s*1\b/);
+    if (ratio) {
+      return parseFloat(ratio[1]);
+    }
+    return /\baaa\b/.test(statement) ? WCAG_CONTRAST.AAA : WCAG_CONTRAST.AA;
+  }
+}
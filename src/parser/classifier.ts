@@ -0,0 +1,400 @@
+import {
+  ParsedReadme,
+  ReadmeSection,
+  AppType,
+  ProgrammingLanguage,
+  Classification,
+  ClassificationCandidate
+} from '../types/index.js';
+
+/**
+ * A signal that adds weight to one candidate when it matches
+ */
+interface Signal<T> {
+  value: T;
+  pattern: RegExp;
+  weight: number;
+}
+
+/**
+ * Weight of an explicit ZS:PLATFORM or ZS:LANGUAGE tag
+ */
+const METADATA_WEIGHT = 10;
+
+/**
+ * Maximum number of times a single keyword is counted
+ */
+const KEYWORD_CAP = 3;
+
+/**
+ * The leading candidate must have at least this confidence to be trusted
+ */
+const MIN_CONFIDENCE = 0.5;
+
+/**
+ * The runner-up must score below this fraction of the leader to be ignored
+ */
+const MAX_RUNNER_UP_RATIO = 0.75;
+
+const PLATFORMS: Record<string, AppType> = {
+  WEB: AppType.WEB_APP,
+  MOBILE: AppType.MOBILE_APP,
+  CLI: AppType.CLI_APP,
+  DESKTOP: AppType.DESKTOP_APP,
+  API: AppType.API_SERVER
+};
+
+const LANGUAGE_NAMES: Record<string, ProgrammingLanguage> = {
+  javascript: ProgrammingLanguage.JAVASCRIPT,
+  js: ProgrammingLanguage.JAVASCRIPT,
+  typescript: ProgrammingLanguage.TYPESCRIPT,
+  ts: ProgrammingLanguage.TYPESCRIPT,
+  python: ProgrammingLanguage.PYTHON,
+  py: ProgrammingLanguage.PYTHON,
+  java: ProgrammingLanguage.JAVA,
+  csharp: ProgrammingLanguage.CSHARP,
+  'c#': ProgrammingLanguage.CSHARP,
+  go: ProgrammingLanguage.GO,
+  golang: ProgrammingLanguage.GO
+};
+
+const HEADING_SIGNALS: Signal<AppType>[] = [
+  { value: AppType.CLI_APP, pattern: /\b(commands?|usage|cli|options|flags|arguments)\b/i, weight: 3 },
+  { value: AppType.API_SERVER, pattern: /\b(endpoints?|api|routes?|requests?|responses?)\b/i, weight: 3 },
+  { value: AppType.WEB_APP, pattern: /\b(user interface|ui|pages?|style guide|accessibility)\b/i, weight: 2 },
+  { value: AppType.MOBILE_APP, pattern: /\b(screens?|mobile|navigation)\b/i, weight: 2 },
+  { value: AppType.DESKTOP_APP, pattern: /\b(windows?|menus?|desktop|tray)\b/i, weight: 2 }
+];
+
+const KEYWORD_SIGNALS: Signal<AppType>[] = [
+  { value: AppType.WEB_APP, pattern: /\bweb ?(app|application|site|page)s?\b/gi, weight: 2 },
+  { value: AppType.WEB_APP, pattern: /\b(browser|website|frontend|front-end|single-page|html|css|localstorage|dom)\b/gi, weight: 1 },
+  { value: AppType.MOBILE_APP, pattern: /\b(mobile|ios|android|react native|flutter|smartphone|app store|play store)\b/gi, weight: 2 },
+  { value: AppType.CLI_APP, pattern: /\b(command[- ]line|cli|terminal|subcommands?|stdout|stdin|stderr|exit codes?)\b/gi, weight: 2 },
+  { value: AppType.CLI_APP, pattern: /(^|\s)--[a-z][\w-]*/gi, weight: 1 },
+  { value: AppType.DESKTOP_APP, pattern: /\b(desktop|electron|tauri|gui|system tray|menu bar|native window)\b/gi, weight: 2 },
+  { value: AppType.API_SERVER, pattern: /\b(rest(ful)?|endpoints?|http server|backend|back-end|graphql|status codes?)\b/gi, weight: 2 },
+  { value: AppType.API_SERVER, pattern: /\bapi\b/gi, weight: 1 },
+  { value: AppType.API_SERVER, pattern: /\b(GET|POST|PUT|PATCH|DELETE) \/[\w/:{}-]*/g, weight: 2 }
+];
+
+const TABLE_HEADER_SIGNALS: Signal<AppType>[] = [
+  { value: AppType.CLI_APP, pattern: /^(commands?|flags?|options?|arguments?)$/i, weight: 3 },
+  { value: AppType.API_SERVER, pattern: /^(endpoints?|methods?|routes?|status codes?)$/i, weight: 3 }
+];
+
+const CODE_LANGUAGE_SIGNALS: Signal<AppType>[] = [
+  { value: AppType.WEB_APP, pattern: /^(html|css|scss|jsx|tsx|vue|svelte)$/, weight: 2 },
+  { value: AppType.CLI_APP, pattern: /^(console|shell-session)$/, weight: 2 },
+  { value: AppType.API_SERVER, pattern: /^(http|rest|graphql)$/, weight: 3 },
+  { value: AppType.MOBILE_APP, pattern: /^(swift|kotlin|dart|objective-c)$/, weight: 3 }
+];
+
+const CODE_CONTENT_SIGNALS: Signal<AppType>[] = [
+  { value: AppType.WEB_APP, pattern: /\b(localStorage|sessionStorage|document\.|window\.)/, weight: 2 },
+  { value: AppType.CLI_APP, pattern: /(process\.argv|argparse|flag\.(String|Bool|Int)|commander|yargs|^\$ \S+ \S+)/m, weight: 2 },
+  { value: AppType.API_SERVER, pattern: /(app\.(get|post|put|delete)\(|http\.createServer|@app\.route|router\.(get|post)|http\.HandleFunc)/, weight: 2 },
+  { value: AppType.DESKTOP_APP, pattern: /\b(BrowserWindow|ipcMain|ipcRenderer)\b/, weight: 3 }
+];
+
+const FRAMEWORK_SIGNALS: Signal<AppType>[] = [
+  { value: AppType.WEB_APP, pattern: /^(react|vue|angular|svelte|solid|preact|next|nuxt)/i, weight: 4 },
+  { value: AppType.API_SERVER, pattern: /^(express|fastify|koa|hapi|nest|flask|django|fastapi|gin|echo|spring)/i, weight: 4 },
+  { value: AppType.DESKTOP_APP, pattern: /^(electron|tauri|qt|wpf|winforms)/i, weight: 4 },
+  { value: AppType.MOBILE_APP, pattern: /^(react-native|flutter|swiftui|ionic|expo)/i, weight: 4 },
+  { value: AppType.CLI_APP, pattern: /^(commander|yargs|oclif|click|typer|cobra)/i, weight: 4 }
+];
+
+const LANGUAGE_KEYWORD_SIGNALS: Signal<ProgrammingLanguage>[] = [
+  { value: ProgrammingLanguage.TYPESCRIPT, pattern: /\btypescript\b/gi, weight: 2 },
+  { value: ProgrammingLanguage.JAVASCRIPT, pattern: /\b(javascript|node\.?js|npm)\b/gi, weight: 2 },
+  { value: ProgrammingLanguage.PYTHON, pattern: /\b(python|pip|pypi|django|flask|fastapi)\b/gi, weight: 2 },
+  { value: ProgrammingLanguage.JAVA, pattern: /\b(java|maven|gradle|spring)\b/gi, weight: 2 },
+  { value: ProgrammingLanguage.CSHARP, pattern: /(\bc#|\bcsharp\b|\.net\b|\basp\.net\b)/gi, weight: 2 },
+  { value: ProgrammingLanguage.GO, pattern: /\b(golang|go module|go run)\b/gi, weight: 2 },
+  { value: ProgrammingLanguage.HTML, pattern: /\bhtml\b/gi, weight: 1 },
+  { value: ProgrammingLanguage.CSS, pattern: /\bcss\b/gi, weight: 1 }
+];
+
+const CODE_BLOCK_LANGUAGES: Record<string, ProgrammingLanguage> = {
+  javascript: ProgrammingLanguage.JAVASCRIPT,
+  js: ProgrammingLanguage.JAVASCRIPT,
+  jsx: ProgrammingLanguage.JAVASCRIPT,
+  mjs: ProgrammingLanguage.JAVASCRIPT,
+  node: ProgrammingLanguage.JAVASCRIPT,
+  typescript: ProgrammingLanguage.TYPESCRIPT,
+  ts: ProgrammingLanguage.TYPESCRIPT,
+  tsx: ProgrammingLanguage.TYPESCRIPT,
+  python: ProgrammingLanguage.PYTHON,
+  py: ProgrammingLanguage.PYTHON,
+  java: ProgrammingLanguage.JAVA,
+  csharp: ProgrammingLanguage.CSHARP,
+  cs: ProgrammingLanguage.CSHARP,
+  'c#': ProgrammingLanguage.CSHARP,
+  go: ProgrammingLanguage.GO,
+  golang: ProgrammingLanguage.GO,
+  html: ProgrammingLanguage.HTML,
+  css: ProgrammingLanguage.CSS,
+  scss: ProgrammingLanguage.CSS
+};
+
+/**
+ * Languages that describe markup and styling rather than the application code
+ */
+const MARKUP_LANGUAGES = [ProgrammingLanguage.HTML, ProgrammingLanguage.CSS];
+
+/**
+ * Scores the application type and programming languages of a parsed README.
+ * Headings, metadata, code blocks and keywords each add weighted evidence to
+ * a candidate; confidences are each candidate's share of the total score.
+ * A ZS:PLATFORM tag, when present, chooses the application type outright.
+ */
+export class ReadmeClassifier {
+  /**
+   * Classify a parsed README
+   * @param parsed The parsed README, with sections, code blocks and metadata
+   * @param options Set `ignoreMetadata` to classify from the content alone
+   * @returns Ranked app type and language candidates with their evidence
+   */
+  public classify(parsed: ParsedReadme, options: { ignoreMetadata?: boolean } = {}): Classification {
+    const appTypes = this.rank(this.scoreAppTypes(parsed, !options.ignoreMetadata));
+    const languages = this.rank(this.scoreLanguages(parsed, !options.ignoreMetadata));
+
+    // With no evidence at all, fall back to a web app
+    if (appTypes.length === 0) {
+      appTypes.push({ value: AppType.WEB_APP, score: 0, confidence: 0, evidence: ['default when nothing else matches'] });
+    }
+
+    // A declared platform decides the app type however the content scores;
+    // the platform-conflict check compares the two
+    const platform = options.ignoreMetadata ? undefined : this.appTypeOfPlatform(parsed.metadata.platform ?? '');
+    const declared = appTypes.findIndex(candidate => candidate.value === platform);
+    if (declared > 0) {
+      appTypes.unshift(...appTypes.splice(declared, 1));
+    }
+
+    const [leader, runnerUp] = appTypes;
+    const uncertain = declared === -1 && (leader.confidence < MIN_CONFIDENCE ||
+      (runnerUp !== undefined && runnerUp.score >= leader.score * MAX_RUNNER_UP_RATIO));
+
+    return { appTypes, languages, uncertain };
+  }
+
+  /**
+   * Pick the languages to generate: the leading programming language, plus
+   * HTML and CSS for applications with a rendered interface
+   * @param classification Result of classify
+   * @returns Languages in order of preference
+   */
+  public selectLanguages(classification: Classification): ProgrammingLanguage[] {
+    const appType = classification.appTypes[0].value;
+    const primary = classification.languages.find(c => !MARKUP_LANGUAGES.includes(c.value));
+    const languages = [primary ? primary.value : ProgrammingLanguage.JAVASCRIPT];
+
+    if (appType === AppType.WEB_APP || appType === AppType.DESKTOP_APP) {
+      languages.push(...MARKUP_LANGUAGES);
+    }
+    return languages;
+  }
+
+  /**
+   * Map a ZS:PLATFORM value to an application type
+   */
+  public appTypeOfPlatform(platform: string): AppType | undefined {
+    return PLATFORMS[platform.toUpperCase()];
+  }
+
+  /**
+   * Map an application type to its ZS:PLATFORM value
+   */
+  public platformOfAppType(appType: AppType): string | undefined {
+    return Object.keys(PLATFORMS).find(platform => PLATFORMS[platform] === appType);
+  }
+
+  /**
+   * Map a ZS:LANGUAGE value to a programming language
+   */
+  public languageOfName(name: string): ProgrammingLanguage | undefined {
+    return LANGUAGE_NAMES[name.toLowerCase()];
+  }
+
+  /**
+   * Map a code block's language to a programming language
+   */
+  public languageOfCodeBlock(language: string): ProgrammingLanguage | undefined {
+    return CODE_BLOCK_LANGUAGES[language];
+  }
+
+  /**
+   * Check whether a language describes markup or styling rather than code
+   */
+  public isMarkupLanguage(language: ProgrammingLanguage): boolean {
+    return MARKUP_LANGUAGES.includes(language);
+  }
+
+  /**
+   * Collect weighted evidence for each application type
+   */
+  private scoreAppTypes(
+    parsed: ParsedReadme,
+    useMetadata: boolean
+  ): Map<AppType, ClassificationCandidate<AppType>> {
+    const scores = new Map<AppType, ClassificationCandidate<AppType>>();
+
+    const platform = useMetadata ? parsed.metadata.platform : undefined;
+    if (platform && PLATFORMS[platform]) {
+      this.add(scores, PLATFORMS[platform], METADATA_WEIGHT, `metadata ZS:PLATFORM:${platform}`);
+    }
+
+    const framework = useMetadata ? parsed.metadata.framework : undefined;
+    if (framework) {
+      this.matchSignals(scores, FRAMEWORK_SIGNALS, framework, `framework "${framework}"`);
+    }
+
+    const sections = this.flattenSections(parsed.sections);
+    for (const section of sections) {
+      this.matchSignals(scores, HEADING_SIGNALS, section.title, `heading "${section.title}"`);
+      if (section.wireframes.length > 0) {
+        this.add(scores, AppType.WEB_APP, 2, `wireframe under "${section.title}"`);
+      }
+      for (const table of section.tables) {
+        const header = table.headers[0]?.trim() ?? '';
+        this.matchSignals(scores, TABLE_HEADER_SIGNALS, header, `"${header}" table under "${section.title}"`);
+      }
+    }
+
+    for (const block of parsed.codeBlocks) {
+      if (block.language) {
+        this.matchSignals(scores, CODE_LANGUAGE_SIGNALS, block.language, `\`${block.language}\` code block`);
+      }
+      for (const signal of CODE_CONTENT_SIGNALS) {
+        const match = block.content.match(signal.pattern);
+        if (match) {
+          this.add(scores, signal.value, signal.weight, `code uses "${match[0].trim()}"`);
+        }
+      }
+    }
+
+    this.matchKeywords(scores, KEYWORD_SIGNALS, this.prose(parsed, sections));
+    return scores;
+  }
+
+  /**
+   * Collect weighted evidence for each programming language
+   */
+  private scoreLanguages(
+    parsed: ParsedReadme,
+    useMetadata: boolean
+  ): Map<ProgrammingLanguage, ClassificationCandidate<ProgrammingLanguage>> {
+    const scores = new Map<ProgrammingLanguage, ClassificationCandidate<ProgrammingLanguage>>();
+
+    const language = useMetadata ? parsed.metadata.language : undefined;
+    if (language && LANGUAGE_NAMES[language.toLowerCase()]) {
+      this.add(scores, LANGUAGE_NAMES[language.toLowerCase()], METADATA_WEIGHT, `metadata ZS:LANGUAGE:${language}`);
+    }
+
+    // Each language's code blocks count, up to the keyword cap
+    const blockCounts = new Map<ProgrammingLanguage, number>();
+    for (const block of parsed.codeBlocks) {
+      const blockLanguage = CODE_BLOCK_LANGUAGES[block.language];
+      if (blockLanguage) {
+        blockCounts.set(blockLanguage, (blockCounts.get(blockLanguage) || 0) + 1);
+      }
+    }
+    for (const [blockLanguage, count] of blockCounts) {
+      const counted = Math.min(count, KEYWORD_CAP);
+      this.add(scores, blockLanguage, counted * 2, `${count} \`${blockLanguage}\` code block(s)`);
+    }
+
+    this.matchKeywords(scores, LANGUAGE_KEYWORD_SIGNALS, this.prose(parsed, this.flattenSections(parsed.sections)));
+    return scores;
+  }
+
+  /**
+   * Add the weight of every signal whose pattern matches a single value
+   */
+  private matchSignals<T>(
+    scores: Map<T, ClassificationCandidate<T>>,
+    signals: Signal<T>[],
+    text: string,
+    description: string
+  ): void {
+    for (const signal of signals) {
+      if (signal.pattern.test(text)) {
+        this.add(scores, signal.value, signal.weight, description);
+      }
+    }
+  }
+
+  /**
+   * Count keyword occurrences in prose, ignoring negated mentions such as
+   * "no web interface" or "not a CLI"
+   */
+  private matchKeywords<T>(
+    scores: Map<T, ClassificationCandidate<T>>,
+    signals: Signal<T>[],
+    text: string
+  ): void {
+    for (const signal of signals) {
+      const counts = new Map<string, number>();
+      for (const match of text.matchAll(signal.pattern)) {
+        const before = text.slice(Math.max(0, match.index! - 24), match.index);
+        if (/\b(no|not|without|non|instead of)\b[\w\s-]{0,12}$/i.test(before)) continue;
+
+        const keyword = match[0].trim().toLowerCase();
+        counts.set(keyword, (counts.get(keyword) || 0) + 1);
+      }
+
+      for (const [keyword, count] of counts) {
+        const counted = Math.min(count, KEYWORD_CAP);
+        this.add(scores, signal.value, counted * signal.weight,
+          `keyword "${keyword}"${count > 1 ? ` x${count}` : ''}`);
+      }
+    }
+  }
+
+  /**
+   * Add weight and a line of evidence to a candidate
+   */
+  private add<T>(
+    scores: Map<T, ClassificationCandidate<T>>,
+    value: T,
+    weight: number,
+    evidence: string
+  ): void {
+    const candidate = scores.get(value) || { value, score: 0, confidence: 0, evidence: [] };
+    candidate.score += weight;
+    candidate.evidence.push(`${evidence} (+${weight})`);
+    scores.set(value, candidate);
+  }
+
+  /**
+   * Sort candidates by score and compute their confidence as a share of the total
+   */
+  private rank<T>(scores: Map<T, ClassificationCandidate<T>>): ClassificationCandidate<T>[] {
+    const candidates = [...scores.values()].sort((a, b) => b.score - a.score);
+    const total = candidates.reduce((sum, c) => sum + c.score, 0);
+    for (const candidate of candidates) {
+      candidate.confidence = total > 0 ? Math.round((candidate.score / total) * 100) / 100 : 0;
+    }
+    return candidates;
+  }
+
+  /**
+   * Join the README prose, leaving out code blocks
+   */
+  private prose(parsed: ParsedReadme, sections: ReadmeSection[]): string {
+    return [
+      parsed.title,
+      parsed.description,
+      ...sections.map(s => s.content)
+    ].join('\n').replace(/(```|~~~)[\s\S]*?\1/g, '');
+  }
+
+  /**
+   * Flatten a section tree into a depth-first list of sections
+   */
+  private flattenSections(sections: ReadmeSection[]): ReadmeSection[] {
+    return sections.flatMap(s => [s, ...this.flattenSections(s.subsections)]);
+  }
+}
@@ -0,0 +1,598 @@
+import {
+  CliCommand,
+  CommandArgument,
+  CommandModel,
+  CommandOption,
+  ReadmeCodeBlock,
+  ReadmeListItem,
+  ReadmeSection,
+  ReadmeTable,
+  SourceRange
+} from '../types/index.js';
+
+/**
+ * Section titles that describe commands
+ */
+const COMMANDS_TITLE = /\b(commands?|subcommands?|usage|cli)\b/i;
+
+/**
+ * Section titles that list options
+ */
+const OPTIONS_TITLE = /\b(options|flags)\b/i;
+
+/**
+ * Subsection titles inside a Commands section that do not name a command
+ */
+const NON_COMMAND_TITLE = /^(examples?|arguments|exit codes?|notes?|overview|usage|(sub)?commands?|(global )?(options|flags))$/i;
+
+/**
+ * Code block languages that hold shell sessions or usage lines
+ */
+const SHELL_LANGUAGES = ['', 'sh', 'bash', 'shell', 'console', 'zsh', 'text', 'terminal'];
+
+/**
+ * Table headers, by what their column holds
+ */
+const COLUMNS = {
+  command: /^((sub)?commands?|name|usage)$/i,
+  arguments: /^(arguments?|args?|parameters?|params?)$/i,
+  options: /^(options?|flags?)$/i,
+  description: /^(description|what it does|purpose|summary|action|details?)$/i,
+  default: /^defaults?( value)?$/i
+};
+
+/**
+ * Tokens of a usage line: bracketed or angled placeholders, or plain words
+ */
+const USAGE_TOKEN = /\[[^\]]*\](\.\.\.)?|<[^>]*>(\.\.\.)?|"[^"]*"|'[^']*'|\S+/g;
+
+/**
+ * Placeholders that stand for other parts of the usage rather than arguments
+ */
+const GENERIC_PLACEHOLDER = /^(options?|flags?|(sub)?commands?|args|arguments)$/i;
+
+/**
+ * A default value mentioned in a description, e.g. "(default: 10)"
+ */
+const DEFAULT_IN_TEXT = /\s*\(?\bdefaults?(?:\s+to|\s+is|:)\s*`?([^`)]+?)`?\)?\.?\s*$/i;
+
+/**
+ * A default that says there is none, e.g. "none" or "n/a"
+ */
+const NO_DEFAULT = /^(none|-|—|n\/a)$/i;
+
+/**
+ * A usage line split into command words, arguments and options
+ */
+interface ParsedUsage {
+  program?: string;
+  words: string[];
+  arguments: CommandArgument[];
+  options: CommandOption[];
+  /** Whether the line uses placeholders, so it describes rather than runs a command */
+  placeholders: boolean;
+}
+
+/**
+ * Parses Commands and Usage sections into a model of the command-line
+ * interface: commands with their arguments and options, and options that
+ * apply to every command.
+ *
+ * Commands can be described by a table with a Command column, by one
+ * subsection per command, or by usage lines in code blocks such as
+ * `notes add <text> [--tag <tag>]`. Options come from Options tables and
+ * from bullets such as "`-t, --tag <name>`: Tag the note (default: none)".
+ * Shell examples anywhere in the README, like `$ notes list --json`, name
+ * the program and add the options they use to known commands.
+ */
+export class CommandParser {
+  /**
+   * Parse the commands a README describes
+   * @param sections Top-level sections of the parsed README
+   * @param codeBlocks Every code block in the README
+   * @returns The command model, empty when the README has no commands
+   */
+  public parse(sections: ReadmeSection[], codeBlocks: ReadmeCodeBlock[]): CommandModel {
+    const model: CommandModel = { commands: [], options: [] };
+
+    for (const section of this.findCommandSections(sections)) {
+      this.parseSection(section, model);
+    }
+
+    for (const block of codeBlocks) {
+      if (!SHELL_LANGUAGES.includes(block.language)) continue;
+      for (const line of block.content.split('\n')) {
+        if (/^\s*\$\s/.test(line)) {
+          this.applyExample(line, model);
+        }
+      }
+    }
+
+    return model;
+  }
+
+  /**
+   * Find Commands, Usage and Options sections, including nested ones
+   */
+  private findCommandSections(sections: ReadmeSection[]): ReadmeSection[] {
+    return sections.flatMap(section =>
+      COMMANDS_TITLE.test(section.title) || OPTIONS_TITLE.test(section.title)
+        ? [section]
+        : this.findCommandSections(section.subsections)
+    );
+  }
+
+  /**
+   * Parse a section's tables, usage lines, bullets and subsections
+   * @param command The command the section describes, if any; options go to
+   *        it rather than to the global options
+   */
+  private parseSection(section: ReadmeSection, model: CommandModel, command?: CliCommand): void {
+    for (const table of section.tables) {
+      this.parseTable(table, model, command);
+    }
+
+    for (const block of section.codeBlocks) {
+      if (!SHELL_LANGUAGES.includes(block.language)) continue;
+      for (const line of block.content.split('\n')) {
+        this.parseUsageLine(line, block.range, model, command);
+      }
+    }
+
+    for (const list of section.lists) {
+      for (const item of list.items) {
+        this.parseItem(item, model, command);
+      }
+    }
+
+    for (const subsection of section.subsections) {
+      const title = this.stripCode(subsection.title);
+      if (NON_COMMAND_TITLE.test(title) || OPTIONS_TITLE.test(title)) {
+        this.parseSection(subsection, model, command);
+        continue;
+      }
+
+      const usage = this.parseUsage(title);
+      if (usage.words.length === 0) {
+        this.parseSection(subsection, model, command);
+        continue;
+      }
+
+      const name = [...(command ? [command.name] : []), ...usage.words].join(' ');
+      const subcommand = this.addCommand(model, {
+        name,
+        description: this.firstParagraph(subsection.content),
+        arguments: usage.arguments,
+        options: usage.options,
+        range: subsection.range
+      });
+      this.parseSection(subsection, model, subcommand);
+    }
+  }
+
+  /**
+   * Read a table of commands, or of options when it has no Command column
+   */
+  private parseTable(table: ReadmeTable, model: CommandModel, command?: CliCommand): void {
+    const column = (kind: keyof typeof COLUMNS) => table.headers.findIndex(header => COLUMNS[kind].test(header.trim()));
+    const commandColumn = column('command');
+    const argumentsColumn = column('arguments');
+    const optionsColumn = column('options');
+    const descriptionColumn = column('description');
+    const defaultColumn = column('default');
+    const cell = (row: string[], index: number) => (index === -1 ? '' : (row[index] ?? '').trim());
+
+    if (commandColumn !== -1) {
+      for (const row of table.rows) {
+        const usage = this.parseUsage(this.stripCode(cell(row, commandColumn)), model.program);
+        if (usage.words.length === 0) continue;
+
+        const options = [...usage.options, ...this.parseOptionList(cell(row, optionsColumn))];
+        this.addCommand(model, {
+          name: usage.words.join(' '),
+          description: cell(row, descriptionColumn),
+          arguments: [...usage.arguments, ...this.parseArguments(cell(row, argumentsColumn))],
+          options,
+          range: table.range
+        });
+      }
+      return;
+    }
+
+    const specColumn = optionsColumn !== -1 ? optionsColumn : argumentsColumn;
+    if (specColumn === -1) return;
+
+    for (const row of table.rows) {
+      const spec = cell(row, specColumn);
+      const { text: description, value: mentioned } = this.splitDefault(cell(row, descriptionColumn));
+      const fallback = this.stripCode(cell(row, defaultColumn));
+
+      if (specColumn === optionsColumn) {
+        for (const option of this.parseOptionList(spec)) {
+          this.addOption(command ? command.options : model.options, {
+            ...option,
+            description: description || undefined,
+            default: fallback && !NO_DEFAULT.test(fallback) ? fallback : mentioned
+          });
+        }
+      } else if (command) {
+        for (const argument of this.parseArguments(spec)) {
+          this.addArgument(command, { ...argument, description: description || undefined });
+        }
+      }
+    }
+  }
+
+  /**
+   * Read a bullet describing an option, an argument or a command, e.g.
+   * "`--json`: Print JSON" or "`add <text>` - Add a note"
+   */
+  private parseItem(item: ReadmeListItem, model: CommandModel, command?: CliCommand): void {
+    const { spec, description } = this.splitItem(item.text);
+    if (!spec) return;
+
+    if (spec.startsWith('-')) {
+      const option = this.parseOption(spec);
+      if (option) {
+        const { text, value } = this.splitDefault(description);
+        this.addOption(command ? command.options : model.options, {
+          ...option,
+          description: text || undefined,
+          default: value
+        });
+      }
+      return;
+    }
+
+    const usage = this.parseUsage(spec, model.program);
+    if (command && usage.words.length === 0) {
+      for (const argument of usage.arguments) {
+        this.addArgument(command, { ...argument, description: description || undefined });
+      }
+    } else if (!command && usage.words.length > 0 && /^`/.test(item.text.trim())) {
+      this.addCommand(model, {
+        name: usage.words.join(' '),
+        description,
+        arguments: usage.arguments,
+        options: usage.options,
+        range: item.range
+      });
+    }
+  }
+
+  /**
+   * Read a line of a usage code block. Lines that use placeholders define
+   * commands; other lines are examples and only add options.
+   */
+  private parseUsageLine(line: string, range: SourceRange, model: CommandModel, command?: CliCommand): void {
+    const prompted = /^\s*\$\s/.test(line);
+    const text = line.replace(/^\s*\$\s+/, '').replace(/\s+#.*$/, '').trim();
+    if (!text || text.startsWith('#')) return;
+
+    const usage = this.parseUsage(text, model.program, true);
+    if (!usage.program || (!prompted && !usage.placeholders && usage.program !== model.program)) {
+      return;
+    }
+    if (!usage.placeholders) {
+      this.applyExample(line, model);
+      return;
+    }
+
+    model.program ??= usage.program;
+    const words = command
+      ? this.withoutPrefix(usage.words, command.name.split(' '))
+      : usage.words;
+    if (!words) return;
+
+    const target = command && words.length === 0
+      ? command
+      : words.length > 0
+        ? this.addCommand(model, {
+            name: [...(command ? [command.name] : []), ...words].join(' '),
+            description: '',
+            arguments: [],
+            options: [],
+            range
+          })
+        : undefined;
+
+    for (const argument of usage.arguments) {
+      if (target) this.addArgument(target, argument);
+    }
+    for (const option of usage.options) {
+      this.addOption(target ? target.options : model.options, option);
+    }
+  }
+
+  /**
+   * Learn from a shell example such as `$ notes add "milk" --tag shopping`:
+   * the program name, and options of the command it runs
+   */
+  private applyExample(line: string, model: CommandModel): void {
+    const usage = this.parseUsage(line.replace(/^\s*\$\s+/, '').replace(/\s+#.*$/, ''), model.program, true);
+    if (!usage.program || usage.placeholders) return;
+
+    const command = this.findCommand(model, usage.words);
+    if (!command || (model.program && usage.program !== model.program)) return;
+
+    model.program ??= usage.program;
+    for (const option of usage.options) {
+      // Examples show values, not what they stand for
+      if (!this.hasOption(model, command, option)) {
+        this.addOption(command.options, option.value ? { ...option, value: option.name } : option);
+      }
+    }
+  }
+
+  /**
+   * Split usage text into command words, arguments and options
+   * @param text e.g. `add <text> [tags...] [-t, --tag <name>]`
+   * @param program The program name, dropped from the start of the text
+   * @param withProgram Whether the text starts with the program name
+   */
+  private parseUsage(text: string, program?: string, withProgram: boolean = false): ParsedUsage {
+    const tokens = text.match(USAGE_TOKEN) ?? [];
+    const usage: ParsedUsage = { words: [], arguments: [], options: [], placeholders: false };
+
+    if (withProgram || (program && tokens[0] === program)) {
+      const first = tokens.shift();
+      if (!first || !/^[\w.@/-]+$/.test(first) || first.startsWith('-')) return usage;
+      usage.program = first.replace(/^\.\//, '');
+    }
+
+    let inWords = true;
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i].replace(/,$/, '');
+
+      if (token.startsWith('-')) {
+        inWords = false;
+
+        // "-t, --tag <name>" is one option with a short name
+        if (tokens[i].endsWith(',') && /^-\w$/.test(token) && tokens[i + 1]?.startsWith('--')) {
+          tokens[i + 1] = `${token} ${tokens[i + 1]}`;
+          continue;
+        }
+
+        const valueToken = tokens[i + 1];
+        const takesValue = valueToken !== undefined && !token.includes('=') &&
+          (/^<[^>]+>$/.test(valueToken) || (!usage.placeholders && !valueToken.startsWith('-') && !/^[[<]/.test(valueToken)));
+        const option = this.parseOption(takesValue ? `${token} ${valueToken}` : token);
+        if (option) {
+          usage.options.push(option);
+          if (takesValue) i++;
+        }
+        continue;
+      }
+
+      const bracket = /^\[(.*)\](\.\.\.)?$/.exec(token);
+      const angle = /^<(.*)>(\.\.\.)?$/.exec(token);
+      if (bracket || angle) {
+        inWords = false;
+        usage.placeholders = true;
+        const inner = (bracket ?? angle)![1].trim();
+        const variadic = !!(bracket ?? angle)![2] || inner.endsWith('...');
+
+        if (inner.startsWith('-')) {
+          const option = this.parseOption(inner);
+          if (option) usage.options.push(option);
+        } else if (bracket && /^</.test(inner)) {
+          const nested = this.parseUsage(inner);
+          usage.arguments.push(...nested.arguments.map(argument => ({ ...argument, required: false })));
+        } else {
+          const name = inner.replace(/\.\.\.$/, '').trim();
+          if (name && !GENERIC_PLACEHOLDER.test(name)) {
+            usage.arguments.push({ name, required: !bracket, variadic });
+          }
+        }
+        continue;
+      }
+
+      if (inWords && /^[a-z][\w:-]*$/i.test(token)) {
+        usage.words.push(token);
+      } else {
+        inWords = false;
+      }
+    }
+
+    return usage;
+  }
+
+  /**
+   * Parse a table cell of arguments, where plain words are required
+   * arguments, e.g. "<text> [tags...]" or "file"
+   */
+  private parseArguments(cell: string): CommandArgument[] {
+    const usage = this.parseUsage(this.stripCode(cell));
+    return [
+      ...usage.words
+        .filter(word => !/^(none|n\/a)$/i.test(word))
+        .map(name => ({ name, required: true, variadic: false })),
+      ...usage.arguments
+    ];
+  }
+
+  /**
+   * Parse an option spec such as `-t, --tag <name>`, `--limit=N` or `-j|--json`
+   */
+  private parseOption(spec: string): CommandOption | undefined {
+    let name: string | undefined;
+    let alias: string | undefined;
+    let value: string | undefined;
+
+    for (const part of spec.replace(/^\[|\]$/g, '').split(/[\s,|]+|=/).filter(Boolean)) {
+      let match;
+      if ((match = /^--([a-z0-9][\w-]*)$/i.exec(part)) && !name) {
+        name = match[1];
+      } else if ((match = /^-([a-z0-9])$/i.exec(part)) && !alias) {
+        alias = match[1];
+      } else if ((match = /^[<[]?([\w.-]+)[>\]]?$/.exec(part)) && (name || alias) && !value) {
+        value = match[1];
+      } else {
+        return undefined;
+      }
+    }
+
+    if (!name && !alias) return undefined;
+    return {
+      name: (name ?? alias)!,
+      ...(alias && name ? { alias } : {}),
+      ...(value ? { value } : {})
+    };
+  }
+
+  /**
+   * Parse a table cell listing options, e.g. "`-t, --tag <name>`, `--json`"
+   */
+  private parseOptionList(cell: string): CommandOption[] {
+    const spans = [...cell.matchAll(/`([^`]+)`/g)].map(match => match[1]);
+    const specs = spans.length > 0 ? spans : cell.split(/[,;]\s*(?=--)/);
+
+    const options: CommandOption[] = [];
+    for (const spec of specs) {
+      const option = this.parseOption(spec.trim());
+      const previous = options[options.length - 1];
+
+      // "-t, --tag" written as two code spans is still one option
+      if (option && previous && !previous.alias && previous.name.length === 1 && !previous.value && option.name.length > 1 && !option.alias) {
+        options[options.length - 1] = { ...option, alias: previous.name };
+      } else if (option) {
+        options.push(option);
+      }
+    }
+    return options;
+  }
+
+  /**
+   * Split a bullet into its leading spec and the description after it
+   */
+  private splitItem(text: string): { spec: string; description: string } {
+    const trimmed = text.trim();
+    const code = /^`([^`]+)`\s*(?:[:\-–—]\s*)?([\s\S]*)$/.exec(trimmed);
+    if (code) {
+      return { spec: code[1].trim(), description: code[2].trim() };
+    }
+
+    const plain = /^(-[^:–—]*?)(?::\s+|\s+[-–—]\s+)([\s\S]*)$/.exec(trimmed);
+    return plain
+      ? { spec: plain[1].trim(), description: plain[2].trim() }
+      : { spec: '', description: trimmed };
+  }
+
+  /**
+   * Take a default value such as "(default: 10)" out of a description; one
+   * such as "(default: none)" is taken out but gives no value
+   */
+  private splitDefault(text: string): { text: string; value?: string } {
+    const match = DEFAULT_IN_TEXT.exec(text);
+    if (!match) {
+      return { text: text.trim() };
+    }
+    const value = match[1].trim();
+    return { text: text.slice(0, match.index).trim(), value: NO_DEFAULT.test(value) ? undefined : value };
+  }
+
+  /**
+   * The first paragraph of a section's text, skipping tables, lists and code
+   */
+  private firstParagraph(content: string): string {
+    const paragraph: string[] = [];
+    let inCode = false;
+
+    for (const line of content.split('\n')) {
+      const trimmed = line.trim();
+      if (/^(```|~~~)/.test(trimmed)) {
+        inCode = !inCode;
+        if (paragraph.length > 0) break;
+        continue;
+      }
+      if (inCode) continue;
+      if (!trimmed || /^([|*+>#]|-\s|\d+\.\s|<!--)/.test(trimmed)) {
+        if (paragraph.length > 0) break;
+        continue;
+      }
+      paragraph.push(trimmed);
+    }
+
+    return paragraph.join(' ');
+  }
+
+  /**
+   * Add a command, merging it into an existing one with the same name
+   * @returns The command in the model
+   */
+  private addCommand(model: CommandModel, command: CliCommand): CliCommand {
+    const existing = model.commands.find(c => c.name === command.name);
+    if (!existing) {
+      const added: CliCommand = { ...command, arguments: [], options: [] };
+      model.commands.push(added);
+      command.arguments.forEach(argument => this.addArgument(added, argument));
+      command.options.forEach(option => this.addOption(added.options, option));
+      return added;
+    }
+
+    existing.description ||= command.description;
+    command.arguments.forEach(argument => this.addArgument(existing, argument));
+    command.options.forEach(option => this.addOption(existing.options, option));
+    return existing;
+  }
+
+  /**
+   * Add an argument, filling in details of one with the same name. Every
+   * field is present, if undefined, so templates looking one up do not find
+   * the command's field of the same name instead.
+   */
+  private addArgument(command: CliCommand, argument: CommandArgument): void {
+    const existing = command.arguments.find(a => a.name === argument.name);
+    if (existing) {
+      existing.description ??= argument.description;
+    } else {
+      command.arguments.push({ description: undefined, ...argument });
+    }
+  }
+
+  /**
+   * Add an option, filling in details of one with the same name. As with
+   * arguments, every field is present.
+   */
+  private addOption(options: CommandOption[], option: CommandOption): void {
+    const existing = options.find(o => o.name === option.name || (!!o.alias && o.alias === option.alias));
+    if (existing) {
+      existing.alias ??= option.alias;
+      existing.value ??= option.value;
+      existing.default ??= option.default;
+      existing.description ??= option.description;
+    } else {
+      options.push({ alias: undefined, value: undefined, default: undefined, description: undefined, ...option });
+    }
+  }
+
+  /**
+   * Whether an option is already known to a command or globally
+   */
+  private hasOption(model: CommandModel, command: CliCommand, option: CommandOption): boolean {
+    return [...command.options, ...model.options].some(o => o.name === option.name || o.alias === option.name);
+  }
+
+  /**
+   * Find the command with the longest name that the words start with
+   */
+  private findCommand(model: CommandModel, words: string[]): CliCommand | undefined {
+    return model.commands
+      .filter(command => this.withoutPrefix(words, command.name.split(' ')) !== undefined)
+      .sort((a, b) => b.name.length - a.name.length)[0];
+  }
+
+  /**
+   * The words after a prefix, or undefined if they do not start with it
+   */
+  private withoutPrefix(words: string[], prefix: string[]): string[] | undefined {
+    return prefix.every((word, i) => words[i] === word) ? words.slice(prefix.length) : undefined;
+  }
+
+  /**
+   * Remove code span backticks
+   */
+  private stripCode(text: string): string {
+    return text.replace(/`/g, '').trim();
+  }
+}
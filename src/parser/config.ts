@@ -0,0 +1,155 @@
+import {
+  RuleConfig,
+  RuleSeverity,
+  SourceRange,
+  ValidationDiagnostic,
+  ValidatorConfig
+} from '../types/index.js';
+import fs from 'fs-extra';
+import path from 'path';
+
+/**
+ * Name of the project config file, looked up from the README's directory
+ * towards the filesystem root
+ */
+export const CONFIG_FILE_NAME = '.tinsrc.json';
+
+/**
+ * Severities a rule can be given in the config
+ */
+const RULE_SEVERITIES: RuleSeverity[] = ['off', 'info', 'warning', 'error'];
+
+/**
+ * Loads the project validator config from `.tinsrc.json`, e.g.
+ *
+ * ```json
+ * {
+ *   "rules": {
+ *     "metadata": "off",
+ *     "functionality-subsections": "info",
+ *     "required-sections": { "options": { "extra": ["Technical Implementation/Storage"] } }
+ *   }
+ * }
+ * ```
+ */
+export class ConfigLoader {
+  /**
+   * Find and read the config file that applies to a directory
+   * @param startDir Directory to start looking in, usually the README's
+   * @returns The config, empty if no file is found, and any problems with it
+   */
+  public async load(startDir: string): Promise<{
+    config: ValidatorConfig;
+    diagnostics: ValidationDiagnostic[];
+  }> {
+    const file = await this.find(path.resolve(startDir));
+    if (!file) {
+      return { config: { rules: {} }, diagnostics: [] };
+    }
+
+    const diagnostics: ValidationDiagnostic[] = [];
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      diagnostics.push(this.invalid(file, `Cannot read ${CONFIG_FILE_NAME}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      return { config: { rules: {}, file }, diagnostics };
+    }
+
+    return { config: this.normalize(raw, file, diagnostics), diagnostics };
+  }
+
+  /**
+   * Walk up from a directory to the filesystem root looking for the config file
+   */
+  private async find(dir: string): Promise<string | undefined> {
+    let current = dir;
+    while (true) {
+      const candidate = path.join(current, CONFIG_FILE_NAME);
+      if (await fs.pathExists(candidate)) {
+        return candidate;
+      }
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return undefined;
+      }
+      current = parent;
+    }
+  }
+
+  /**
+   * Check the shape of a parsed config, dropping entries that are not valid
+   */
+  private normalize(raw: unknown, file: string, diagnostics: ValidationDiagnostic[]): ValidatorConfig {
+    const config: ValidatorConfig = { rules: {}, file };
+
+    if (!this.isObject(raw)) {
+      diagnostics.push(this.invalid(file, `${CONFIG_FILE_NAME} must contain a JSON object`));
+      return config;
+    }
+    if (raw.rules === undefined) {
+      return config;
+    }
+    if (!this.isObject(raw.rules)) {
+      diagnostics.push(this.invalid(file, `"rules" in ${CONFIG_FILE_NAME} must be an object`));
+      return config;
+    }
+
+    for (const [id, value] of Object.entries(raw.rules)) {
+      const rule = this.normalizeRule(value);
+      if (rule === null) {
+        diagnostics.push(this.invalid(file,
+          `Invalid setting for rule "${id}": expected one of ${RULE_SEVERITIES.join(', ')} or { "severity", "options" }`));
+        continue;
+      }
+      config.rules[id] = rule;
+    }
+
+    return config;
+  }
+
+  /**
+   * Check a single rule setting
+   * @returns The setting, or null if it is not valid
+   */
+  private normalizeRule(value: unknown): RuleConfig | null {
+    if (typeof value === 'string') {
+      return this.isSeverity(value) ? value : null;
+    }
+    if (!this.isObject(value)) {
+      return null;
+    }
+    if (value.severity !== undefined && !this.isSeverity(value.severity)) {
+      return null;
+    }
+    if (value.options !== undefined && !this.isObject(value.options)) {
+      return null;
+    }
+    return {
+      severity: value.severity as RuleSeverity | undefined,
+      options: value.options as Record<string, unknown> | undefined
+    };
+  }
+
+  private isSeverity(value: unknown): value is RuleSeverity {
+    return typeof value === 'string' && (RULE_SEVERITIES as string[]).includes(value);
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Build an error for a problem with the config file
+   */
+  private invalid(file: string, message: string): ValidationDiagnostic {
+    return { ruleId: 'invalid-config', severity: 'error', message, range: this.fileRange(file) };
+  }
+
+  /**
+   * A range pointing at the start of the config file
+   */
+  private fileRange(file: string): SourceRange {
+    return { start: { line: 1, column: 1 }, end: { line: 1, column: 1 }, file };
+  }
+}
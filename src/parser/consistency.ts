@@ -0,0 +1,243 @@
+import {
+  Feature,
+  ParsedReadme,
+  ProgrammingLanguage,
+  RuleFinding,
+  SourceRange,
+  ValidationRule
+} from '../types/index.js';
+import { ReadmeClassifier } from './classifier.js';
+
+/**
+ * Content must score at least this much before it can contradict metadata
+ */
+const MIN_CONTENT_SCORE = 5;
+
+/**
+ * The declared platform conflicts when its content score is below this
+ * fraction of the leading platform's
+ */
+const CONFLICT_RATIO = 0.5;
+
+/**
+ * Languages that can stand in for each other in code samples
+ */
+const COMPATIBLE_LANGUAGES: ProgrammingLanguage[][] = [
+  [ProgrammingLanguage.JAVASCRIPT, ProgrammingLanguage.TYPESCRIPT]
+];
+
+/**
+ * Words that negate a feature statement
+ */
+const NEGATIONS = new Set(['not', 'no', 'never', 'without', 'cannot']);
+
+const classifier = new ReadmeClassifier();
+
+/**
+ * Find where a metadata key was set
+ */
+function tagRange(parsed: ParsedReadme, key: string): SourceRange | undefined {
+  return parsed.metadataTags.find(tag => tag.key === `ZS:${key}`)?.range ?? parsed.titleRange;
+}
+
+/**
+ * Split a feature statement into its words without negations, and whether
+ * it is negated. "Users cannot delete tasks" and "Users can delete tasks"
+ * share their words but differ in polarity.
+ */
+function statementCore(text: string): { words: string; negated: boolean } {
+  const tokens = text
+    .toLowerCase()
+    .replace(/\bcan['’]?t\b/g, 'can not')
+    .replace(/\bwon['’]?t\b/g, 'will not')
+    .replace(/n['’]t\b/g, ' not')
+    .replace(/\bcannot\b/g, 'can not')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const negations = tokens.filter(token => NEGATIONS.has(token)).length;
+  return {
+    words: tokens.filter(token => !NEGATIONS.has(token)).join(' '),
+    negated: negations % 2 === 1
+  };
+}
+
+/**
+ * Find field references in feature text: `field`, `entity.field` and Entity.field
+ */
+function fieldReferences(text: string): { entity?: string; field: string }[] {
+  const references: { entity?: string; field: string }[] = [];
+
+  for (const match of text.matchAll(/`([A-Za-z_]\w*)(?:\.([A-Za-z_]\w*))?`/g)) {
+    references.push(match[2] ? { entity: match[1], field: match[2] } : { field: match[1] });
+  }
+
+  // Entity.field outside backticks, e.g. "sorted by Task.createdAt"
+  const prose = text.replace(/`[^`]*`/g, '');
+  for (const match of prose.matchAll(/\b([A-Z][A-Za-z0-9]*)\.([A-Za-z_]\w*)\b/g)) {
+    references.push({ entity: match[1], field: match[2] });
+  }
+
+  return references;
+}
+
+/**
+ * Rules that compare parts of the README against each other: metadata
+ * against content, features against the Data Model, and features against
+ * one another
+ */
+export const CONSISTENCY_RULES: ValidationRule[] = [
+  {
+    id: 'platform-conflict',
+    description: 'ZS:PLATFORM agrees with what the content describes',
+    defaultSeverity: 'warning',
+    message: 'ZS:PLATFORM:{platform} conflicts with the content, which reads as {detected} ({evidence})',
+    check: parsed => {
+      const platform = parsed.metadata.platform;
+      const declared = platform ? classifier.appTypeOfPlatform(platform) : undefined;
+      if (!platform || !declared) {
+        return [];
+      }
+
+      const [leader, ...rest] = classifier.classify(parsed, { ignoreMetadata: true }).appTypes;
+      if (leader.value === declared || leader.score < MIN_CONTENT_SCORE) {
+        return [];
+      }
+
+      const declaredScore = rest.find(c => c.value === declared)?.score ?? 0;
+      if (declaredScore >= leader.score * CONFLICT_RATIO) {
+        return [];
+      }
+
+      return [{
+        range: tagRange(parsed, 'PLATFORM'),
+        data: {
+          platform,
+          detected: leader.value,
+          evidence: leader.evidence.slice(0, 3).join(', ')
+        }
+      }];
+    }
+  },
+  {
+    id: 'language-conflict',
+    description: 'ZS:LANGUAGE matches the language of the code blocks',
+    defaultSeverity: 'warning',
+    message: 'ZS:LANGUAGE:{language} conflicts with the code blocks, which are all {found}',
+    check: parsed => {
+      const language = parsed.metadata.language;
+      const declared = language ? classifier.languageOfName(language) : undefined;
+      if (!language || !declared) {
+        return [];
+      }
+
+      const found = new Set(parsed.codeBlocks
+        .map(block => classifier.languageOfCodeBlock(block.language))
+        .filter((l): l is ProgrammingLanguage => !!l && !classifier.isMarkupLanguage(l)));
+      if (found.size === 0) {
+        return [];
+      }
+
+      const accepted = COMPATIBLE_LANGUAGES.find(group => group.includes(declared)) ?? [declared];
+      if ([...found].some(l => accepted.includes(l))) {
+        return [];
+      }
+
+      return [{ range: tagRange(parsed, 'LANGUAGE'), data: { language, found: [...found].join(', ') } }];
+    }
+  },
+  {
+    id: 'undefined-field',
+    description: 'Fields that features refer to are defined in the Data Model',
+    defaultSeverity: 'warning',
+    message: 'Feature refers to {reference}, which is not defined in the Data Model',
+    check: parsed => {
+      if (parsed.entities.length === 0) {
+        return [];
+      }
+
+      const entities = new Map(parsed.entities.map(e => [e.name.toLowerCase(), e]));
+      const allFields = new Set(parsed.entities.flatMap(e => e.fields.map(f => f.name.toLowerCase())));
+      const findings: RuleFinding[] = [];
+
+      for (const feature of parsed.features) {
+        const reported = new Set<string>();
+        for (const text of [feature.text, ...feature.acceptanceCriteria]) {
+          for (const { entity, field } of fieldReferences(text)) {
+            const schema = entity ? entities.get(entity.toLowerCase()) : undefined;
+            let reference: string | undefined;
+
+            if (schema) {
+              if (!schema.fields.some(f => f.name.toLowerCase() === field.toLowerCase())) {
+                reference = `${schema.name}.${field}`;
+              }
+            } else if (!entity && /^[a-z]/.test(field) && !allFields.has(field.toLowerCase()) && !entities.has(field.toLowerCase())) {
+              reference = `field "${field}"`;
+            }
+
+            if (reference && !reported.has(reference)) {
+              reported.add(reference);
+              findings.push({ range: feature.range, data: { reference } });
+            }
+          }
+        }
+      }
+
+      return findings;
+    }
+  },
+  {
+    id: 'duplicate-feature',
+    description: 'Each feature is stated once',
+    defaultSeverity: 'warning',
+    message: 'Feature "{text}" repeats the one on line {line}',
+    check: parsed => {
+      const seen = new Map<string, Feature>();
+      const findings: RuleFinding[] = [];
+
+      for (const feature of parsed.features) {
+        const core = statementCore(feature.text);
+        const key = `${core.negated ? '!' : ''}${core.words}`;
+        const first = seen.get(key);
+        if (first) {
+          findings.push({
+            range: feature.range,
+            data: { text: feature.text, line: String(first.range.start.line) }
+          });
+        } else {
+          seen.set(key, feature);
+        }
+      }
+
+      return findings;
+    }
+  },
+  {
+    id: 'conflicting-feature',
+    description: 'No feature is contradicted by another',
+    defaultSeverity: 'warning',
+    message: 'Feature "{text}" contradicts "{other}" on line {line}',
+    check: parsed => {
+      const seen = new Map<string, Feature>();
+      const findings: RuleFinding[] = [];
+
+      for (const feature of parsed.features) {
+        const core = statementCore(feature.text);
+        const key = `${core.negated ? '!' : ''}${core.words}`;
+        const opposite = seen.get(`${core.negated ? '' : '!'}${core.words}`);
+        if (opposite) {
+          findings.push({
+            range: feature.range,
+            data: { text: feature.text, other: opposite.text, line: String(opposite.range.start.line) }
+          });
+        }
+        if (!seen.has(key)) {
+          seen.set(key, feature);
+        }
+      }
+
+      return findings;
+    }
+  }
+];
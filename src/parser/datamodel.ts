@@ -0,0 +1,492 @@
+import {
+  ReadmeSection,
+  ReadmeTable,
+  ReadmeCodeBlock,
+  EntitySchema,
+  EntityField,
+  FieldType
+} from '../types/index.js';
+
+/**
+ * Section titles that describe the application's data model
+ */
+const DATA_MODEL_TITLE = /\b(data\s*models?|data\s*structures?|schemas?|entities|models?)\b/i;
+
+/**
+ * Code block languages that can hold an entity description
+ */
+const SCHEMA_LANGUAGES = new Set(['', 'javascript', 'js', 'typescript', 'ts', 'json', 'jsonc', 'text']);
+
+/**
+ * Maps type names written in READMEs to field types
+ */
+const PRIMITIVE_TYPES: Record<string, FieldType> = {
+  string: 'string',
+  text: 'string',
+  uuid: 'string',
+  email: 'string',
+  url: 'string',
+  char: 'string',
+  number: 'number',
+  int: 'number',
+  integer: 'number',
+  float: 'number',
+  double: 'number',
+  decimal: 'number',
+  bigint: 'number',
+  boolean: 'boolean',
+  bool: 'boolean',
+  date: 'date',
+  datetime: 'date',
+  timestamp: 'date',
+  object: 'object',
+  map: 'object',
+  json: 'object',
+  any: 'unknown',
+  unknown: 'unknown'
+};
+
+/**
+ * Parses Data Model sections into entity schemas.
+ * Entities can be written as JS-like object literals, TypeScript interfaces
+ * or markdown tables with field, type, required and description columns.
+ */
+export class DataModelParser {
+  /**
+   * Find the Data Model sections of a README and parse the entities they describe
+   * @param sections Top-level sections of the parsed README
+   * @returns Entity schemas with relations between them resolved
+   */
+  public parse(sections: ReadmeSection[]): EntitySchema[] {
+    const entities: EntitySchema[] = [];
+
+    for (const section of this.findDataModelSections(sections)) {
+      this.parseSection(section, entities);
+    }
+
+    this.resolveRelations(entities);
+    return entities;
+  }
+
+  /**
+   * Find sections describing the data model, without descending into matches
+   */
+  private findDataModelSections(sections: ReadmeSection[]): ReadmeSection[] {
+    return sections.flatMap(section =>
+      DATA_MODEL_TITLE.test(section.title)
+        ? [section]
+        : this.findDataModelSections(section.subsections)
+    );
+  }
+
+  /**
+   * Parse the code blocks and tables of a section and all of its subsections
+   */
+  private parseSection(section: ReadmeSection, entities: EntitySchema[]): void {
+    const defaultName = this.entityNameFor(section);
+
+    for (const block of section.codeBlocks) {
+      if (SCHEMA_LANGUAGES.has(block.language)) {
+        this.parseCodeBlock(block, defaultName, entities);
+      }
+    }
+
+    for (const table of section.tables) {
+      const entity = this.parseTable(table, defaultName, entities);
+      if (entity) {
+        entities.push(entity);
+      }
+    }
+
+    section.subsections.forEach(sub => this.parseSection(sub, entities));
+  }
+
+  /**
+   * Parse object literals, interfaces and type aliases from a code block
+   * @param block The code block to parse
+   * @param defaultName Name for anonymous object literals
+   * @param entities Entities parsed so far, extended in place
+   */
+  private parseCodeBlock(block: ReadmeCodeBlock, defaultName: string, entities: EntitySchema[]): void {
+    let entity: EntitySchema | null = null;
+    let depth = 0;
+    let pendingDoc: string | undefined;
+
+    for (const rawLine of block.content.split(/\r?\n/)) {
+      const { code, comment } = this.splitComment(rawLine);
+
+      if (!entity) {
+        const docMatch = code.match(/^\/\*+\s*(.*?)\s*\*\/$/);
+        if (docMatch) {
+          pendingDoc = docMatch[1];
+          continue;
+        }
+
+        const name = this.matchEntityHeader(code);
+        if (name === null) {
+          continue;
+        }
+
+        entity = {
+          name: this.uniqueName(name || defaultName, entities),
+          fields: [],
+          relations: [],
+          range: block.range
+        };
+        const description = comment || pendingDoc;
+        if (description) {
+          entity.description = description;
+        }
+        pendingDoc = undefined;
+        depth = this.braceDelta(code);
+
+        // Single-line literals such as `{ "id": "string", "done": "boolean" }`
+        const inline = code.match(/\{(.*)\}/);
+        if (inline && depth === 0) {
+          for (const part of this.splitTopLevel(inline[1])) {
+            const field = this.parseFieldLine(part);
+            if (field) {
+              entity.fields.push(field);
+            }
+          }
+        }
+      } else {
+        if (depth === 1) {
+          const docMatch = code.match(/^\/\*+\s*(.*?)\s*\*\/$/);
+          if (docMatch) {
+            pendingDoc = docMatch[1];
+            continue;
+          }
+
+          const field = this.parseFieldLine(code, comment || pendingDoc);
+          if (field) {
+            entity.fields.push(field);
+          }
+          pendingDoc = undefined;
+        }
+        depth += this.braceDelta(code);
+      }
+
+      if (entity && depth <= 0) {
+        if (entity.fields.length > 0) {
+          entities.push(entity);
+        }
+        entity = null;
+      }
+    }
+
+    // Keep entities whose closing brace is missing
+    if (entity && entity.fields.length > 0) {
+      entities.push(entity);
+    }
+  }
+
+  /**
+   * Recognize the line that opens an entity
+   * @returns The declared name, an empty string for anonymous literals, or null
+   */
+  private matchEntityHeader(code: string): string | null {
+    const declaration =
+      code.match(/^(?:export\s+)?(?:interface|class|type)\s+([A-Za-z_$][\w$]*)[^{]*\{/) ||
+      code.match(/^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*\{/) ||
+      code.match(/^["']?([A-Za-z_$][\w$]*)["']?\s*:\s*\{$/);
+    if (declaration) {
+      return this.toPascalCase(declaration[1]);
+    }
+    return code.startsWith('{') ? '' : null;
+  }
+
+  /**
+   * Parse a `name?: type` line inside an entity body
+   */
+  private parseFieldLine(code: string, description?: string): EntityField | null {
+    const match = code.match(/^(?:readonly\s+)?["']?([A-Za-z_$][\w$]*)["']?(\?)?\s*:\s*(.+?)\s*[,;]?$/);
+    if (!match) {
+      return null;
+    }
+
+    // Nested object bodies spanning several lines
+    const rawType = match[3] === '{' ? '{ ... }' : match[3];
+    const field = this.parseType(match[1], rawType);
+    if (match[2]) {
+      field.optional = true;
+    }
+    if (description) {
+      field.description = description;
+      if (/\boptional\b/i.test(description)) {
+        field.optional = true;
+      }
+    }
+    return field;
+  }
+
+  /**
+   * Parse an entity from a markdown table with at least name and type columns
+   */
+  private parseTable(table: ReadmeTable, defaultName: string, entities: EntitySchema[]): EntitySchema | null {
+    const headers = table.headers.map(h => h.toLowerCase());
+    const nameColumn = headers.findIndex(h => /^(field|name|property|attribute|column|key)/.test(h));
+    const typeColumn = headers.findIndex(h => /type/.test(h));
+    if (nameColumn === -1 || typeColumn === -1) {
+      return null;
+    }
+
+    const requiredColumn = headers.findIndex(h => /required/.test(h));
+    const optionalColumn = headers.findIndex(h => /optional|nullable/.test(h));
+    const descriptionColumn = headers.findIndex(h => /desc|note|comment|meaning/.test(h));
+
+    const entity: EntitySchema = {
+      name: this.uniqueName(defaultName, entities),
+      fields: [],
+      relations: [],
+      range: table.range
+    };
+
+    for (const row of table.rows) {
+      const cell = (column: number) => (column === -1 ? '' : this.stripMarkup(row[column] || ''));
+      const rawName = cell(nameColumn);
+      if (!rawName) continue;
+
+      const field = this.parseType(this.toIdentifier(rawName.replace(/\?$/, '')), cell(typeColumn));
+      if (rawName.endsWith('?')) {
+        field.optional = true;
+      }
+      if (requiredColumn !== -1 && !this.isAffirmative(cell(requiredColumn))) {
+        field.optional = true;
+      }
+      if (optionalColumn !== -1 && this.isAffirmative(cell(optionalColumn))) {
+        field.optional = true;
+      }
+
+      const description = cell(descriptionColumn);
+      if (description) {
+        field.description = description;
+        if (/\boptional\b/i.test(description)) {
+          field.optional = true;
+        }
+      }
+      entity.fields.push(field);
+    }
+
+    return entity.fields.length > 0 ? entity : null;
+  }
+
+  /**
+   * Interpret a written type such as `string[]`, `Date | null` or `'a' | 'b'`
+   * @param name The field name
+   * @param rawType The type as written in the README
+   * @returns A field with its type, optionality and array flag filled in
+   */
+  private parseType(name: string, rawType: string): EntityField {
+    const field: EntityField = {
+      name,
+      type: 'unknown',
+      rawType: rawType.trim(),
+      optional: false,
+      isArray: false
+    };
+
+    // Nullable unions make a field optional
+    let parts = rawType.split('|').map(part => part.trim()).filter(Boolean);
+    const nonNull = parts.filter(part => part !== 'null' && part !== 'undefined');
+    if (nonNull.length < parts.length) {
+      field.optional = true;
+    }
+    parts = nonNull;
+
+    // Unions of literals are enumerations of strings or numbers
+    const literals = parts.map(part => part.match(/^(["'`])(.*)\1$/));
+    if (parts.length > 0 && literals.every(Boolean)) {
+      const values = literals.map(literal => literal![2]);
+      if (values.length === 1 && PRIMITIVE_TYPES[values[0].toLowerCase()]) {
+        // JSON-style descriptions quote the type name: "id": "string"
+        parts = [values[0]];
+      } else {
+        field.type = 'string';
+        field.values = values;
+        return field;
+      }
+    }
+
+    let type = parts.join(' | ');
+    const arrayMatch = type.match(/^(.+?)\[\]$/) || type.match(/^(?:Array|ReadonlyArray|Set)<(.+)>$/);
+    if (arrayMatch) {
+      field.isArray = true;
+      type = arrayMatch[1].trim();
+    }
+
+    if (type.startsWith('{') || /^(Record|Map)\b/.test(type)) {
+      field.type = 'object';
+    } else if (PRIMITIVE_TYPES[type.toLowerCase()]) {
+      field.type = PRIMITIVE_TYPES[type.toLowerCase()];
+    } else if (/^[A-Z][\w$]*$/.test(type)) {
+      // Possibly another entity; confirmed once every entity is known
+      field.type = 'object';
+      field.reference = type;
+    }
+
+    return field;
+  }
+
+  /**
+   * Link fields to the entities they refer to and record the relations
+   */
+  private resolveRelations(entities: EntitySchema[]): void {
+    const names = new Map(entities.map(entity => [entity.name.toLowerCase(), entity.name]));
+
+    for (const entity of entities) {
+      for (const field of entity.fields) {
+        let manyByName = false;
+        if (field.reference) {
+          const target = names.get(field.reference.toLowerCase());
+          if (target) {
+            field.type = 'reference';
+            field.reference = target;
+          } else {
+            delete field.reference;
+          }
+        } else {
+          // Foreign keys such as `ownerId` or `tag_ids`
+          const foreignKey = field.name.match(/^([a-z][\w$]*?)(Id|_id|Ids|_ids)$/);
+          const target = foreignKey && names.get(foreignKey[1].toLowerCase());
+          if (target) {
+            field.reference = target;
+            manyByName = foreignKey![2].endsWith('s');
+          }
+        }
+
+        if (field.reference) {
+          entity.relations.push({
+            field: field.name,
+            target: field.reference,
+            cardinality: field.isArray || manyByName ? 'many' : 'one'
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Name the entity described by a section's anonymous literals and tables.
+   * Specific headings such as "Task" are used as is; generic Data Model
+   * headings fall back to the prose, e.g. "Each task should be...".
+   */
+  private entityNameFor(section: ReadmeSection): string {
+    if (!DATA_MODEL_TITLE.test(section.title)) {
+      return this.toPascalCase(this.singularize(section.title));
+    }
+
+    const prose = section.content.replace(/```[\s\S]*?```/g, '');
+    const match =
+      prose.match(/\beach\s+([a-z][\w-]*)/i) ||
+      prose.match(/\b(?:a|an|the)\s+([a-z][\w-]*)\s+(?:entity|object|record|model)\b/i);
+    return match ? this.toPascalCase(this.singularize(match[1])) : 'Item';
+  }
+
+  /**
+   * Make an entity name unique among the entities parsed so far
+   */
+  private uniqueName(name: string, entities: EntitySchema[]): string {
+    let candidate = name;
+    for (let i = 2; entities.some(entity => entity.name === candidate); i++) {
+      candidate = `${name}${i}`;
+    }
+    return candidate;
+  }
+
+  /**
+   * Separate a line into code and its trailing `//` comment
+   */
+  private splitComment(line: string): { code: string; comment?: string } {
+    const match = line.match(/^(.*?)\s*\/\/\s*(.*)$/);
+    if (match && !/["'`][^"'`]*$/.test(match[1])) {
+      return { code: match[1].trim(), comment: match[2].trim() || undefined };
+    }
+    return { code: line.trim() };
+  }
+
+  /**
+   * Split a list of fields on commas and semicolons outside brackets
+   */
+  private splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of text) {
+      if ('{[(<'.includes(char)) depth++;
+      if ('}])>'.includes(char)) depth--;
+      if ((char === ',' || char === ';') && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current.trim());
+    return parts.filter(Boolean);
+  }
+
+  /**
+   * Net number of braces opened by a line of code
+   */
+  private braceDelta(code: string): number {
+    return (code.match(/\{/g) || []).length - (code.match(/\}/g) || []).length;
+  }
+
+  /**
+   * Check whether a table cell answers yes
+   */
+  private isAffirmative(value: string): boolean {
+    return /^(yes|y|true|required|x|✓|✔)$/i.test(value.trim());
+  }
+
+  /**
+   * Remove the inline code and emphasis markers around a table cell, as in
+   * `**title**` or `` `created_at` ``, keeping underscores inside names
+   */
+  private stripMarkup(value: string): string {
+    let text = value.trim();
+    for (let match; (match = text.match(/^(`+|\*{1,3}|_{1,3})(.+)\1$/)); ) {
+      text = match[2].trim();
+    }
+    return text;
+  }
+
+  /**
+   * Turn a plural noun into its singular form
+   */
+  private singularize(word: string): string {
+    if (/ies$/i.test(word)) return word.slice(0, -3) + 'y';
+    if (/(ss|us|is)$/i.test(word)) return word;
+    if (/(s|x|z|ch|sh)es$/i.test(word)) return word.slice(0, -2);
+    if (/s$/i.test(word)) return word.slice(0, -1);
+    return word;
+  }
+
+  /**
+   * Make a field name written in words, such as "due date" or "e-mail", an
+   * identifier: dueDate, eMail. Identifiers are kept as written.
+   */
+  private toIdentifier(name: string): string {
+    if (/^[A-Za-z_$][\w$]*$/.test(name)) {
+      return name;
+    }
+    const identifier = name
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map((part, i) => (i === 0 ? part.toLowerCase() : part[0].toUpperCase() + part.slice(1)))
+      .join('');
+    return /^\d/.test(identifier) ? `_${identifier}` : identifier || name;
+  }
+
+  /**
+   * Convert a name such as "line item" or "line_item" to PascalCase
+   */
+  private toPascalCase(name: string): string {
+    return name
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(part => part[0].toUpperCase() + part.slice(1))
+      .join('');
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Lines of unchanged context shown around each change
+ */
+const CONTEXT_LINES = 3;
+
+/**
+ * Above this many line comparisons the diff falls back to replacing the
+ * whole file, to keep memory bounded
+ */
+const MAX_COMPARISONS = 25_000_000;
+
+/**
+ * A line of an edit script: kept, removed from the old text or added in the new
+ */
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+  oldLine: number;
+  newLine: number;
+}
+
+/**
+ * Produces unified diffs between two versions of a text file, using a
+ * longest common subsequence of lines.
+ */
+export class UnifiedDiff {
+  /**
+   * Create a unified diff
+   * @param oldText The original text
+   * @param newText The changed text
+   * @param oldName Name shown on the `---` line
+   * @param newName Name shown on the `+++` line
+   * @returns The diff, or an empty string if the texts have the same lines
+   */
+  public create(oldText: string, newText: string, oldName: string, newName: string = oldName): string {
+    const oldLines = this.splitLines(oldText);
+    const newLines = this.splitLines(newText);
+    const script = this.editScript(oldLines, newLines);
+
+    if (script.every(line => line.type === ' ')) {
+      return '';
+    }
+
+    return [`--- ${oldName}`, `+++ ${newName}`, ...this.hunks(script)].join('\n') + '\n';
+  }
+
+  /**
+   * Split text into lines, ignoring the line ending style and a final newline
+   */
+  private splitLines(text: string): string[] {
+    const lines = text.split(/\r?\n/);
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    return lines;
+  }
+
+  /**
+   * Build the edit script turning the old lines into the new ones
+   */
+  private editScript(oldLines: string[], newLines: string[]): DiffLine[] {
+    const n = oldLines.length;
+    const m = newLines.length;
+
+    if (n * m > MAX_COMPARISONS) {
+      return [
+        ...oldLines.map((text, i): DiffLine => ({ type: '-', text, oldLine: i + 1, newLine: 0 })),
+        ...newLines.map((text, j): DiffLine => ({ type: '+', text, oldLine: n, newLine: j + 1 }))
+      ];
+    }
+
+    // lengths[i * (m + 1) + j] is the LCS length of oldLines[i..] and newLines[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = oldLines[i] === newLines[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    const script: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldLines[i] === newLines[j]) {
+        script.push({ type: ' ', text: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+        script.push({ type: '-', text: oldLines[i], oldLine: i + 1, newLine: j });
+        i++;
+      } else {
+        script.push({ type: '+', text: newLines[j], oldLine: i, newLine: j + 1 });
+        j++;
+      }
+    }
+
+    return script;
+  }
+
+  /**
+   * Group changes with their context into `@@` hunks
+   */
+  private hunks(script: DiffLine[]): string[] {
+    const output: string[] = [];
+    let index = 0;
+
+    while (index < script.length) {
+      const firstChange = script.findIndex((line, i) => i >= index && line.type !== ' ');
+      if (firstChange === -1) break;
+
+      // Extend the hunk while the gap to the next change fits in the context
+      const start = Math.max(index, firstChange - CONTEXT_LINES);
+      let end = firstChange;
+      for (let i = firstChange; i < script.length; i++) {
+        if (script[i].type !== ' ') {
+          end = i;
+        } else if (i - end > CONTEXT_LINES * 2) {
+          break;
+        }
+      }
+      const stop = Math.min(script.length, end + CONTEXT_LINES + 1);
+      const lines = script.slice(start, stop);
+
+      const oldCount = lines.filter(l => l.type !== '+').length;
+      const newCount = lines.filter(l => l.type !== '-').length;
+      const oldStart = oldCount > 0 ? lines.find(l => l.type !== '+')!.oldLine : lines[0].oldLine;
+      const newStart = newCount > 0 ? lines.find(l => l.type !== '-')!.newLine : lines[0].newLine;
+
+      output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+      output.push(...lines.map(l => `${l.type}${l.text}`));
+      index = stop;
+    }
+
+    return output;
+  }
+}
@@ -1,5 +1,23 @@
 import MarkdownIt from 'markdown-it';
-import { ParsedReadme, ReadmeSection, AppType, ProgrammingLanguage } from '../types/index.js';
+import type Token from 'markdown-it/lib/token.js';
+import { SourceLocator } from './locator.js';
+import { DataModelParser } from './datamodel.js';
+import { FeatureExtractor } from './features.js';
+import { CommandParser } from './commands.js';
+import { WireframeParser } from './wireframe.js';
+import { MetadataExtractor } from './metadata.js';
+import { ReadmeClassifier } from './classifier.js';
+import { StyleGuideParser } from './styleguide.js';
+import { AccessibilityParser } from './accessibility.js';
+import { complexityCounts } from './quality.js';
+import {
+  ParsedReadme,
+  ReadmeSection,
+  ReadmeList,
+  ReadmeListItem,
+  ReadmeTable,
+  ReadmeCodeBlock
+} from '../types/index.js';
 
 /**
  * Extracts structured information from a README file.
@@ -7,9 +25,25 @@ import { ParsedReadme, ReadmeSection, AppType, ProgrammingLanguage } from '../ty
  */
 export class ReadmeExtractor {
   private md: MarkdownIt;
+  private dataModelParser: DataModelParser;
+  private featureExtractor: FeatureExtractor;
+  private commandParser: CommandParser;
+  private wireframeParser: WireframeParser;
+  private metadataExtractor: MetadataExtractor;
+  private classifier: ReadmeClassifier;
+  private styleGuideParser: StyleGuideParser;
+  private accessibilityParser: AccessibilityParser;
 
   constructor() {
     this.md = new MarkdownIt();
+    this.dataModelParser = new DataModelParser();
+    this.featureExtractor = new FeatureExtractor();
+    this.commandParser = new CommandParser();
+    this.wireframeParser = new WireframeParser();
+    this.metadataExtractor = new MetadataExtractor();
+    this.classifier = new ReadmeClassifier();
+    this.styleGuideParser = new StyleGuideParser();
+    this.accessibilityParser = new AccessibilityParser();
   }
 
   /**
@@ -18,41 +52,87 @@ export class ReadmeExtractor {
    * @returns Structured representation of the README
    */
   public extract(content: string): ParsedReadme {
+    const locator = new SourceLocator(content);
+    const { metadata, tags, diagnostics, frontMatterLines, specVersion } = this.metadataExtractor.extract(content, locator);
+
     // Initialize the parsed readme structure
     const parsed: ParsedReadme = {
       title: '',
       description: '',
       sections: [],
-      metadata: this.extractMetadata(content),
-      complexity: 'MEDIUM' // Default complexity
+      codeBlocks: [],
+      metadata,
+      metadataTags: tags,
+      entities: [],
+      features: [],
+      commands: { commands: [], options: [] },
+      designTokens: { colors: {}, typography: {}, spacing: {}, motion: {} },
+      accessibility: [],
+      complexity: 'MEDIUM', // Default complexity
+      specVersion,
+      diagnostics
     };
 
-    // Extract title (first h1)
-    const titleMatch = content.match(/^# (.*?)$/m);
-    if (titleMatch && titleMatch[1]) {
-      parsed.title = titleMatch[1].trim();
+    // Blank out front matter so markdown-it does not read it as content,
+    // while keeping line numbers intact
+    const lines = content.split(/\r?\n/);
+    for (let i = 0; i < frontMatterLines; i++) {
+      lines[i] = '';
     }
+    const tokens = this.md.parse(lines.join('\n'), {});
+
+    // Extract title (first h1) and description (text between title and the next heading)
+    const titleIndex = tokens.findIndex(
+      t => t.type === 'heading_open' && t.tag === 'h1' && t.level === 0
+    );
+    if (titleIndex !== -1) {
+      parsed.title = tokens[titleIndex + 1].content.trim();
+      parsed.titleRange = locator.lineRange(tokens[titleIndex].map![0], tokens[titleIndex].map![1]);
 
-    // Extract description (text between title and first h2)
-    const descriptionMatch = content.match(/^# .*?\r?\n([\s\S]*?)(?=^## |\Z)/m);
-    if (descriptionMatch && descriptionMatch[1]) {
-      parsed.description = descriptionMatch[1].trim();
+      const descriptionStart = tokens[titleIndex].map![1];
+      const nextHeading = tokens.find(
+        (t, i) => i > titleIndex && t.type === 'heading_open' && t.level === 0
+      );
+      const descriptionEnd = nextHeading ? nextHeading.map![0] : lines.length;
+      parsed.description = lines.slice(descriptionStart, descriptionEnd).join('\n').trim();
     }
 
-    // Extract main sections (h2) and their subsections (h3+)
-    parsed.sections = this.extractSections(content);
+    // Extract sections (h2) and their subsections (h3-h6) at any depth
+    const { sections, codeBlocks } = this.extractSections(tokens, lines, locator);
+    parsed.sections = sections;
+    parsed.codeBlocks = codeBlocks;
+
+    // Parse ASCII wireframes into layout trees on their sections
+    this.attachWireframes(parsed.sections);
+
+    // Parse the entity schema described by Data Model sections
+    parsed.entities = this.dataModelParser.parse(parsed.sections);
+
+    // Extract feature and interaction bullets with stable IDs
+    parsed.features = this.featureExtractor.extract(parsed.sections);
+
+    // Parse the commands, arguments and options of a command-line interface
+    parsed.commands = this.commandParser.parse(parsed.sections, parsed.codeBlocks);
 
-    // Determine application type and languages
-    const typeAndLanguages = this.determineAppTypeAndLanguages(parsed);
-    parsed.appType = typeAndLanguages.appType;
-    parsed.languages = typeAndLanguages.languages;
+    // Turn Style Guide statements into design tokens, reporting the ones we skip
+    const styleGuide = this.styleGuideParser.parse(parsed.sections);
+    parsed.designTokens = styleGuide.tokens;
+    parsed.diagnostics.push(...styleGuide.diagnostics);
+
+    // Turn Accessibility requirements into rules the generators enforce
+    const accessibility = this.accessibilityParser.parse(parsed.sections);
+    parsed.accessibility = accessibility.rules;
+    parsed.diagnostics.push(...accessibility.diagnostics);
+
+    // Score application types and languages, keeping the leading candidates
+    parsed.classification = this.classifier.classify(parsed);
+    parsed.appType = parsed.classification.appTypes[0].value;
+    parsed.languages = this.classifier.selectLanguages(parsed.classification);
 
     // Determine complexity from metadata or content analysis
-    if (parsed.metadata['ZS:COMPLEXITY']) {
-      if (parsed.metadata['ZS:COMPLEXITY'] === 'LOW' || 
-          parsed.metadata['ZS:COMPLEXITY'] === 'MEDIUM' || 
-          parsed.metadata['ZS:COMPLEXITY'] === 'HIGH') {
-        parsed.complexity = parsed.metadata['ZS:COMPLEXITY'] as 'LOW' | 'MEDIUM' | 'HIGH';
+    if (parsed.metadata.values.COMPLEXITY) {
+      if (parsed.metadata.complexity) {
+        parsed.complexity = parsed.metadata.complexity;
       }
     } else {
       parsed.complexity = this.determineComplexity(parsed);
@@ -62,247 +142,242 @@ export class ReadmeExtractor {
   }
 
   /**
-   * Extract sections from the README content
-   * @param content The README markdown content
+   * Build the section tree from the markdown-it token stream.
+   * Only top-level headings start sections, so headings inside fenced code,
+   * lists or blockquotes are treated as content. Level 1 headings are document
+   * titles and never become sections.
+   * @param tokens Block tokens produced by markdown-it
+   * @param lines The README content split into lines
+   * @param locator Locator for the README content
    * @returns Array of sections with nested subsections
    */
-  private extractSections(content: string): ReadmeSection[] {
+  private extractSections(tokens: Token[], lines: string[], locator: SourceLocator): {
+    sections: ReadmeSection[];
+    codeBlocks: ReadmeCodeBlock[];
+  } {
     const sections: ReadmeSection[] = [];
-    const lines = content.split('\n');
-    
-    let currentSection: ReadmeSection | null = null;
-    let currentSubsection: ReadmeSection | null = null;
-    let currentContent = '';
-    
-    // Helper to save accumulated content to the appropriate section
-    const saveContent = () => {
-      if (currentContent.trim() !== '') {
-        if (currentSubsection) {
-          currentSubsection.content += currentContent;
-        } else if (currentSection) {
-          currentSection.content += currentContent;
-        }
-        currentContent = '';
+    const codeBlocks: ReadmeCodeBlock[] = [];
+    const stack: { section: ReadmeSection; startLine: number }[] = [];
+
+    let current: ReadmeSection | null = null;
+    let bodyStart = 0;
+
+    // Helper to close open sections at or below a heading level
+    const closeSections = (level: number, endLine: number) => {
+      while (stack.length > 0 && stack[stack.length - 1].section.level >= level) {
+        const open = stack.pop()!;
+        open.section.range = locator.lineRange(open.startLine, endLine);
       }
     };
 
-    for (const line of lines) {
-      // Detect headings
-      const h2Match = line.match(/^## (.*?)$/);
-      const h3Match = line.match(/^### (.*?)$/);
-      const h4Match = line.match(/^#### (.*?)$/);
-      
-      if (h2Match) {
-        // Save any accumulated content
-        saveContent();
-        
-        // Create a new top-level section
-        currentSection = {
-          title: h2Match[1].trim(),
-          content: '',
-          subsections: [],
-          level: 2
-        };
-        sections.push(currentSection);
-        currentSubsection = null;
-      } else if (h3Match && currentSection) {
-        // Save any accumulated content
-        saveContent();
-        
-        // Create a new subsection
-        currentSubsection = {
-          title: h3Match[1].trim(),
-          content: '',
-          subsections: [],
-          level: 3
-        };
-        currentSection.subsections.push(currentSubsection);
-      } else if (h4Match && currentSubsection) {
-        // Save any accumulated content
-        saveContent();
-        
-        // Create a new sub-subsection
-        const subSubsection: ReadmeSection = {
-          title: h4Match[1].trim(),
+    // Helper to store the raw body text of the current section
+    const closeBody = (bodyEnd: number) => {
+      if (current) {
+        current.content = lines.slice(bodyStart, bodyEnd).join('\n').trim();
+      }
+    };
+
+    // Helper to record a code block against the section that owns it
+    const addCodeBlock = (token: Token) => {
+      const block = this.extractCodeBlock(token, locator, stack.map(open => open.section.title));
+      codeBlocks.push(block);
+      current?.codeBlocks.push(block);
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      // Code blocks are collected at any nesting depth, e.g. inside blockquotes
+      if (token.type === 'fence' || token.type === 'code_block') {
+        addCodeBlock(token);
+        continue;
+      }
+      if (token.level !== 0) continue;
+
+      if (token.type === 'heading_open') {
+        closeBody(token.map![0]);
+
+        const level = Number(token.tag.slice(1));
+        closeSections(level, token.map![0]);
+        if (level === 1) {
+          current = null;
+          continue;
+        }
+
+        const section: ReadmeSection = {
+          title: tokens[i + 1].content.trim(),
           content: '',
           subsections: [],
-          level: 4
+          level,
+          range: locator.lineRange(token.map![0], token.map![1]),
+          lists: [],
+          tables: [],
+          codeBlocks: [],
+          wireframes: []
         };
-        currentSubsection.subsections.push(subSubsection);
-        // We don't track sub-subsections as current, they just accumulate content
-      } else {
-        // Accumulate content
-        currentContent += line + '\n';
+
+        // Attach to the closest preceding section with a lower heading level
+        if (stack.length > 0) {
+          stack[stack.length - 1].section.subsections.push(section);
+        } else {
+          sections.push(section);
+        }
+        stack.push({ section, startLine: token.map![0] });
+
+        current = section;
+        bodyStart = token.map![1];
+      } else if (!current) {
+        continue;
+      } else if (token.type === 'bullet_list_open' || token.type === 'ordered_list_open') {
+        const { list, end } = this.extractList(tokens, i, locator);
+        current.lists.push(list);
+        tokens.slice(i, end)
+          .filter(t => t.type === 'fence' || t.type === 'code_block')
+          .forEach(addCodeBlock);
+        i = end;
+      } else if (token.type === 'table_open') {
+        const { table, end } = this.extractTable(tokens, i, locator);
+        current.tables.push(table);
+        i = end;
       }
     }
-    
-    // Save any remaining content
-    saveContent();
-    
-    return sections;
+
+    closeBody(lines.length);
+    closeSections(1, lines.length);
+
+    return { sections, codeBlocks };
   }
 
   /**
-   * Extract metadata tags from the README content
-   * @param content The README markdown content
-   * @returns Record of metadata key-value pairs
+   * Build a typed code block from a fence or indented code token
+   * @param token The fence or code_block token
+   * @param locator Locator for the README content
+   * @param sectionPath Titles of the sections enclosing the block, outermost first
+   * @returns The code block with its language, body and position
    */
-  private extractMetadata(content: string): Record<string, string> {
-    const metadata: Record<string, string> = {};
-    const metadataRegex = /<!--\s*ZS:(\w+):(\w+)\s*-->/g;
-    
-    let match;
-    while ((match = metadataRegex.exec(content)) !== null) {
-      const key = match[1];
-      const value = match[2];
-      metadata[`ZS:${key}`] = value;
+  private extractCodeBlock(token: Token, locator: SourceLocator, sectionPath: string[]): ReadmeCodeBlock {
+    const info = token.type === 'fence' ? token.info.trim() : '';
+    return {
+      language: (info.split(/\s+/)[0] || '').toLowerCase(),
+      info,
+      content: token.content,
+      range: locator.lineRange(token.map![0], token.map![1]),
+      sectionPath
+    };
+  }
+
+  /**
+   * Parse the wireframes drawn in code blocks and attach them to their sections
+   * @param sections The sections to process, including all subsections
+   */
+  private attachWireframes(sections: ReadmeSection[]): void {
+    for (const section of this.flattenSections(sections)) {
+      for (const block of section.codeBlocks) {
+        const wireframe = this.wireframeParser.parse(block);
+        if (wireframe) {
+          section.wireframes.push(wireframe);
+        }
+      }
     }
-    
-    return metadata;
   }
 
   /**
-   * Determine the application type and programming languages from the README content
-   * @param parsed The parsed README
-   * @returns Detected app type and languages
+   * Extract a list, including nested lists, starting at a list open token
+   * @param tokens Block tokens produced by markdown-it
+   * @param start Index of the bullet_list_open or ordered_list_open token
+   * @param locator Locator for the README content
+   * @returns The list and the index of its closing token
    */
-  private determineAppTypeAndLanguages(parsed: ParsedReadme): { 
-    appType: AppType; 
-    languages: ProgrammingLanguage[] 
-  } {
-    let appType = AppType.UNKNOWN;
-    const languages: ProgrammingLanguage[] = [];
-    
-    // First check metadata
-    if (parsed.metadata['ZS:PLATFORM']) {
-      switch (parsed.metadata['ZS:PLATFORM']) {
-        case 'WEB':
-          appType = AppType.WEB_APP;
-          break;
-        case 'MOBILE':
-          appType = AppType.MOBILE_APP;
-          break;
-        case 'CLI':
-          appType = AppType.CLI_APP;
-          break;
-        case 'DESKTOP':
-          appType = AppType.DESKTOP_APP;
-          break;
-        case 'API':
-          appType = AppType.API_SERVER;
-          break;
+  private extractList(
+    tokens: Token[],
+    start: number,
+    locator: SourceLocator
+  ): { list: ReadmeList; end: number } {
+    const open = tokens[start];
+    const list: ReadmeList = {
+      ordered: open.type === 'ordered_list_open',
+      items: []
+    };
+
+    let item: ReadmeListItem | null = null;
+    let i = start + 1;
+    for (; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.level === open.level && token.type.endsWith('_list_close')) {
+        break;
+      }
+
+      if (token.type === 'list_item_open' && token.level === open.level + 1) {
+        item = {
+          text: '',
+          children: [],
+          range: locator.lineRange(token.map![0], token.map![1])
+        };
+        list.items.push(item);
+      } else if (!item) {
+        continue;
+      } else if (token.type === 'inline' && token.level === open.level + 3) {
+        // Paragraphs directly inside the item make up its text
+        item.text = item.text ? `${item.text}\n${token.content}` : token.content;
+      } else if (token.type === 'bullet_list_open' || token.type === 'ordered_list_open') {
+        const nested = this.extractList(tokens, i, locator);
+        item.children.push(nested.list);
+        i = nested.end;
       }
     }
-    
-    if (parsed.metadata['ZS:LANGUAGE']) {
-      const lang = parsed.metadata['ZS:LANGUAGE'].toLowerCase();
-      switch (lang) {
-        case 'javascript':
-          languages.push(ProgrammingLanguage.JAVASCRIPT);
-          languages.push(ProgrammingLanguage.HTML);
-          languages.push(ProgrammingLanguage.CSS);
-          break;
-        case 'typescript':
-          languages.push(ProgrammingLanguage.TYPESCRIPT);
-          languages.push(ProgrammingLanguage.HTML);
-          languages.push(ProgrammingLanguage.CSS);
+
+    return { list, end: i };
+  }
+
+  /**
+   * Extract a table starting at a table open token
+   * @param tokens Block tokens produced by markdown-it
+   * @param start Index of the table_open token
+   * @param locator Locator for the README content
+   * @returns The table and the index of its closing token
+   */
+  private extractTable(
+    tokens: Token[],
+    start: number,
+    locator: SourceLocator
+  ): { table: ReadmeTable; end: number } {
+    const open = tokens[start];
+    const table: ReadmeTable = {
+      headers: [],
+      rows: [],
+      range: locator.lineRange(open.map![0], open.map![1])
+    };
+
+    let inHead = false;
+    let row: string[] | null = null;
+    let i = start + 1;
+    for (; i < tokens.length && tokens[i].type !== 'table_close'; i++) {
+      const token = tokens[i];
+      switch (token.type) {
+        case 'thead_open':
+          inHead = true;
           break;
-        case 'python':
-          languages.push(ProgrammingLanguage.PYTHON);
+        case 'thead_close':
+          inHead = false;
           break;
-        case 'java':
-          languages.push(ProgrammingLanguage.JAVA);
+        case 'tr_open':
+          row = [];
           break;
-        case 'csharp':
-        case 'c#':
-          languages.push(ProgrammingLanguage.CSHARP);
+        case 'tr_close':
+          if (row && inHead) {
+            table.headers = row;
+          } else if (row) {
+            table.rows.push(row);
+          }
+          row = null;
           break;
-        case 'go':
-          languages.push(ProgrammingLanguage.GO);
+        case 'inline':
+          row?.push(token.content.trim());
           break;
       }
     }
-    
-    // If metadata didn't provide enough info, try to infer from content
-    if (appType === AppType.UNKNOWN || languages.length === 0) {
-      // Check all content for keywords
-      const fullText = [
-        parsed.title,
-        parsed.description,
-        ...parsed.sections.map(s => s.title + ' ' + s.content + ' ' + 
-          s.subsections.map(ss => ss.title + ' ' + ss.content).join(' '))
-      ].join(' ').toLowerCase();
-      
-      // Detect app type from keywords
-      if (fullText.includes('web') || fullText.includes('browser') || 
-          fullText.includes('html') || fullText.includes('css') ||
-          fullText.includes('javascript') || fullText.includes('frontend')) {
-        appType = AppType.WEB_APP;
-      } else if (fullText.includes('mobile') || fullText.includes('ios') || 
-                fullText.includes('android') || fullText.includes('app')) {
-        appType = AppType.MOBILE_APP;
-      } else if (fullText.includes('cli') || fullText.includes('command line') || 
-                fullText.includes('terminal') || fullText.includes('console')) {
-        appType = AppType.CLI_APP;
-      } else if (fullText.includes('desktop') || fullText.includes('electron') || 
-                fullText.includes('gui') || fullText.includes('windows application')) {
-        appType = AppType.DESKTOP_APP;
-      } else if (fullText.includes('api') || fullText.includes('server') || 
-                fullText.includes('rest') || fullText.includes('backend') ||
-                fullText.includes('endpoint')) {
-        appType = AppType.API_SERVER;
-      }
-      
-      // Detect languages from keywords if not provided in metadata
-      if (languages.length === 0) {
-        if (fullText.includes('typescript')) {
-          languages.push(ProgrammingLanguage.TYPESCRIPT);
-        }
-        if (fullText.includes('javascript')) {
-          languages.push(ProgrammingLanguage.JAVASCRIPT);
-        }
-        if (fullText.includes('html')) {
-          languages.push(ProgrammingLanguage.HTML);
-        }
-        if (fullText.includes('css')) {
-          languages.push(ProgrammingLanguage.CSS);
-        }
-        if (fullText.includes('python')) {
-          languages.push(ProgrammingLanguage.PYTHON);
-        }
-        if (fullText.includes('java ') || fullText.includes('java.')) {
-          languages.push(ProgrammingLanguage.JAVA);
-        }
-        if (fullText.includes('c#') || fullText.includes('csharp') || fullText.includes('.net')) {
-          languages.push(ProgrammingLanguage.CSHARP);
-        }
-        if (fullText.includes('golang') || fullText.includes(' go ')) {
-          languages.push(ProgrammingLanguage.GO);
-        }
-      }
-      
-      // Default to web app with JavaScript if still unknown
-      if (appType === AppType.UNKNOWN) {
-        appType = AppType.WEB_APP;
-      }
-      
-      if (languages.length === 0) {
-        // For web apps, default to JavaScript, HTML, CSS
-        if (appType === AppType.WEB_APP) {
-          languages.push(ProgrammingLanguage.JAVASCRIPT);
-          languages.push(ProgrammingLanguage.HTML);
-          languages.push(ProgrammingLanguage.CSS);
-        } else {
-          // Default to JavaScript for other app types
-          languages.push(ProgrammingLanguage.JAVASCRIPT);
-        }
-      }
-    }
-    
-    return {
-      appType,
-      languages
-    };
+
+    return { table, end: i };
   }
 
   /**
@@ -311,35 +386,8 @@ export class ReadmeExtractor {
    * @returns Estimated complexity level
    */
   private determineComplexity(parsed: ParsedReadme): 'LOW' | 'MEDIUM' | 'HIGH' {
-    // Count the number of features and technical details
-    let featureCount = 0;
-    let technicalDetailCount = 0;
-    
-    // Look for functionality section
-    const functionalitySection = parsed.sections.find(s => s.title === 'Functionality');
-    if (functionalitySection) {
-      // Count features in subsections
-      const featuresSection = functionalitySection.subsections.find(
-        s => s.title.includes('Features') || s.title.includes('Capabilities')
-      );
-      
-      if (featuresSection) {
-        // Count bullet points as features
-        featureCount = (featuresSection.content.match(/^[ \t]*[-*][ \t]/gm) || []).length;
-      }
-    }
-    
-    // Look for technical implementation section
-    const technicalSection = parsed.sections.find(s => s.title === 'Technical Implementation');
-    if (technicalSection) {
-      // Count the number of subsections as technical details
-      technicalDetailCount = technicalSection.subsections.length;
-      
-      // Also count code blocks as technical details
-      const codeBlockCount = (technicalSection.content.match(/```/g) || []).length / 2;
-      technicalDetailCount += codeBlockCount;
-    }
-    
+    const { featureCount, technicalDetailCount } = complexityCounts(parsed);
+
     // Determine complexity based on counts
     const totalComplexityScore = featureCount + technicalDetailCount * 2;
     
@@ -351,4 +399,13 @@ export class ReadmeExtractor {
       return 'HIGH';
     }
   }
+
+  /**
+   * Flatten a section tree into a depth-first list of sections
+   * @param sections The sections to flatten
+   * @returns Every section and subsection in document order
+   */
+  private flattenSections(sections: ReadmeSection[]): ReadmeSection[] {
+    return sections.flatMap(s => [s, ...this.flattenSections(s.subsections)]);
+  }
 }
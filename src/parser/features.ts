@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import { Feature, ReadmeList, ReadmeListItem, ReadmeSection } from '../types/index.js';
+
+/**
+ * Section titles whose bullets are feature requirements
+ */
+const FEATURE_TITLE = /\b(features?|capabilities|interactions?|user stories)\b/i;
+
+/**
+ * Extracts feature and interaction bullets into traceable Feature records.
+ * IDs are derived only from the README text, so they stay the same across
+ * runs as long as the requirement itself is unchanged.
+ */
+export class FeatureExtractor {
+  /**
+   * Extract features from every Features, Capabilities and Interactions section
+   * @param sections Top-level sections of the parsed README
+   * @returns Features in document order
+   */
+  public extract(sections: ReadmeSection[]): Feature[] {
+    const features: Feature[] = [];
+    this.walk(sections, [], false, features);
+    return features;
+  }
+
+  /**
+   * Walk the section tree, collecting bullets below feature sections
+   */
+  private walk(
+    sections: ReadmeSection[],
+    parentPath: string[],
+    inFeatureSection: boolean,
+    features: Feature[]
+  ): void {
+    for (const section of sections) {
+      const sectionPath = [...parentPath, section.title];
+      const isFeatureSection = inFeatureSection || FEATURE_TITLE.test(section.title);
+
+      if (isFeatureSection) {
+        const kind = sectionPath.some(title => /interaction/i.test(title)) ? 'interaction' : 'feature';
+        for (const list of section.lists) {
+          for (const item of list.items) {
+            features.push(this.createFeature(item, sectionPath, kind, features));
+          }
+        }
+      }
+
+      this.walk(section.subsections, sectionPath, isFeatureSection, features);
+    }
+  }
+
+  /**
+   * Build a feature from a top-level list item and its nested bullets
+   */
+  private createFeature(
+    item: ReadmeListItem,
+    sectionPath: string[],
+    kind: Feature['kind'],
+    existing: Feature[]
+  ): Feature {
+    const text = item.text.trim();
+    const acceptanceCriteria = this.flattenItems(item.children);
+
+    return {
+      id: this.createId(text, sectionPath, acceptanceCriteria, existing),
+      text,
+      kind,
+      sectionPath,
+      acceptanceCriteria,
+      range: item.range
+    };
+  }
+
+  /**
+   * Derive a readable, stable ID such as `core-features.delete-tasks-1a2b3c`
+   */
+  private createId(
+    text: string,
+    sectionPath: string[],
+    acceptanceCriteria: string[],
+    existing: Feature[]
+  ): string {
+    const hash = createHash('sha1')
+      .update([sectionPath.join(' > '), text, ...acceptanceCriteria].map(s => this.normalize(s)).join('\n'))
+      .digest('hex')
+      .slice(0, 6);
+
+    const words = this.slugify(text).split('-').slice(0, 5).join('-');
+    const base = `${this.slugify(sectionPath[sectionPath.length - 1])}.${words}-${hash}`;
+
+    // Identical bullets in the same section get a numeric suffix
+    let id = base;
+    for (let i = 2; existing.some(feature => feature.id === id); i++) {
+      id = `${base}-${i}`;
+    }
+    return id;
+  }
+
+  /**
+   * Collect the text of nested items at every depth
+   */
+  private flattenItems(lists: ReadmeList[]): string[] {
+    return lists.flatMap(list =>
+      list.items.flatMap(item => [item.text.trim(), ...this.flattenItems(item.children)])
+    );
+  }
+
+  /**
+   * Normalize text so that formatting changes do not change IDs
+   */
+  private normalize(text: string): string {
+    return text.replace(/[`*_~]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+  }
+
+  /**
+   * Convert text to a lowercase, hyphen-separated slug
+   */
+  private slugify(text: string): string {
+    return this.normalize(text).replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'item';
+  }
+}
@@ -0,0 +1,402 @@
+import MarkdownIt from 'markdown-it';
+import { HeadingConventions, ParsedReadme, SpecSchema } from '../types/index.js';
+import { ReadmeExtractor } from './extractor.js';
+import { MetadataExtractor } from './metadata.js';
+import { ReadmeClassifier } from './classifier.js';
+import { SourceLocator } from './locator.js';
+import { findSectionPath } from './rules.js';
+import { specSchema } from './schemas.js';
+
+/**
+ * Top-level sections in the order the Zero Source specification lists them.
+ * Sections not listed here stay after the section they follow.
+ */
+const CANONICAL_ORDER = [
+  'description',
+  'functionality',
+  'technical implementation',
+  'style guide',
+  'accessibility requirements',
+  'testing scenarios',
+  'performance goals',
+  'security considerations',
+  'extended features'
+];
+
+/**
+ * Placeholder text for skeleton sections
+ */
+const SKELETONS: Record<string, string> = {
+  description: 'TODO: Describe what the application does and who it is for.',
+  functionality: 'TODO: Summarize how the application behaves.',
+  'core features': '- TODO: List the main features',
+  'user interface': 'TODO: Describe the screens, layout and controls.',
+  'technical implementation': 'TODO: Summarize how the application is built.',
+  architecture: 'TODO: Describe the main components and how they fit together.',
+  'data structures': 'TODO: Describe the data the application stores.',
+  'data model': 'TODO: Describe the entities the application stores and their fields.'
+};
+
+/**
+ * Subsections added to a required section that has none
+ */
+const SKELETON_SUBSECTIONS: Record<string, string[]> = {
+  functionality: ['Core Features', 'User Interface'],
+  'technical implementation': ['Architecture', 'Data Structures']
+};
+
+/**
+ * A ZS metadata comment on a line of its own
+ */
+const METADATA_LINE = /^\s*<!--\s*ZS:[\s\S]*-->\s*$/;
+
+/**
+ * A top-level section and the lines that belong to it
+ */
+interface SectionBlock {
+  title: string;
+  lines: string[];
+  /** True for skeleton sections added by the fixer */
+  added?: boolean;
+}
+
+/**
+ * Rewrites a README so it passes the structural rules of its spec version:
+ * heading levels are normalized, renamed sections get their new titles,
+ * missing sections are added as skeletons, top-level sections are put in
+ * canonical order and missing ZS metadata is filled in from what the
+ * extractor infers.
+ */
+export class ReadmeFixer {
+  private md: MarkdownIt;
+  private extractor: ReadmeExtractor;
+  private metadataExtractor: MetadataExtractor;
+  private classifier: ReadmeClassifier;
+
+  constructor() {
+    this.md = new MarkdownIt();
+    this.extractor = new ReadmeExtractor();
+    this.metadataExtractor = new MetadataExtractor();
+    this.classifier = new ReadmeClassifier();
+  }
+
+  /**
+   * Fix a README
+   * @param content The README markdown content
+   * @param options.schema Spec schema to fix against; defaults to the version the README declares
+   * @param options.requiredSections Sections to add when missing, as `/` separated paths;
+   *        defaults to the schema's required sections
+   * @returns The corrected content and a description of each change
+   */
+  public fix(
+    content: string,
+    options: { schema?: SpecSchema; requiredSections?: string[] } = {}
+  ): { content: string; changes: string[] } {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const changes: string[] = [];
+
+    const { frontMatterLines, specVersion } = this.metadataExtractor.extract(content, new SourceLocator(content));
+    const schema = options.schema ?? specSchema(specVersion);
+    const lines = this.normalizeHeadings(content.split(/\r?\n/), frontMatterLines, schema.headings, changes);
+    let parsed = this.extractor.extract(lines.join('\n'));
+    if (this.renameSections(lines, parsed, schema, changes)) {
+      parsed = this.extractor.extract(lines.join('\n'));
+    }
+    const { preamble, blocks, trailer } = this.splitBlocks(lines, parsed);
+
+    if (!parsed.title) {
+      preamble.splice(frontMatterLines, 0, '# Project Title', '');
+      changes.push('Added a placeholder project title');
+    }
+
+    if (schema.descriptionSection) {
+      this.moveDescription(parsed, preamble, blocks, changes);
+    }
+    this.addMissingSections(parsed, blocks, options.requiredSections ?? schema.requiredSections, changes);
+    const ordered = this.orderBlocks(blocks, changes);
+    this.addMetadata(parsed, schema, trailer, changes);
+
+    const output = [
+      ...this.trimEnd(preamble),
+      ...ordered.flatMap(block => ['', ...this.trimEnd(block.lines)]),
+      ...(trailer.length > 0 ? ['', ...trailer] : [])
+    ];
+    while (output[0] === '') {
+      output.shift();
+    }
+
+    return { content: output.join(eol) + eol, changes };
+  }
+
+  /**
+   * Put the project title first and give every other heading the level that
+   * matches its depth: top-level sections become `##`, their subsections `###`
+   * and so on, whatever levels the author used, up to the deepest level the
+   * spec version allows
+   */
+  private normalizeHeadings(
+    lines: string[],
+    frontMatterLines: number,
+    conventions: HeadingConventions,
+    changes: string[]
+  ): string[] {
+    const body = lines.map((line, i) => (i < frontMatterLines ? '' : line));
+    const headings = this.md.parse(body.join('\n'), {})
+      .filter(t => t.type === 'heading_open' && t.level === 0 && t.map)
+      .map(t => ({ line: t.map![0], level: Number(t.tag.slice(1)) }))
+      .filter(h => /^ {0,3}#{1,6}(\s|$)/.test(lines[h.line]));
+
+    const result = [...lines];
+    const title = headings.find(h => h.level === 1);
+    const stack: number[] = [];
+
+    for (const heading of headings) {
+      if (heading === title) continue;
+
+      while (stack.length > 0 && stack[stack.length - 1] >= heading.level) {
+        stack.pop();
+      }
+      const target = Math.min(conventions.maxLevel, conventions.sectionLevel + stack.length);
+      stack.push(heading.level);
+
+      if (target !== heading.level) {
+        result[heading.line] = lines[heading.line].replace(/^( {0,3})#{1,6}/, `$1${'#'.repeat(target)}`);
+        changes.push(`Changed heading "${this.headingText(lines[heading.line])}" from level ${heading.level} to ${target}`);
+      }
+    }
+
+    // The title belongs above everything but front matter
+    const firstHeading = headings[0];
+    if (title && firstHeading && firstHeading !== title) {
+      const [titleLine] = result.splice(title.line, 1);
+      result.splice(firstHeading.line, 0, titleLine, '');
+      changes.push(`Moved the project title "${this.headingText(titleLine)}" to the top`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Give sections renamed in the spec version their new titles
+   * @returns Whether any heading was changed
+   */
+  private renameSections(lines: string[], parsed: ParsedReadme, schema: SpecSchema, changes: string[]): boolean {
+    let renamed = false;
+
+    for (const [oldPath, title] of Object.entries(schema.renamedSections)) {
+      const { section } = findSectionPath(parsed.sections, oldPath);
+      if (!section) continue;
+
+      const index = section.range.start.line - 1;
+      lines[index] = lines[index].replace(/^( {0,3}#{1,6}\s+).*$/, `$1${title}`);
+      changes.push(`Renamed section "${oldPath}" to "${title}"`);
+      renamed = true;
+    }
+
+    return renamed;
+  }
+
+  /**
+   * Cut the lines into the part before the first section, one block per
+   * top-level section, and the ZS metadata comments at the very end
+   */
+  private splitBlocks(lines: string[], parsed: ParsedReadme): {
+    preamble: string[];
+    blocks: SectionBlock[];
+    trailer: string[];
+  } {
+    const starts = parsed.sections.map(s => s.range.start.line - 1);
+    const preamble = lines.slice(0, starts.length > 0 ? starts[0] : lines.length);
+    const blocks = parsed.sections.map((section, i) => ({
+      title: section.title,
+      lines: lines.slice(starts[i], i + 1 < starts.length ? starts[i + 1] : lines.length)
+    }));
+
+    // Metadata comments closing the file stay at the end when sections move
+    const last = blocks.length > 0 ? blocks[blocks.length - 1].lines : preamble;
+    const trailer: string[] = [];
+    while (last.length > 0 && (last[last.length - 1].trim() === '' || METADATA_LINE.test(last[last.length - 1]))) {
+      const line = last.pop()!;
+      if (line.trim() !== '') {
+        trailer.unshift(line);
+      }
+    }
+
+    return { preamble, blocks, trailer };
+  }
+
+  /**
+   * Move the text below the title into a Description section. Metadata
+   * comments stay where they are.
+   */
+  private moveDescription(
+    parsed: ParsedReadme,
+    preamble: string[],
+    blocks: SectionBlock[],
+    changes: string[]
+  ): void {
+    const { section } = findSectionPath(parsed.sections, 'Description');
+    if (parsed.description.trim() === '' || section || !parsed.titleRange) {
+      return;
+    }
+
+    const intro = preamble.splice(parsed.titleRange.end.line);
+    const metadata = intro.filter(line => METADATA_LINE.test(line));
+    if (metadata.length > 0) {
+      preamble.push('', ...metadata);
+    }
+
+    const text = this.trimEnd(intro.filter(line => !METADATA_LINE.test(line)));
+    while (text.length > 0 && text[0].trim() === '') {
+      text.shift();
+    }
+
+    blocks.unshift({ title: 'Description', lines: ['## Description', '', ...text], added: true });
+    changes.push('Moved the text below the title into a Description section');
+  }
+
+  /**
+   * Add skeletons for a missing description, missing required sections and
+   * required sections without subsections
+   */
+  private addMissingSections(
+    parsed: ParsedReadme,
+    blocks: SectionBlock[],
+    requiredSections: string[],
+    changes: string[]
+  ): void {
+    const { section: description } = findSectionPath(parsed.sections, 'Description');
+    if (parsed.description.trim() === '' && !description) {
+      blocks.push({ title: 'Description', lines: ['## Description', '', SKELETONS.description], added: true });
+      changes.push('Added the Description section');
+    }
+
+    for (const sectionPath of requiredSections) {
+      const [parentTitle, childTitle, ...deeper] = sectionPath.split('/').map(p => p.trim()).filter(Boolean);
+      if (!parentTitle || deeper.length > 0) {
+        changes.push(`Skipped required section "${sectionPath}": only two heading levels can be added`);
+        continue;
+      }
+
+      let block = blocks.find(b => b.title.trim().toLowerCase() === parentTitle.toLowerCase());
+      if (!block) {
+        block = {
+          title: parentTitle,
+          lines: [`## ${parentTitle}`, '', SKELETONS[parentTitle.toLowerCase()] ?? 'TODO: Fill in this section.'],
+          added: true
+        };
+        blocks.push(block);
+        changes.push(`Added the ${parentTitle} section`);
+      }
+
+      if (childTitle) {
+        const { section } = findSectionPath(parsed.sections, sectionPath);
+        const added = block.lines.some(line => line.trim().toLowerCase() === `### ${childTitle.toLowerCase()}`);
+        if (!section && !added) {
+          this.appendSubsection(block, childTitle);
+          changes.push(`Added the ${childTitle} subsection to ${parentTitle}`);
+        }
+      }
+    }
+
+    // Required sections are expected to be broken down further
+    for (const block of blocks) {
+      const skeleton = SKELETON_SUBSECTIONS[block.title.trim().toLowerCase()];
+      const hasSubsection = block.lines.slice(1).some(line => /^ {0,3}#{3,6}\s/.test(line));
+      if (skeleton && !hasSubsection) {
+        skeleton.forEach(title => this.appendSubsection(block, title));
+        changes.push(`Added ${skeleton.join(' and ')} subsections to ${block.title}`);
+      }
+    }
+  }
+
+  /**
+   * Append a `###` subsection with placeholder text to a block
+   */
+  private appendSubsection(block: SectionBlock, title: string): void {
+    block.lines = [
+      ...this.trimEnd(block.lines),
+      '',
+      `### ${title}`,
+      '',
+      SKELETONS[title.toLowerCase()] ?? 'TODO: Fill in this section.'
+    ];
+  }
+
+  /**
+   * Sort top-level sections into canonical order. Sections outside the
+   * canonical list keep their place after the section they follow.
+   */
+  private orderBlocks(blocks: SectionBlock[], changes: string[]): SectionBlock[] {
+    let rank = -1;
+    const ranked = blocks.map((block, index) => {
+      const canonical = CANONICAL_ORDER.indexOf(block.title.trim().toLowerCase());
+      if (canonical !== -1) {
+        rank = canonical;
+      }
+      return { block, rank: canonical !== -1 ? canonical : rank, index };
+    });
+
+    const ordered = [...ranked].sort((a, b) => a.rank - b.rank || a.index - b.index);
+
+    // Placing new skeletons is not a reorder; moving the author's sections is
+    const original = (entries: typeof ranked) => entries.filter(e => !e.block.added).map(e => e.index).join();
+    if (original(ordered) !== original(ranked)) {
+      changes.push(`Reordered sections: ${ordered.map(e => e.block.title).join(', ')}`);
+    }
+    return ordered.map(entry => entry.block);
+  }
+
+  /**
+   * Add ZS metadata comments for keys the README does not set, using what
+   * the extractor inferred. The platform is only added when the
+   * classification is certain.
+   */
+  private addMetadata(parsed: ParsedReadme, schema: SpecSchema, trailer: string[], changes: string[]): void {
+    const values = parsed.metadata.values;
+
+    if (!values.SPEC_VERSION && schema.requiredMetadata.includes('SPEC_VERSION')) {
+      trailer.push(`<!-- ZS:SPEC_VERSION:${schema.version} -->`);
+      changes.push(`Added ZS:SPEC_VERSION:${schema.version}`);
+    }
+
+    if (!values.PLATFORM && parsed.appType) {
+      const platform = this.classifier.platformOfAppType(parsed.appType);
+      if (platform && !parsed.classification?.uncertain) {
+        trailer.push(`<!-- ZS:PLATFORM:${platform} -->`);
+        changes.push(`Added ZS:PLATFORM:${platform}`);
+      } else {
+        changes.push('Did not add ZS:PLATFORM: the application type is uncertain');
+      }
+    }
+
+    const language = parsed.languages?.[0];
+    if (!values.LANGUAGE && language) {
+      trailer.push(`<!-- ZS:LANGUAGE:${language.toUpperCase()} -->`);
+      changes.push(`Added ZS:LANGUAGE:${language.toUpperCase()}`);
+    }
+
+    if (!values.COMPLEXITY && parsed.complexity) {
+      trailer.push(`<!-- ZS:COMPLEXITY:${parsed.complexity} -->`);
+      changes.push(`Added ZS:COMPLEXITY:${parsed.complexity}`);
+    }
+  }
+
+  /**
+   * Get the text of an ATX heading line
+   */
+  private headingText(line: string): string {
+    return line.replace(/^ {0,3}#{1,6}\s*/, '').replace(/\s+#+\s*$/, '').trim();
+  }
+
+  /**
+   * Drop trailing blank lines
+   */
+  private trimEnd(lines: string[]): string[] {
+    const result = [...lines];
+    while (result.length > 0 && result[result.length - 1].trim() === '') {
+      result.pop();
+    }
+    return result;
+  }
+}
@@ -0,0 +1,136 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ValidationDiagnostic, SourceRange } from '../types/index.js';
+
+/**
+ * A line-level include directive, e.g. `<!-- ZS:INCLUDE:specs/data-model.md -->`
+ */
+const INCLUDE_DIRECTIVE = /^\s*<!--\s*ZS:INCLUDE\s*:\s*(.+?)\s*-->\s*$/i;
+
+/**
+ * Where a line of the combined README originally came from
+ */
+interface LineOrigin {
+  file: string;
+  line: number;
+}
+
+/**
+ * Resolves `ZS:INCLUDE` directives by splicing the referenced markdown files
+ * into the including README. Paths are relative to the including file and
+ * include cycles are reported instead of followed.
+ */
+export class IncludeResolver {
+  /**
+   * Read a README and splice in every file it includes, recursively
+   * @param filePath Path to the root README file
+   * @returns The combined content, the origin of each of its lines, and any
+   *          problems with include directives
+   */
+  public async resolve(filePath: string): Promise<{
+    content: string;
+    origins: LineOrigin[];
+    diagnostics: ValidationDiagnostic[];
+  }> {
+    const lines: string[] = [];
+    const origins: LineOrigin[] = [];
+    const diagnostics: ValidationDiagnostic[] = [];
+
+    await this.splice(path.resolve(filePath), [], lines, origins, diagnostics);
+
+    return { content: lines.join('\n'), origins, diagnostics };
+  }
+
+  /**
+   * Point ranges in the combined content back at the files they came from
+   * @param diagnostics Diagnostics whose ranges are updated in place
+   * @param origins Line origins returned by resolve
+   */
+  public remap(diagnostics: ValidationDiagnostic[], origins: LineOrigin[]): void {
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.range && !diagnostic.range.file) {
+        diagnostic.range = this.remapRange(diagnostic.range, origins);
+      }
+    }
+  }
+
+  /**
+   * Map a range in the combined content to its original file and lines
+   */
+  private remapRange(range: SourceRange, origins: LineOrigin[]): SourceRange {
+    const start = origins[range.start.line - 1];
+    if (!start) {
+      return range;
+    }
+
+    // Ranges crossing into another file are cut at the end of the first one
+    const end = origins[range.end.line - 1];
+    const endLine = end && end.file === start.file ? end.line : start.line;
+
+    return {
+      start: { line: start.line, column: range.start.column },
+      end: { line: endLine, column: end && end.file === start.file ? range.end.column : range.start.column },
+      file: start.file
+    };
+  }
+
+  /**
+   * Append a file's lines to the output, expanding its include directives
+   */
+  private async splice(
+    file: string,
+    stack: string[],
+    lines: string[],
+    origins: LineOrigin[],
+    diagnostics: ValidationDiagnostic[]
+  ): Promise<void> {
+    const content = await fs.readFile(file, 'utf-8');
+    const fileLines = content.split(/\r?\n/);
+    const includeStack = [...stack, file];
+    let fence: string | null = null;
+
+    for (let i = 0; i < fileLines.length; i++) {
+      const line = fileLines[i];
+
+      // Directives inside fenced code are examples, not includes
+      const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+      if (fenceMatch && (fence === null || fenceMatch[1].startsWith(fence))) {
+        fence = fence === null ? fenceMatch[1] : null;
+      }
+
+      const directive = fence === null ? line.match(INCLUDE_DIRECTIVE) : null;
+      if (!directive) {
+        lines.push(line);
+        origins.push({ file, line: i + 1 });
+        continue;
+      }
+
+      const range: SourceRange = {
+        start: { line: i + 1, column: 1 },
+        end: { line: i + 1, column: Math.max(1, line.length) },
+        file
+      };
+      const target = path.resolve(path.dirname(file), directive[1]);
+
+      if (includeStack.includes(target)) {
+        const cycle = [...includeStack.slice(includeStack.indexOf(target)), target]
+          .map(p => path.relative(path.dirname(includeStack[0]), p) || path.basename(p));
+        diagnostics.push({
+          ruleId: 'include-cycle',
+          severity: 'error',
+          message: `Include cycle detected: ${cycle.join(' -> ')}`,
+          range
+        });
+      } else if (!await fs.pathExists(target)) {
+        diagnostics.push({
+          ruleId: 'include-not-found',
+          severity: 'error',
+          message: `Included file not found: ${directive[1]}`,
+          range
+        });
+      } else {
+        await this.splice(target, includeStack, lines, origins, diagnostics);
+      }
+    }
+  }
+}
@@ -1,6 +1,24 @@
 import { ReadmeValidator } from './validator.js';
 import { ReadmeExtractor } from './extractor.js';
-import { ParsedReadme, ValidationResult } from '../types/index.js';
+import { IncludeResolver } from './includes.js';
+import { ConfigLoader } from './config.js';
+import { ReadmeFixer } from './fixer.js';
+import { UnifiedDiff } from './diff.js';
+import { SpecMigrator } from './migrator.js';
+import { ValidationReporter } from './reporter.js';
+import { QualityScorer } from './quality.js';
+import { requiredSectionPaths } from './rules.js';
+import { CURRENT_SPEC_VERSION, specSchema } from './schemas.js';
+import {
+  FixResult,
+  MigrationResult,
+  ParsedReadme,
+  QualityReport,
+  SpecSchema,
+  ValidationResult,
+  ValidationRule,
+  ValidatorConfig
+} from '../types/index.js';
 import fs from 'fs-extra';
 import path from 'path';
 
@@ -10,14 +28,27 @@ import path from 'path';
 export class ReadmeParser {
   private validator: ReadmeValidator;
   private extractor: ReadmeExtractor;
+  private includeResolver: IncludeResolver;
+  private configLoader: ConfigLoader;
+  private fixer: ReadmeFixer;
+  private diff: UnifiedDiff;
+  private migrator: SpecMigrator;
+  private scorer: QualityScorer;
 
   constructor() {
     this.validator = new ReadmeValidator();
     this.extractor = new ReadmeExtractor();
+    this.includeResolver = new IncludeResolver();
+    this.configLoader = new ConfigLoader();
+    this.fixer = new ReadmeFixer();
+    this.diff = new UnifiedDiff();
+    this.migrator = new SpecMigrator();
+    this.scorer = new QualityScorer();
   }
 
   /**
-   * Parse a README file from a file path
+   * Parse a README file from a file path, splicing in any ZS:INCLUDE files
+   * and validating it with the project's `.tinsrc.json` rules
    * @param filePath Path to the README.md file
    * @returns Structured representation of the README
    * @throws Error if the file cannot be read or parsed
@@ -30,9 +61,19 @@ export class ReadmeParser {
         throw new Error(`File not found: ${filePath}`);
       }
 
-      // Read file content
-      const content = await fs.readFile(filePath, 'utf-8');
-      return this.parseContent(content);
+      // Read file content, including any files it pulls in
+      const resolved = await this.includeResolver.resolve(filePath);
+      const { config, diagnostics: configDiagnostics } = await this.configLoader.load(path.dirname(filePath));
+      const readErrors = [...resolved.diagnostics, ...configDiagnostics].filter(d => d.severity === 'error');
+      if (readErrors.length > 0) {
+        throw new Error(readErrors
+          .map(d => `${d.message} (${d.range!.file}:${d.range!.start.line})`)
+          .join(', '));
+      }
+
+      const parsed = this.parseContent(resolved.content, config);
+      this.includeResolver.remap(parsed.diagnostics, resolved.origins);
+      return parsed;
     } catch (error) {
       if (error instanceof Error) {
         throw new Error(`Failed to parse README file: ${error.message}`);
@@ -45,21 +86,64 @@ export class ReadmeParser {
   /**
    * Parse README content from a string
    * @param content The README markdown content
+   * @param config Project config changing rule severities and options
    * @returns Structured representation of the README
+   * @throws Error if any rule reports an error
    */
-  public parseContent(content: string): ParsedReadme {
-    // Validate content first
-    const validationResult = this.validator.validateContent(content);
+  public parseContent(content: string, config?: ValidatorConfig): ParsedReadme {
+    // Extract structured information
+    const parsed = this.extractor.extract(content);
+
+    // Refuse READMEs that break error-level rules
+    const validationResult = this.validator.validate(parsed, config);
     if (!validationResult.valid && validationResult.errors.length > 0) {
       throw new Error(`Invalid README format: ${validationResult.errors.join(', ')}`);
     }
 
-    // Extract structured information
-    return this.extractor.extract(content);
+    return parsed;
+  }
+
+  /**
+   * Rate how completely a README file specifies the application, including
+   * any ZS:INCLUDE files. Unlike parseFile, READMEs that fail validation can
+   * still be scored.
+   * @param filePath Path to the README.md file
+   * @returns The quality report
+   * @throws Error if the file cannot be read
+   */
+  public async scoreFile(filePath: string): Promise<QualityReport> {
+    try {
+      const exists = await fs.pathExists(filePath);
+      if (!exists) {
+        throw new Error(`File not found: ${filePath}`);
+      }
+
+      const resolved = await this.includeResolver.resolve(filePath);
+      return this.score(this.extractor.extract(resolved.content));
+    } catch (error) {
+      throw new Error(`Failed to score README file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Rate how completely a parsed README specifies the application
+   * @param parsed The parsed README structure
+   * @returns The quality report
+   */
+  public score(parsed: ParsedReadme): QualityReport {
+    return this.scorer.score(parsed);
   }
 
   /**
-   * Validate a README file against the Zero Source specification
+   * Get every rule validation runs, whatever its configured severity
+   */
+  public getRules(): ValidationRule[] {
+    return this.validator.getRules();
+  }
+
+  /**
+   * Validate a README file, including any ZS:INCLUDE files, against the
+   * Zero Source specification and the project's `.tinsrc.json` rules
    * @param filePath Path to the README.md file
    * @returns Validation result with any errors or warnings
    */
@@ -71,21 +155,134 @@ export class ReadmeParser {
         return {
           valid: false,
           errors: [`File not found: ${filePath}`],
-          warnings: []
+          warnings: [],
+          diagnostics: [{
+            ruleId: 'file-not-found',
+            severity: 'error',
+            message: `File not found: ${filePath}`
+          }]
         };
       }
 
-      // Read file content
-      const content = await fs.readFile(filePath, 'utf-8');
-      return this.validator.validateContent(content);
+      // Read file content, including any files it pulls in
+      const resolved = await this.includeResolver.resolve(filePath);
+      const { config, diagnostics: configDiagnostics } = await this.configLoader.load(path.dirname(filePath));
+      const result = this.validator.validate(this.extractor.extract(resolved.content), config);
+      this.includeResolver.remap(result.diagnostics, resolved.origins);
+
+      // Problems with include directives and the config come first, as they affect everything else
+      for (const diagnostic of [...resolved.diagnostics, ...configDiagnostics].reverse()) {
+        result.diagnostics.unshift(diagnostic);
+        if (diagnostic.severity === 'error') {
+          result.valid = false;
+          result.errors.unshift(diagnostic.message);
+        }
+      }
+      return result;
     } catch (error) {
+      const message = `Failed to validate README file: ${error instanceof Error ? error.message : 'Unknown error'}`;
       return {
         valid: false,
-        errors: [`Failed to validate README file: ${error instanceof Error ? error.message : 'Unknown error'}`],
-        warnings: []
+        errors: [message],
+        warnings: [],
+        diagnostics: [{ ruleId: 'read-error', severity: 'error', message }]
       };
     }
   }
+
+  /**
+   * Fix the structure of a README file against its spec version: heading
+   * levels, renamed and missing sections, section order and missing ZS metadata
+   * @param filePath Path to the README.md file
+   * @param options Set `write` to save the corrected README over the original
+   * @returns The corrected README, a unified diff and its validation
+   * @throws Error if the file cannot be read or written, or uses ZS:INCLUDE
+   */
+  public async fixFile(filePath: string, options: { write?: boolean } = {}): Promise<FixResult> {
+    try {
+      return await this.rewriteFile(filePath, options.write === true, 'fixed', (content, config) => {
+        const schema = specSchema(this.extractor.extract(content).specVersion);
+        return this.fixer.fix(content, { schema, requiredSections: this.configuredSections(config, schema) });
+      });
+    } catch (error) {
+      throw new Error(`Failed to fix README file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Migrate a README file to a newer spec version
+   * @param filePath Path to the README.md file
+   * @param options `targetVersion` defaults to the current spec version; set
+   *        `write` to save the migrated README over the original
+   * @returns The migrated README, a unified diff and its validation
+   * @throws Error if the file cannot be read or written, uses ZS:INCLUDE, or
+   *         the target version is unknown or older than the README's
+   */
+  public async migrateFile(
+    filePath: string,
+    options: { targetVersion?: string; write?: boolean } = {}
+  ): Promise<MigrationResult> {
+    const targetVersion = options.targetVersion ?? CURRENT_SPEC_VERSION;
+    try {
+      return await this.rewriteFile(filePath, options.write === true, 'migrated', (content, config) =>
+        this.migrator.migrate(content, targetVersion, this.configuredSections(config, specSchema(targetVersion))));
+    } catch (error) {
+      throw new Error(`Failed to migrate README file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Rewrite a README file, diffing the result against the original and
+   * validating it with the project config
+   * @param action How the README is rewritten, for error messages
+   * @param transform Produces the new content and a description of each change
+   */
+  private async rewriteFile<T extends { content: string; changes: string[] }>(
+    filePath: string,
+    write: boolean,
+    action: string,
+    transform: (content: string, config: ValidatorConfig) => T
+  ): Promise<T & { diff: string; written: boolean; validation: ValidationResult }> {
+    const exists = await fs.pathExists(filePath);
+    if (!exists) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+
+    // Sections may live in included files, which cannot be rewritten from here
+    const resolved = await this.includeResolver.resolve(filePath);
+    if (resolved.origins.some(origin => origin.file !== resolved.origins[0]?.file)) {
+      throw new Error(`READMEs that use ZS:INCLUDE cannot be ${action} automatically`);
+    }
+
+    const content = await fs.readFile(filePath, 'utf8');
+    const { config } = await this.configLoader.load(path.dirname(filePath));
+    const result = transform(content, config);
+
+    const name = path.basename(filePath);
+    const diff = this.diff.create(content, result.content, `a/${name}`, `b/${name}`);
+
+    const written = write && diff !== '';
+    if (written) {
+      await fs.writeFile(filePath, result.content, 'utf8');
+    }
+
+    return {
+      ...result,
+      diff,
+      written,
+      validation: this.validator.validate(this.extractor.extract(result.content), config)
+    };
+  }
+
+  /**
+   * Get the sections the project config requires for a spec version
+   */
+  private configuredSections(config: ValidatorConfig, schema: SpecSchema): string[] {
+    const setting = config.rules['required-sections'];
+    return setting === 'off'
+      ? []
+      : requiredSectionPaths(typeof setting === 'object' ? setting.options ?? {} : {}, schema);
+  }
 }
 
-export { ReadmeValidator, ReadmeExtractor };
+export { ReadmeValidator, ReadmeExtractor, IncludeResolver, ConfigLoader, ReadmeFixer, UnifiedDiff, SpecMigrator, ValidationReporter, QualityScorer };
@@ -0,0 +1,70 @@
+import { SourcePosition, SourceRange } from '../types/index.js';
+
+/**
+ * Converts offsets and line indexes in a README into source positions.
+ * Lines and columns in the produced positions are 1-based.
+ */
+export class SourceLocator {
+  private lines: string[];
+  private lineOffsets: number[];
+
+  constructor(content: string) {
+    this.lines = content.split(/\r?\n/);
+    this.lineOffsets = [0];
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') {
+        this.lineOffsets.push(i + 1);
+      }
+    }
+  }
+
+  /**
+   * Get the position of a character offset in the content
+   * @param offset Character offset into the content
+   * @returns The 1-based line and column of the offset
+   */
+  public positionAt(offset: number): SourcePosition {
+    let low = 0;
+    let high = this.lineOffsets.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineOffsets[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - this.lineOffsets[low] + 1 };
+  }
+
+  /**
+   * Get the range covered by a span of character offsets
+   * @param start Offset of the first character
+   * @param end Offset just past the last character
+   * @returns The range from the first to the last character
+   */
+  public rangeAt(start: number, end: number): SourceRange {
+    return {
+      start: this.positionAt(start),
+      end: this.positionAt(Math.max(start, end - 1))
+    };
+  }
+
+  /**
+   * Get the range covered by a span of lines, as reported by markdown-it maps.
+   * Trailing blank lines are left out of the range.
+   * @param startLine 0-based index of the first line
+   * @param endLine 0-based index just past the last line
+   * @returns The range from the start of the first line to the end of the last
+   */
+  public lineRange(startLine: number, endLine: number): SourceRange {
+    let last = Math.min(Math.max(endLine, startLine + 1), this.lines.length);
+    while (last > startLine + 1 && this.lines[last - 1].trim() === '') {
+      last--;
+    }
+    return {
+      start: { line: startLine + 1, column: 1 },
+      end: { line: last, column: Math.max(1, (this.lines[last - 1] || '').length) }
+    };
+  }
+}
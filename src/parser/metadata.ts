@@ -0,0 +1,261 @@
+import {
+  MetadataTag,
+  ReadmeMetadata,
+  ValidationDiagnostic
+} from '../types/index.js';
+import { SourceLocator } from './locator.js';
+import { DEFAULT_SPEC_VERSION, SPEC_SCHEMAS, normalizeSpecVersion, specSchema } from './schemas.js';
+
+/**
+ * Metadata keys understood by the extractor. List-valued keys may be given
+ * several times; single-valued keys keep their first value.
+ */
+const METADATA_KEYS: Record<string, { list: boolean; values?: string[] }> = {
+  SPEC_VERSION: { list: false },
+  PLATFORM: { list: false, values: ['WEB', 'MOBILE', 'CLI', 'DESKTOP', 'API'] },
+  LANGUAGE: { list: false },
+  COMPLEXITY: { list: false, values: ['LOW', 'MEDIUM', 'HIGH'] },
+  FRAMEWORK: { list: false },
+  DEPENDENCY: { list: true },
+  INCLUDE: { list: true }
+};
+
+/**
+ * Front matter spellings of metadata keys
+ */
+const KEY_ALIASES: Record<string, string> = {
+  DEPENDENCIES: 'DEPENDENCY'
+};
+
+/**
+ * Extracts ZS metadata from `<!-- ZS:KEY:value -->` comments and from a YAML
+ * front matter block at the start of the README, merging both into a typed
+ * metadata object.
+ */
+export class MetadataExtractor {
+  /**
+   * Extract metadata from README content
+   * @param content The README markdown content
+   * @param locator Locator for the README content
+   * @returns The merged metadata, the tags it came from, any warnings, the
+   *          number of lines taken up by front matter and the spec version
+   *          the README targets
+   */
+  public extract(content: string, locator: SourceLocator): {
+    metadata: ReadmeMetadata;
+    tags: MetadataTag[];
+    diagnostics: ValidationDiagnostic[];
+    frontMatterLines: number;
+    specVersion: string;
+  } {
+    const diagnostics: ValidationDiagnostic[] = [];
+    const frontMatter = this.extractFrontMatter(content, locator, diagnostics);
+    const tags = [...frontMatter.tags, ...this.extractComments(content, locator)];
+    const specVersion = this.resolveSpecVersion(tags, diagnostics);
+
+    return {
+      metadata: this.merge(tags, specVersion, diagnostics),
+      tags,
+      diagnostics,
+      frontMatterLines: frontMatter.lines,
+      specVersion
+    };
+  }
+
+  /**
+   * Work out which spec version the README targets. Versions we do not know
+   * are reported and checked against the current version.
+   */
+  private resolveSpecVersion(tags: MetadataTag[], diagnostics: ValidationDiagnostic[]): string {
+    const tag = tags.find(t => t.key === 'ZS:SPEC_VERSION');
+    if (!tag) {
+      return DEFAULT_SPEC_VERSION;
+    }
+
+    const version = normalizeSpecVersion(tag.value);
+    if (SPEC_SCHEMAS[version]) {
+      return version;
+    }
+
+    const fallback = specSchema(version).version;
+    diagnostics.push({
+      ruleId: 'unknown-spec-version',
+      severity: 'warning',
+      message: `Unknown spec version "${tag.value}"; expected one of ${Object.keys(SPEC_SCHEMAS).join(', ')}. Checking against ${fallback}`,
+      range: tag.range
+    });
+    return fallback;
+  }
+
+  /**
+   * Find `<!-- ZS:KEY:value -->` comments. Values run to the end of the comment
+   * and may contain spaces, dots, hyphens and colons.
+   */
+  private extractComments(content: string, locator: SourceLocator): MetadataTag[] {
+    const tags: MetadataTag[] = [];
+    const metadataRegex = /<!--\s*ZS:([A-Za-z][\w-]*)\s*:\s*([\s\S]*?)\s*-->/g;
+
+    let match;
+    while ((match = metadataRegex.exec(content)) !== null) {
+      tags.push({
+        key: `ZS:${this.normalizeKey(match[1])}`,
+        value: match[2],
+        range: locator.rangeAt(match.index, match.index + match[0].length),
+        source: 'comment'
+      });
+    }
+
+    return tags;
+  }
+
+  /**
+   * Read a YAML front matter block delimited by `---` lines at the start of
+   * the content. Supports scalars, inline lists and block lists.
+   */
+  private extractFrontMatter(
+    content: string,
+    locator: SourceLocator,
+    diagnostics: ValidationDiagnostic[]
+  ): { tags: MetadataTag[]; lines: number } {
+    const lines = content.split(/\r?\n/);
+    if (lines[0]?.trim() !== '---') {
+      return { tags: [], lines: 0 };
+    }
+
+    const close = lines.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (close === -1) {
+      diagnostics.push({
+        ruleId: 'front-matter-syntax',
+        severity: 'warning',
+        message: 'Front matter block is not closed with "---"',
+        range: locator.lineRange(0, 1)
+      });
+      return { tags: [], lines: 0 };
+    }
+
+    const tags: MetadataTag[] = [];
+    let listKey: string | null = null;
+
+    for (let i = 1; i < close; i++) {
+      const line = lines[i];
+      const range = locator.lineRange(i, i + 1);
+      if (line.trim() === '' || line.trim().startsWith('#')) continue;
+
+      const item = line.match(/^\s+-\s+(.*)$/);
+      if (item && listKey) {
+        tags.push({ key: listKey, value: this.unquote(item[1]), range, source: 'front-matter' });
+        continue;
+      }
+
+      const pair = line.match(/^([A-Za-z][\w-]*)\s*:\s*(.*)$/);
+      if (!pair) {
+        diagnostics.push({
+          ruleId: 'front-matter-syntax',
+          severity: 'warning',
+          message: `Unsupported front matter line: ${line.trim()}`,
+          range
+        });
+        listKey = null;
+        continue;
+      }
+
+      const key = `ZS:${this.normalizeKey(pair[1])}`;
+      const value = pair[2].replace(/\s+#.*$/, '').trim();
+      listKey = null;
+
+      if (value === '') {
+        listKey = key;
+      } else if (value.startsWith('[') && value.endsWith(']')) {
+        value.slice(1, -1).split(',')
+          .map(v => this.unquote(v))
+          .filter(Boolean)
+          .forEach(v => tags.push({ key, value: v, range, source: 'front-matter' }));
+      } else {
+        tags.push({ key, value: this.unquote(value), range, source: 'front-matter' });
+      }
+    }
+
+    return { tags, lines: close + 1 };
+  }
+
+  /**
+   * Merge tags into the typed metadata object, reporting keys the spec
+   * version does not have, repeated single-valued keys and unexpected values
+   */
+  private merge(tags: MetadataTag[], specVersion: string, diagnostics: ValidationDiagnostic[]): ReadmeMetadata {
+    const metadata: ReadmeMetadata = { dependencies: [], values: {} };
+    const allowedKeys = specSchema(specVersion).metadataKeys;
+
+    for (const tag of tags) {
+      const name = tag.key.slice('ZS:'.length);
+      const definition = allowedKeys.includes(name) ? METADATA_KEYS[name] : undefined;
+      const existing = metadata.values[name];
+
+      if (!definition) {
+        // Report each unknown key once, at its first occurrence
+        if (!existing) {
+          diagnostics.push({
+            ruleId: 'unknown-metadata-key',
+            severity: 'warning',
+            message: METADATA_KEYS[name]
+              ? `Metadata key ${tag.key} is not part of spec ${specVersion}`
+              : `Unknown metadata key: ${tag.key}`,
+            range: tag.range
+          });
+        }
+      } else if (existing && !definition.list) {
+        diagnostics.push({
+          ruleId: 'duplicate-metadata-key',
+          severity: 'warning',
+          message: `Metadata key ${tag.key} is set more than once; keeping "${existing[0]}"`,
+          range: tag.range
+        });
+        continue;
+      } else if (definition.values && !definition.values.includes(tag.value.toUpperCase())) {
+        diagnostics.push({
+          ruleId: 'invalid-metadata-value',
+          severity: 'warning',
+          message: `Unexpected value "${tag.value}" for ${tag.key}; expected one of ${definition.values.join(', ')}`,
+          range: tag.range
+        });
+      }
+
+      metadata.values[name] = [...(existing || []), tag.value];
+    }
+
+    const first = (name: string) => metadata.values[name]?.[0];
+    if (first('PLATFORM')) {
+      metadata.platform = first('PLATFORM')!.toUpperCase();
+    }
+    if (first('LANGUAGE')) {
+      metadata.language = first('LANGUAGE');
+    }
+    const complexity = first('COMPLEXITY')?.toUpperCase();
+    if (complexity === 'LOW' || complexity === 'MEDIUM' || complexity === 'HIGH') {
+      metadata.complexity = complexity;
+    }
+    if (first('FRAMEWORK')) {
+      metadata.framework = first('FRAMEWORK');
+    }
+    metadata.dependencies = metadata.values.DEPENDENCY || [];
+
+    return metadata;
+  }
+
+  /**
+   * Upper-case a key and map front matter spellings to metadata keys
+   */
+  private normalizeKey(key: string): string {
+    const normalized = key.toUpperCase().replace(/-/g, '_').replace(/^ZS_/, '');
+    return KEY_ALIASES[normalized] || normalized;
+  }
+
+  /**
+   * Strip matching quotes from a front matter value
+   */
+  private unquote(value: string): string {
+    const trimmed = value.trim();
+    const quoted = trimmed.match(/^(["'])(.*)\1$/);
+    return quoted ? quoted[2] : trimmed;
+  }
+}
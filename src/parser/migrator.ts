@@ -0,0 +1,91 @@
+import { MetadataExtractor } from './metadata.js';
+import { ReadmeFixer } from './fixer.js';
+import { SourceLocator } from './locator.js';
+import {
+  CURRENT_SPEC_VERSION,
+  SPEC_SCHEMAS,
+  compareSpecVersions,
+  migrationPath,
+  normalizeSpecVersion
+} from './schemas.js';
+
+/**
+ * Upgrades a README from the spec version it targets to a newer one. Each
+ * version in between is applied in turn: ZS:SPEC_VERSION is updated and the
+ * README is fixed against that version's schema, which renames sections,
+ * adds newly required sections and metadata and adjusts heading levels.
+ */
+export class SpecMigrator {
+  private metadataExtractor: MetadataExtractor;
+  private fixer: ReadmeFixer;
+
+  constructor() {
+    this.metadataExtractor = new MetadataExtractor();
+    this.fixer = new ReadmeFixer();
+  }
+
+  /**
+   * Migrate a README
+   * @param content The README markdown content
+   * @param targetVersion Spec version to migrate to
+   * @param requiredSections Sections to add when missing in the target version,
+   *        as `/` separated paths; defaults to the target schema's
+   * @returns The migrated content, a description of each change, and the
+   *          versions migrated from and to
+   * @throws Error if the target version is unknown or older than the README's
+   */
+  public migrate(
+    content: string,
+    targetVersion: string = CURRENT_SPEC_VERSION,
+    requiredSections?: string[]
+  ): { content: string; changes: string[]; fromVersion: string; toVersion: string } {
+    const toVersion = normalizeSpecVersion(targetVersion);
+    if (!SPEC_SCHEMAS[toVersion]) {
+      throw new Error(`Unknown spec version "${targetVersion}"; expected one of ${Object.keys(SPEC_SCHEMAS).join(', ')}`);
+    }
+
+    const { specVersion: fromVersion } = this.metadataExtractor.extract(content, new SourceLocator(content));
+    if (compareSpecVersions(fromVersion, toVersion) > 0) {
+      throw new Error(`Cannot migrate from spec ${fromVersion} down to ${toVersion}`);
+    }
+
+    const changes: string[] = [];
+    let migrated = content;
+
+    for (const schema of migrationPath(fromVersion, toVersion)) {
+      migrated = this.setVersion(migrated, schema.version, changes);
+      const fixed = this.fixer.fix(migrated, {
+        schema,
+        requiredSections: schema.version === toVersion ? requiredSections : undefined
+      });
+      migrated = fixed.content;
+      changes.push(...fixed.changes);
+    }
+
+    return { content: migrated, changes, fromVersion, toVersion };
+  }
+
+  /**
+   * Point ZS:SPEC_VERSION at a version, changing the existing tag in place or
+   * adding one at the end of the README
+   */
+  private setVersion(content: string, version: string, changes: string[]): string {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const { tags } = this.metadataExtractor.extract(content, new SourceLocator(content));
+    const tag = tags.find(t => t.key === 'ZS:SPEC_VERSION');
+
+    if (!tag) {
+      changes.push(`Added ZS:SPEC_VERSION:${version}`);
+      return `${content.replace(/(\r?\n)+$/, '')}${eol}${eol}<!-- ZS:SPEC_VERSION:${version} -->${eol}`;
+    }
+
+    const lines = content.split(/\r?\n/);
+    const index = tag.range.start.line - 1;
+    lines[index] = tag.source === 'comment'
+      ? lines[index].replace(/(ZS:SPEC[_-]VERSION\s*:\s*)[\s\S]*?(\s*-->)/i, `$1${version}$2`)
+      : lines[index].replace(/^(\s*[\w-]+\s*:\s*)(["']?)[^"'\s#]*\2/, `$1$2${version}$2`);
+    changes.push(`Changed ZS:SPEC_VERSION from ${tag.value} to ${version}`);
+
+    return lines.join(eol);
+  }
+}
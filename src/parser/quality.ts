@@ -0,0 +1,344 @@
+import {
+  AppType,
+  ParsedReadme,
+  QualityArea,
+  QualityReport,
+  ReadmeSection
+} from '../types/index.js';
+import { findSectionPath } from './rules.js';
+import { specSchema } from './schemas.js';
+
+/**
+ * Share of the overall score each area carries
+ */
+const AREA_WEIGHTS = {
+  features: 0.25,
+  'data-model': 0.2,
+  interface: 0.2,
+  storage: 0.1,
+  'error-handling': 0.15,
+  structure: 0.1
+};
+
+/**
+ * Lowest overall score for each grade
+ */
+const GRADES: [QualityReport['grade'], number][] = [['A', 90], ['B', 75], ['C', 60], ['D', 40]];
+
+/**
+ * Number of weakest areas listed in a report
+ */
+const WEAKEST_AREAS = 3;
+
+/**
+ * Number of examples quoted in a suggestion
+ */
+const MAX_EXAMPLES = 3;
+
+/**
+ * Section titles that describe the user interface of each kind of application
+ */
+const INTERFACE_TITLES: Record<string, RegExp> = {
+  [AppType.CLI_APP]: /\b(commands?|usage|options|flags|arguments)\b/i,
+  [AppType.API_SERVER]: /\b(endpoints?|routes|api)\b/i,
+  ui: /\b(user interface|ui|layout|screens?|views?)\b/i
+};
+
+const STORAGE_TITLE = /\b(storage|persistence|database)\b/i;
+const STORAGE_MENTION = /\b(local\s*storage|indexeddb|database|persist\w*|sqlite|postgres\w*|mysql|mongo\w*|json file|saved? to (?:a )?file)\b/i;
+const ERROR_TITLE = /\b(errors?|error handling|validation|edge cases?|failures?)\b/i;
+const ERROR_MENTION = /\b(errors?|invalid|fail\w*|validat\w*|not found|empty input)\b/i;
+
+/**
+ * Count the features and technical details of a README, as used to judge
+ * its complexity: bullets in the Functionality features subsection, and
+ * subsections and code blocks in Technical Implementation
+ */
+export function complexityCounts(parsed: ParsedReadme): { featureCount: number; technicalDetailCount: number } {
+  let featureCount = 0;
+  let technicalDetailCount = 0;
+
+  // Look for functionality section
+  const functionalitySection = parsed.sections.find(s => s.title === 'Functionality');
+  if (functionalitySection) {
+    // Count features in subsections
+    const featuresSection = functionalitySection.subsections.find(
+      s => s.title.includes('Features') || s.title.includes('Capabilities')
+    );
+
+    if (featuresSection) {
+      // Count bullet points as features
+      featureCount = (featuresSection.content.match(/^[ \t]*[-*][ \t]/gm) || []).length;
+    }
+  }
+
+  // Look for technical implementation section
+  const technicalSection = parsed.sections.find(s => s.title === 'Technical Implementation');
+  if (technicalSection) {
+    // Count the number of subsections as technical details
+    technicalDetailCount = technicalSection.subsections.length;
+
+    // Also count code blocks anywhere in the section as technical details
+    const codeBlockCount = parsed.codeBlocks.filter(
+      block => block.sectionPath[0] === technicalSection.title
+    ).length;
+    technicalDetailCount += codeBlockCount;
+  }
+
+  return { featureCount, technicalDetailCount };
+}
+
+/**
+ * Rates how completely a README specifies the application, area by area,
+ * and suggests what to add to the weakest areas. Unlike validation, which
+ * only checks that the required parts exist, the score rewards detail:
+ * acceptance criteria, typed fields, described screens and so on.
+ */
+export class QualityScorer {
+  /**
+   * Score a parsed README
+   * @param parsed The parsed README structure
+   * @returns The overall score and grade, each area's score with findings
+   *          and suggestions, and the weakest areas
+   */
+  public score(parsed: ParsedReadme): QualityReport {
+    const sections = this.flatten(parsed.sections);
+    const areas = [
+      this.scoreFeatures(parsed),
+      this.scoreDataModel(parsed),
+      this.scoreInterface(parsed, sections),
+      this.scoreStorage(sections),
+      this.scoreErrorHandling(parsed, sections),
+      this.scoreStructure(parsed)
+    ];
+
+    const score = Math.round(areas.reduce((total, area) => total + area.score * area.weight, 0));
+    const weakest = areas
+      .filter(area => area.score < 100)
+      .sort((a, b) => a.score - b.score || b.weight - a.weight)
+      .slice(0, WEAKEST_AREAS);
+
+    return {
+      score,
+      grade: GRADES.find(([, minimum]) => score >= minimum)?.[0] ?? 'F',
+      areas,
+      weakest
+    };
+  }
+
+  /**
+   * Features are listed and refined with acceptance criteria
+   */
+  private scoreFeatures(parsed: ParsedReadme): QualityArea {
+    const area = this.area('features', 'Features');
+    const features = parsed.features.filter(f => f.kind === 'feature');
+    if (features.length === 0) {
+      area.findings.push('No features are listed');
+      area.suggestions.push('Add a Core Features subsection under Functionality with one bullet per feature');
+      return area;
+    }
+
+    const vague = features.filter(f => f.acceptanceCriteria.length === 0);
+    const detailed = features.length - vague.length;
+    area.score = Math.round(30 + 70 * detailed / features.length);
+    area.findings.push(`${detailed} of ${features.length} features have acceptance criteria`);
+    if (vague.length > 0) {
+      area.suggestions.push(
+        `Add acceptance criteria as nested bullets under ${this.examples(vague.map(f => `"${f.text}"`))}`
+      );
+    }
+    return area;
+  }
+
+  /**
+   * Entities are described with typed fields
+   */
+  private scoreDataModel(parsed: ParsedReadme): QualityArea {
+    const area = this.area('data-model', 'Data model');
+    if (parsed.entities.length === 0) {
+      area.findings.push('No entities are described');
+      area.suggestions.push(
+        'Add a Data Model subsection under Technical Implementation with a TypeScript interface for each entity, ' +
+        'e.g. `interface Task { title: string; done: boolean }` in a code block, or a table of fields with Field and Type columns'
+      );
+      return area;
+    }
+
+    const fields = parsed.entities.flatMap(e => e.fields.map(field => ({ entity: e.name, field })));
+    const untyped = fields.filter(({ field }) => field.type === 'unknown');
+    const empty = parsed.entities.filter(e => e.fields.length === 0);
+
+    area.score = fields.length > 0 ? Math.round(30 + 70 * (fields.length - untyped.length) / fields.length) : 30;
+    area.findings.push(
+      `${parsed.entities.length} ${parsed.entities.length === 1 ? 'entity' : 'entities'} with ` +
+      `${fields.length} field${fields.length === 1 ? '' : 's'}, ${fields.length - untyped.length} of them typed`
+    );
+    if (untyped.length > 0) {
+      area.suggestions.push(`Give types to ${this.examples(untyped.map(({ entity, field }) => `${entity}.${field.name}`))}`);
+    }
+    if (empty.length > 0) {
+      area.score = Math.min(area.score, 60);
+      area.suggestions.push(`List the fields of ${this.examples(empty.map(e => e.name))}`);
+    }
+    return area;
+  }
+
+  /**
+   * The way users interact with the application is described: screens for
+   * apps with a UI, commands for CLIs and endpoints for APIs
+   */
+  private scoreInterface(parsed: ParsedReadme, sections: ReadmeSection[]): QualityArea {
+    if (parsed.appType === AppType.CLI_APP || parsed.appType === AppType.API_SERVER) {
+      const isCli = parsed.appType === AppType.CLI_APP;
+      const area = this.area('interface', isCli ? 'Commands' : 'Endpoints');
+      const section = sections.find(s => INTERFACE_TITLES[parsed.appType!].test(s.title));
+      const noun = isCli ? 'commands' : 'endpoints';
+
+      if (!section) {
+        area.findings.push(`No section describes the ${noun}`);
+        area.suggestions.push(isCli
+          ? 'Add a Commands section with a table of commands, their arguments and what they do'
+          : 'Add an Endpoints section with a table of methods, paths and what they return');
+        return area;
+      }
+
+      const listed = section.tables.length > 0 || section.codeBlocks.length > 0;
+      area.score = listed ? 100 : 50;
+      area.findings.push(`"${section.title}" describes the ${noun}${listed ? ' in a table or code block' : ' in prose only'}`);
+      if (!listed) {
+        area.suggestions.push(`List each of the ${noun} in a table or a usage code block under "${section.title}"`);
+      }
+      return area;
+    }
+
+    const area = this.area('interface', 'User interface');
+    const section = sections.find(s => INTERFACE_TITLES.ui.test(s.title) && (s.content.trim() !== '' || s.subsections.length > 0));
+    const wireframes = sections.reduce((count, s) => count + s.wireframes.length, 0);
+    const interactions = parsed.features.filter(f => f.kind === 'interaction').length;
+
+    if (section) {
+      area.score += 40;
+      area.findings.push(`"${section.title}" describes the interface`);
+    } else {
+      area.findings.push('No section describes the interface');
+      area.suggestions.push('Add a User Interface subsection under Functionality describing the screens, layout and controls');
+    }
+    if (wireframes > 0) {
+      area.score += 30;
+      area.findings.push(`${wireframes} wireframe${wireframes === 1 ? '' : 's'}`);
+    } else {
+      area.suggestions.push('Sketch the main screen as an ASCII wireframe in a code block');
+    }
+    if (interactions > 0) {
+      area.score += 30;
+      area.findings.push(`${interactions} interaction${interactions === 1 ? '' : 's'} described`);
+    } else {
+      area.suggestions.push('Add an Interactions subsection saying what happens when users click, type or drag');
+    }
+    return area;
+  }
+
+  /**
+   * How data is stored is stated, ideally in its own section
+   */
+  private scoreStorage(sections: ReadmeSection[]): QualityArea {
+    const area = this.area('storage', 'Storage');
+    const section = sections.find(s => STORAGE_TITLE.test(s.title));
+    if (section) {
+      area.score = 100;
+      area.findings.push(`"${section.title}" describes storage`);
+      return area;
+    }
+
+    const mention = sections.find(s => STORAGE_MENTION.test(s.content));
+    if (mention) {
+      area.score = 50;
+      area.findings.push(`Storage is mentioned in "${mention.title}"`);
+    } else {
+      area.findings.push('Storage is not mentioned');
+    }
+    area.suggestions.push(
+      'Add a Storage subsection under Technical Implementation saying where data is kept, how it is loaded and what happens when saving fails'
+    );
+    return area;
+  }
+
+  /**
+   * Errors and invalid input are accounted for
+   */
+  private scoreErrorHandling(parsed: ParsedReadme, sections: ReadmeSection[]): QualityArea {
+    const area = this.area('error-handling', 'Error handling');
+    const section = sections.find(s => ERROR_TITLE.test(s.title));
+    if (section) {
+      area.score = 100;
+      area.findings.push(`"${section.title}" describes error handling`);
+      return area;
+    }
+
+    const statements = parsed.features.flatMap(f => [f.text, ...f.acceptanceCriteria]);
+    const mentions = statements.filter(text => ERROR_MENTION.test(text)).length +
+      sections.filter(s => ERROR_MENTION.test(s.content)).length;
+    if (mentions > 0) {
+      area.score = 50;
+      area.findings.push(`Errors are mentioned ${mentions} time${mentions === 1 ? '' : 's'} but not described in a section`);
+    } else {
+      area.findings.push('Errors and invalid input are not mentioned');
+    }
+    area.suggestions.push(
+      'Add an Error Handling subsection covering invalid input, failed storage or network calls, and what the user sees'
+    );
+    return area;
+  }
+
+  /**
+   * The sections the spec version requires are present, there is a
+   * description, and Technical Implementation goes into detail
+   */
+  private scoreStructure(parsed: ParsedReadme): QualityArea {
+    const area = this.area('structure', 'Structure');
+    const required = specSchema(parsed.specVersion).requiredSections;
+    const missing = required.filter(sectionPath => !findSectionPath(parsed.sections, sectionPath).section);
+    const described = parsed.description.trim() !== '' || !!findSectionPath(parsed.sections, 'Description').section;
+    const { technicalDetailCount } = complexityCounts(parsed);
+
+    const present = required.length - missing.length + (described ? 1 : 0);
+    area.score = Math.round(70 * present / (required.length + 1) + 30 * Math.min(technicalDetailCount, 3) / 3);
+    area.findings.push(
+      `${present} of ${required.length + 1} expected sections present`,
+      `${technicalDetailCount} technical detail${technicalDetailCount === 1 ? '' : 's'} (subsections and code blocks)`
+    );
+
+    if (!described) {
+      area.suggestions.push('Describe what the application does below the title or in a Description section');
+    }
+    if (missing.length > 0) {
+      area.suggestions.push(`Add the missing sections ${this.examples(missing)}`);
+    }
+    if (technicalDetailCount < 3) {
+      area.suggestions.push('Break Technical Implementation down into subsections such as Architecture, Data Model and Storage');
+    }
+    return area;
+  }
+
+  /**
+   * An area with no score yet
+   */
+  private area(id: QualityArea['id'], title: string): QualityArea {
+    return { id, title, score: 0, weight: AREA_WEIGHTS[id], findings: [], suggestions: [] };
+  }
+
+  /**
+   * Quote the first few items of a list, saying how many more there are
+   */
+  private examples(items: string[]): string {
+    const shown = items.slice(0, MAX_EXAMPLES).join(', ');
+    return items.length > MAX_EXAMPLES ? `${shown} and ${items.length - MAX_EXAMPLES} more` : shown;
+  }
+
+  /**
+   * Flatten a section tree into a depth-first list of sections
+   */
+  private flatten(sections: ReadmeSection[]): ReadmeSection[] {
+    return sections.flatMap(s => [s, ...this.flatten(s.subsections)]);
+  }
+}
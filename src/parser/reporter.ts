@@ -0,0 +1,225 @@
+import {
+  DiagnosticSeverity,
+  ReportFormat,
+  SourceRange,
+  ValidationDiagnostic,
+  ValidationResult,
+  ValidationRule
+} from '../types/index.js';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+/**
+ * Name reported as the tool in SARIF and JUnit reports
+ */
+const TOOL_NAME = 'tins-mcp';
+
+/**
+ * Version reported as the tool version in SARIF reports
+ */
+const TOOL_VERSION = '1.0.0';
+
+/**
+ * SARIF levels for diagnostic severities
+ */
+const SARIF_LEVELS: Record<DiagnosticSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note'
+};
+
+/**
+ * Formats a validation result can be reported in
+ */
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'sarif', 'junit'];
+
+/**
+ * Turns a validation result into a machine-readable report: plain JSON,
+ * SARIF 2.1.0 for code scanning dashboards, or JUnit XML for test report
+ * dashboards. Ranges are 1-based with an inclusive end, as in the diagnostics.
+ */
+export class ValidationReporter {
+  /**
+   * Format a validation result
+   * @param result The validation result
+   * @param format `json`, `sarif` or `junit`
+   * @param readmePath Path of the validated README, used for diagnostics that
+   *        do not name another file
+   * @param rules The rules that were run, described in SARIF and listed as JUnit test cases
+   * @returns The report as a string
+   */
+  public format(
+    result: ValidationResult,
+    format: Exclude<ReportFormat, 'text'>,
+    readmePath: string,
+    rules: ValidationRule[]
+  ): string {
+    switch (format) {
+      case 'json':
+        return this.toJson(result, readmePath);
+      case 'sarif':
+        return this.toSarif(result, readmePath, rules);
+      case 'junit':
+        return this.toJUnit(result, readmePath, rules);
+    }
+  }
+
+  /**
+   * A JSON summary with every diagnostic
+   */
+  private toJson(result: ValidationResult, readmePath: string): string {
+    const count = (severity: DiagnosticSeverity) =>
+      result.diagnostics.filter(d => d.severity === severity).length;
+
+    return JSON.stringify({
+      file: readmePath,
+      valid: result.valid,
+      summary: { errors: count('error'), warnings: count('warning'), infos: count('info') },
+      diagnostics: result.diagnostics.map(d => ({
+        ruleId: d.ruleId,
+        severity: d.severity,
+        message: d.message,
+        file: d.range?.file ?? readmePath,
+        ...(d.range ? { range: { start: d.range.start, end: d.range.end } } : {})
+      }))
+    }, null, 2);
+  }
+
+  /**
+   * A SARIF 2.1.0 log with one run. Rules that were not registered, such as
+   * config and include problems, are described from their diagnostics.
+   */
+  private toSarif(result: ValidationResult, readmePath: string, rules: ValidationRule[]): string {
+    const descriptors = rules.map(rule => ({
+      id: rule.id,
+      shortDescription: { text: rule.description },
+      defaultConfiguration: { level: SARIF_LEVELS[rule.defaultSeverity] }
+    }));
+    for (const id of this.unregisteredRuleIds(result.diagnostics, rules)) {
+      descriptors.push({
+        id,
+        shortDescription: { text: id },
+        defaultConfiguration: { level: SARIF_LEVELS[result.diagnostics.find(d => d.ruleId === id)!.severity] }
+      });
+    }
+
+    const results = result.diagnostics.map(d => ({
+      ruleId: d.ruleId,
+      ruleIndex: descriptors.findIndex(descriptor => descriptor.id === d.ruleId),
+      level: SARIF_LEVELS[d.severity],
+      message: { text: d.message },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: this.uri(d.range?.file ?? readmePath) },
+          ...(d.range ? { region: this.region(d.range) } : {})
+        }
+      }]
+    }));
+
+    return JSON.stringify({
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: { driver: { name: TOOL_NAME, version: TOOL_VERSION, rules: descriptors } },
+        results
+      }]
+    }, null, 2);
+  }
+
+  /**
+   * A JUnit XML report with one test case per rule. Errors fail their test
+   * case; warnings and infos are listed in its output.
+   */
+  private toJUnit(result: ValidationResult, readmePath: string, rules: ValidationRule[]): string {
+    const ids = [...rules.map(rule => rule.id), ...this.unregisteredRuleIds(result.diagnostics, rules)];
+    const suite = path.basename(readmePath);
+
+    const cases = ids.map(id => {
+      const diagnostics = result.diagnostics.filter(d => d.ruleId === id);
+      const errors = diagnostics.filter(d => d.severity === 'error');
+      const others = diagnostics.filter(d => d.severity !== 'error');
+      const lines = [`    <testcase classname="${this.escape(suite)}" name="${this.escape(id)}">`];
+
+      if (errors.length > 0) {
+        lines.push(
+          `      <failure message="${this.escape(errors[0].message)}" type="${this.escape(id)}">` +
+          this.escape(errors.map(d => this.describe(d, readmePath)).join('\n')) +
+          '</failure>'
+        );
+      }
+      if (others.length > 0) {
+        lines.push(`      <system-out>${this.escape(others.map(d => this.describe(d, readmePath)).join('\n'))}</system-out>`);
+      }
+
+      return lines.length === 1
+        ? `${lines[0].slice(0, -1)}/>`
+        : [...lines, '    </testcase>'].join('\n');
+    });
+
+    const failures = ids.filter(id => result.diagnostics.some(d => d.ruleId === id && d.severity === 'error')).length;
+    const counts = `tests="${ids.length}" failures="${failures}" errors="0"`;
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="${TOOL_NAME}" ${counts}>`,
+      `  <testsuite name="${this.escape(suite)}" ${counts} skipped="0">`,
+      ...cases,
+      '  </testsuite>',
+      '</testsuites>',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Rule ids that appear in diagnostics but are not registered rules, in
+   * order of first appearance
+   */
+  private unregisteredRuleIds(diagnostics: ValidationDiagnostic[], rules: ValidationRule[]): string[] {
+    const registered = new Set(rules.map(rule => rule.id));
+    return [...new Set(diagnostics.map(d => d.ruleId))].filter(id => !registered.has(id));
+  }
+
+  /**
+   * A SARIF region, whose end column is exclusive
+   */
+  private region(range: SourceRange) {
+    return {
+      startLine: range.start.line,
+      startColumn: range.start.column,
+      endLine: range.end.line,
+      endColumn: range.end.column + 1
+    };
+  }
+
+  /**
+   * A SARIF artifact URI: relative to the working directory when the file is
+   * inside it, otherwise an absolute file URI
+   */
+  private uri(file: string): string {
+    const relative = path.relative(process.cwd(), path.resolve(file));
+    return relative.startsWith('..') || path.isAbsolute(relative)
+      ? pathToFileURL(path.resolve(file)).href
+      : relative.split(path.sep).join('/');
+  }
+
+  /**
+   * A diagnostic as a single line of text with its location
+   */
+  private describe(diagnostic: ValidationDiagnostic, readmePath: string): string {
+    const range = diagnostic.range;
+    const location = `${range?.file ?? readmePath}${range ? `:${range.start.line}:${range.start.column}` : ''}`;
+    return `${location} ${diagnostic.severity}: ${diagnostic.message}`;
+  }
+
+  /**
+   * Escape text for XML attributes and content
+   */
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
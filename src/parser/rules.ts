@@ -0,0 +1,239 @@
+import {
+  ReadmeSection,
+  RuleFinding,
+  SpecSchema,
+  ValidationRule
+} from '../types/index.js';
+import { CURRENT_SPEC_VERSION, specSchema } from './schemas.js';
+
+/**
+ * Find a section by a `/` separated path of heading titles, e.g.
+ * `Technical Implementation/Storage`. Titles are compared case-insensitively.
+ * @returns The section and, when it is missing, the deepest ancestor found
+ */
+export function findSectionPath(
+  sections: ReadmeSection[],
+  sectionPath: string
+): { section?: ReadmeSection; parent?: ReadmeSection } {
+  let candidates = sections;
+  let parent: ReadmeSection | undefined;
+
+  for (const title of sectionPath.split('/').map(part => part.trim()).filter(Boolean)) {
+    const found = candidates.find(s => s.title.trim().toLowerCase() === title.toLowerCase());
+    if (!found) {
+      return { parent };
+    }
+    parent = found;
+    candidates = found.subsections;
+  }
+
+  return { section: parent };
+}
+
+/**
+ * Get the section paths the `required-sections` rule asks for with the given
+ * options, starting from the sections the spec version requires
+ */
+export function requiredSectionPaths(options: Record<string, unknown>, schema: SpecSchema): string[] {
+  return [
+    ...(stringList(options.sections) ?? schema.requiredSections),
+    ...(stringList(options.extra) ?? [])
+  ];
+}
+
+/**
+ * Read a string list option, ignoring values of the wrong type
+ */
+function stringList(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined;
+}
+
+/**
+ * Build a rule that warns when a top-level section has no subsections
+ */
+function subsectionRule(id: string, title: string, examples: string): ValidationRule {
+  return {
+    id,
+    description: `The ${title} section is broken into subsections`,
+    defaultSeverity: 'warning',
+    message: `${title} section may be missing detailed subsections (${examples}, etc.)`,
+    check: parsed => {
+      const { section } = findSectionPath(parsed.sections, title);
+      return section && section.subsections.length === 0 ? [{ range: section.range }] : [];
+    }
+  };
+}
+
+/**
+ * Build a rule that passes on diagnostics raised while extracting the README,
+ * so they can be disabled or re-graded like any other rule
+ */
+function extractionRule(id: string, description: string): ValidationRule {
+  return {
+    id,
+    description,
+    defaultSeverity: 'warning',
+    message: description,
+    check: parsed => parsed.diagnostics
+      .filter(d => d.ruleId === id)
+      .map((d): RuleFinding => ({ range: d.range, message: d.message }))
+  };
+}
+
+/**
+ * Rules checked by default. Severities and options can be changed per
+ * project in `.tinsrc.json`.
+ */
+export const BUILTIN_RULES: ValidationRule[] = [
+  {
+    id: 'empty-content',
+    description: 'The README has content',
+    defaultSeverity: 'error',
+    message: 'README content is empty',
+    check: parsed =>
+      !parsed.title && !parsed.description && parsed.sections.length === 0 ? [{}] : []
+  },
+  {
+    id: 'project-title',
+    description: 'The README starts with a level 1 heading naming the project',
+    defaultSeverity: 'error',
+    message: 'Missing project title (level 1 heading at the start)',
+    check: parsed => {
+      if (!parsed.title || !parsed.titleRange) {
+        return [{}];
+      }
+      const first = parsed.sections[0];
+      return first && first.range.start.line < parsed.titleRange.start.line
+        ? [{ range: parsed.titleRange, message: 'Project title should come before the first section' }]
+        : [];
+    }
+  },
+  {
+    id: 'description',
+    description: 'The project is described below the title or in a Description section',
+    defaultSeverity: 'error',
+    message: 'Missing description: add text below the title or a Description section',
+    check: parsed => {
+      const { section } = findSectionPath(parsed.sections, 'Description');
+      const described = section && (section.content.trim() !== '' || section.subsections.length > 0);
+      if (described) {
+        return [];
+      }
+      if (parsed.description.trim() === '') {
+        return [{ range: section?.range ?? parsed.titleRange }];
+      }
+      return specSchema(parsed.specVersion).descriptionSection
+        ? [{
+            range: parsed.titleRange,
+            message: `Spec ${parsed.specVersion} expects the description in a Description section, not below the title`
+          }]
+        : [];
+    }
+  },
+  {
+    id: 'required-sections',
+    description: 'Sections the spec version requires are present. Options: `sections` replaces the list and `extra` adds to it; nested sections are written as `Parent/Child`',
+    defaultSeverity: 'error',
+    message: 'Missing required section: {section}',
+    check: (parsed, options) => {
+      return requiredSectionPaths(options, specSchema(parsed.specVersion)).flatMap(sectionPath => {
+        const { section, parent } = findSectionPath(parsed.sections, sectionPath);
+        return section
+          ? []
+          : [{ range: parent?.range ?? parsed.titleRange, data: { section: sectionPath } }];
+      });
+    }
+  },
+  subsectionRule('functionality-subsections', 'Functionality', 'Core Features, User Interface'),
+  subsectionRule('technical-subsections', 'Technical Implementation', 'Architecture, Data Structures'),
+  {
+    id: 'heading-levels',
+    description: 'Headings follow the level conventions of the spec version',
+    defaultSeverity: 'warning',
+    message: 'Heading "{title}" is level {level}; spec {version} expects level {expected}',
+    check: parsed => {
+      const { headings } = specSchema(parsed.specVersion);
+      const findings: RuleFinding[] = [];
+
+      const visit = (sections: ReadmeSection[], expected: number) => {
+        for (const section of sections) {
+          if (section.level > headings.maxLevel) {
+            findings.push({
+              range: section.range,
+              message: `Heading "${section.title}" is level ${section.level}; spec ${parsed.specVersion} allows at most level ${headings.maxLevel}`
+            });
+          } else if (headings.strictNesting && section.level !== expected) {
+            findings.push({
+              range: section.range,
+              data: {
+                title: section.title,
+                level: String(section.level),
+                version: parsed.specVersion,
+                expected: String(expected)
+              }
+            });
+          }
+          visit(section.subsections, section.level + 1);
+        }
+      };
+      visit(parsed.sections, headings.sectionLevel);
+
+      return findings;
+    }
+  },
+  {
+    id: 'renamed-section',
+    description: 'Sections use the titles of the spec version',
+    defaultSeverity: 'warning',
+    message: 'Section "{section}" is called "{title}" since spec {version}',
+    check: parsed => {
+      const schema = specSchema(parsed.specVersion);
+      return Object.entries(schema.renamedSections).flatMap(([oldPath, title]) => {
+        const { section } = findSectionPath(parsed.sections, oldPath);
+        return section
+          ? [{ range: section.range, data: { section: oldPath, title, version: schema.version } }]
+          : [];
+      });
+    }
+  },
+  {
+    id: 'metadata',
+    description: 'The README carries ZS metadata',
+    defaultSeverity: 'warning',
+    message: 'No metadata tags found. Consider adding ZS:PLATFORM, ZS:LANGUAGE, etc.',
+    check: parsed => (parsed.metadataTags.length === 0 ? [{ range: parsed.titleRange }] : [])
+  },
+  {
+    id: 'required-metadata',
+    description: 'Metadata keys the spec version requires, and those listed in the `keys` option, are set',
+    defaultSeverity: 'error',
+    message: 'Missing required metadata: ZS:{key}',
+    check: (parsed, options) => {
+      const keys = [...specSchema(parsed.specVersion).requiredMetadata, ...(stringList(options.keys) ?? [])]
+        .map(key => key.toUpperCase().replace(/^ZS:/, ''));
+      return [...new Set(keys)]
+        .filter(key => !parsed.metadata.values[key])
+        .map(key => ({ range: parsed.titleRange, data: { key } }));
+    }
+  },
+  {
+    id: 'outdated-spec-version',
+    description: 'The README targets the current spec version',
+    defaultSeverity: 'info',
+    message: `README targets spec {version}; the current version is ${CURRENT_SPEC_VERSION}. migrate_readme can upgrade it`,
+    check: parsed => {
+      if (parsed.specVersion === CURRENT_SPEC_VERSION) {
+        return [];
+      }
+      const tag = parsed.metadataTags.find(t => t.key === 'ZS:SPEC_VERSION');
+      return [{ range: tag?.range ?? parsed.titleRange, data: { version: parsed.specVersion } }];
+    }
+  },
+  extractionRule('unknown-metadata-key', 'Metadata keys are known'),
+  extractionRule('duplicate-metadata-key', 'Single-valued metadata keys are set once'),
+  extractionRule('invalid-metadata-value', 'Metadata values are allowed for their key'),
+  extractionRule('unknown-spec-version', 'ZS:SPEC_VERSION names a known spec version'),
+  extractionRule('front-matter-syntax', 'Front matter is well formed'),
+  extractionRule('unrecognized-style', 'Style Guide statements are recognized'),
+  extractionRule('unrecognized-accessibility', 'Accessibility requirements are recognized')
+];
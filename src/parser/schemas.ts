@@ -0,0 +1,94 @@
+import { SpecSchema } from '../types/index.js';
+
+/**
+ * Spec version assumed for READMEs without a ZS:SPEC_VERSION tag, which
+ * predate versioning
+ */
+export const DEFAULT_SPEC_VERSION = '1.0';
+
+/**
+ * Newest spec version, which migration upgrades to by default
+ */
+export const CURRENT_SPEC_VERSION = '2.0';
+
+/**
+ * Metadata keys every spec version understands
+ */
+const METADATA_KEYS = ['SPEC_VERSION', 'PLATFORM', 'LANGUAGE', 'COMPLEXITY', 'FRAMEWORK', 'DEPENDENCY', 'INCLUDE'];
+
+/**
+ * Schemas of the Zero Source specification, keyed by version
+ */
+export const SPEC_SCHEMAS: Record<string, SpecSchema> = {
+  '1.0': {
+    version: '1.0',
+    requiredSections: ['Functionality', 'Technical Implementation'],
+    descriptionSection: false,
+    metadataKeys: METADATA_KEYS,
+    requiredMetadata: [],
+    headings: { sectionLevel: 2, maxLevel: 6, strictNesting: false },
+    renamedSections: {}
+  },
+  '2.0': {
+    version: '2.0',
+    requiredSections: [
+      'Functionality',
+      'Functionality/Core Features',
+      'Technical Implementation',
+      'Technical Implementation/Architecture',
+      'Technical Implementation/Data Model'
+    ],
+    descriptionSection: true,
+    metadataKeys: METADATA_KEYS,
+    requiredMetadata: ['SPEC_VERSION', 'PLATFORM'],
+    headings: { sectionLevel: 2, maxLevel: 4, strictNesting: true },
+    renamedSections: {
+      'Functionality/Features': 'Core Features',
+      'Technical Implementation/Data Structures': 'Data Model'
+    }
+  }
+};
+
+/**
+ * Normalize how a spec version is written, so `2`, `v2` and `2.0` match
+ */
+export function normalizeSpecVersion(version: string): string {
+  const trimmed = version.trim().replace(/^v/i, '');
+  return /^\d+$/.test(trimmed) ? `${trimmed}.0` : trimmed;
+}
+
+/**
+ * Compare two spec versions numerically
+ * @returns A negative number if a is older than b, positive if newer, 0 if equal
+ */
+export function compareSpecVersions(a: string, b: string): number {
+  const partsA = normalizeSpecVersion(a).split('.').map(Number);
+  const partsB = normalizeSpecVersion(b).split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Get the schema for a spec version, falling back to the current version
+ * for versions we do not know
+ */
+export function specSchema(version: string): SpecSchema {
+  return SPEC_SCHEMAS[normalizeSpecVersion(version)] ?? SPEC_SCHEMAS[CURRENT_SPEC_VERSION];
+}
+
+/**
+ * Get the schemas a README passes through when migrating between two
+ * versions, oldest first, excluding the starting version
+ */
+export function migrationPath(fromVersion: string, toVersion: string): SpecSchema[] {
+  return Object.values(SPEC_SCHEMAS)
+    .filter(schema =>
+      compareSpecVersions(schema.version, fromVersion) > 0 &&
+      compareSpecVersions(schema.version, toVersion) <= 0)
+    .sort((a, b) => compareSpecVersions(a.version, b.version));
+}
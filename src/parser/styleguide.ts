@@ -0,0 +1,256 @@
+import {
+  DesignTokens,
+  ReadmeSection,
+  SourceRange,
+  ValidationDiagnostic
+} from '../types/index.js';
+
+/**
+ * Section titles that hold style statements
+ */
+const STYLE_GUIDE_TITLE = /\b(style\s*guide|styling|design|theme|visual)\b/i;
+
+/**
+ * CSS color values: hex, rgb(a) and hsl(a)
+ */
+const COLOR_VALUE = /(#[0-9a-f]{3,8}\b|rgba?\([^)]*\)|hsla?\([^)]*\))/i;
+
+/**
+ * Colors filled in by palette statements such as "Use a neutral color palette"
+ */
+const PALETTES: Record<string, Record<string, string>> = {
+  neutral: {
+    text: '#333333',
+    background: '#ffffff',
+    surface: '#f5f5f5',
+    border: '#dddddd',
+    muted: '#888888'
+  },
+  light: {
+    text: '#222222',
+    background: '#ffffff',
+    surface: '#fafafa',
+    border: '#e5e5e5',
+    muted: '#999999'
+  },
+  dark: {
+    text: '#f0f0f0',
+    background: '#1e1e1e',
+    surface: '#2a2a2a',
+    border: '#444444',
+    muted: '#a0a0a0'
+  }
+};
+
+/**
+ * Font stacks for generic font descriptions
+ */
+const FONT_STACKS: Record<string, string> = {
+  'system sans-serif': 'system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+  'sans-serif': '"Helvetica Neue", Arial, sans-serif',
+  serif: 'Georgia, "Times New Roman", serif',
+  monospace: '"SFMono-Regular", Consolas, "Liberation Mono", monospace'
+};
+
+/**
+ * Spacing scales for statements such as "compact spacing"
+ */
+const SPACING_SCALES: Record<string, string> = {
+  compact: '0.5rem',
+  comfortable: '1rem',
+  generous: '1.5rem',
+  spacious: '1.5rem'
+};
+
+/**
+ * A single style statement with the place it was written
+ */
+interface StyleStatement {
+  text: string;
+  range: SourceRange;
+}
+
+/**
+ * Parses Style Guide sections into design tokens for colors, typography,
+ * spacing and motion. Statements that match none of the known patterns are
+ * reported so authors can see what was ignored.
+ */
+export class StyleGuideParser {
+  /**
+   * Parse every Style Guide section of a README
+   * @param sections Top-level sections of the parsed README
+   * @returns The design tokens and a warning for each unrecognized statement
+   */
+  public parse(sections: ReadmeSection[]): {
+    tokens: DesignTokens;
+    diagnostics: ValidationDiagnostic[];
+  } {
+    const tokens: DesignTokens = { colors: {}, typography: {}, spacing: {}, motion: {} };
+    const diagnostics: ValidationDiagnostic[] = [];
+
+    for (const section of this.findStyleSections(sections)) {
+      for (const statement of this.collectStatements(section)) {
+        if (!this.applyStatement(statement.text, tokens)) {
+          diagnostics.push({
+            ruleId: 'unrecognized-style',
+            severity: 'warning',
+            message: `Style statement was not recognized and is ignored: ${statement.text}`,
+            range: statement.range
+          });
+        }
+      }
+    }
+
+    return { tokens, diagnostics };
+  }
+
+  /**
+   * Find Style Guide sections, including nested ones
+   */
+  private findStyleSections(sections: ReadmeSection[]): ReadmeSection[] {
+    return sections.flatMap(section =>
+      STYLE_GUIDE_TITLE.test(section.title)
+        ? [section]
+        : this.findStyleSections(section.subsections)
+    );
+  }
+
+  /**
+   * Collect the list items and `name | value` table rows of a section tree
+   */
+  private collectStatements(section: ReadmeSection): StyleStatement[] {
+    const statements: StyleStatement[] = [];
+
+    for (const list of section.lists) {
+      for (const item of list.items) {
+        statements.push({ text: item.text.trim(), range: item.range });
+        for (const child of item.children.flatMap(l => l.items)) {
+          statements.push({ text: `${item.text.trim()}: ${child.text.trim()}`, range: child.range });
+        }
+      }
+    }
+
+    for (const table of section.tables) {
+      for (const row of table.rows) {
+        statements.push({ text: row.filter(Boolean).join(': '), range: table.range });
+      }
+    }
+
+    for (const sub of section.subsections) {
+      statements.push(...this.collectStatements(sub));
+    }
+
+    return statements;
+  }
+
+  /**
+   * Apply a single statement to the tokens
+   * @returns True if any part of the statement was recognized
+   */
+  private applyStatement(text: string, tokens: DesignTokens): boolean {
+    const plain = text.replace(/[`*_]/g, '');
+    const lower = plain.toLowerCase();
+    let recognized = false;
+
+    // Palette presets, e.g. "Use a neutral color palette"
+    const palette = lower.match(/\b(neutral|light|dark)\b[\w\s-]*\bpalette\b/);
+    if (palette) {
+      for (const [name, value] of Object.entries(PALETTES[palette[1]])) {
+        tokens.colors[name] ??= value;
+      }
+      recognized = true;
+    }
+
+    // Named colors, e.g. "Primary color: #4a90e2" or "Background #fff". The
+    // name ends at "color" or the first ":" or "="; a value described in
+    // words first, as in "Primary color: teal (#008080)", is the one after it.
+    const color = plain.match(new RegExp(
+      `^((?:(?!\\bcolou?r\\b)[^:=#(])*)(?:\\bcolou?r\\b)?\\s*[:=-]?\\s*(?:\\b[a-z][\\w\\s-]*?\\(?\\s*)?${COLOR_VALUE.source}`,
+      'i'
+    ));
+    if (color) {
+      const name = this.slugify(color[1].replace(/\b(use|the|a|an|colou?r)\b/gi, '')) || 'primary';
+      tokens.colors[name] = color[2].toLowerCase();
+      recognized = true;
+    }
+
+    // Fonts, e.g. "Font: System default sans-serif"
+    const font = plain.match(/\bfont(?:\s*family)?\s*:\s*(.+)$/i);
+    if (font) {
+      tokens.typography['font-family'] = this.fontStack(font[1]);
+      recognized = true;
+    }
+
+    const fontSize = lower.match(/\b(?:font|text)\s*size\s*:?\s*(\d+(?:\.\d+)?(?:px|rem|em|pt))/);
+    if (fontSize) {
+      tokens.typography['font-size'] = fontSize[1];
+      recognized = true;
+    }
+
+    const lineHeight = lower.match(/\bline\s*height\s*:?\s*(\d+(?:\.\d+)?(?:px|rem|em)?)/);
+    if (lineHeight) {
+      tokens.typography['line-height'] = lineHeight[1];
+      recognized = true;
+    }
+
+    // State styles, e.g. "Completed tasks should have a line-through style and muted color"
+    const state = lower.match(/^(\w+)[\w\s]*?\b(line-through|strike-?through|underline|bold|italic)\b/);
+    if (state) {
+      const decoration = state[2].startsWith('strike') ? 'line-through' : state[2];
+      const property = decoration === 'bold' ? 'weight' : decoration === 'italic' ? 'style' : 'decoration';
+      tokens.typography[`${state[1]}-${property}`] = decoration;
+      if (/\b(muted|faded|gr[ae]y(ed)?)\b[\w\s]*colou?r|\bcolou?r\b[\w\s]*\bmuted\b/.test(lower)) {
+        tokens.colors[state[1]] = tokens.colors.muted ?? PALETTES.neutral.muted;
+      }
+      recognized = true;
+    }
+
+    // Spacing, e.g. "Spacing: 8px" or "Use compact spacing"
+    const spacing = lower.match(/\b(spacing|padding|margin|gap)\b\s*:?\s*(\d+(?:\.\d+)?(?:px|rem|em))/);
+    if (spacing) {
+      tokens.spacing[spacing[1] === 'spacing' ? 'base' : spacing[1]] = spacing[2];
+      recognized = true;
+    }
+    const scale = lower.match(/\b(compact|comfortable|generous|spacious)\b[\w\s]*\b(spacing|layout|padding)\b/);
+    if (scale) {
+      tokens.spacing.base = SPACING_SCALES[scale[1]];
+      recognized = true;
+    }
+
+    // Motion, e.g. "Smooth transitions for status changes" or "Hover effects"
+    if (/\b(transitions?|animations?|animated)\b/.test(lower)) {
+      const duration = lower.match(/(\d+(?:\.\d+)?)\s*(ms|s)\b/);
+      tokens.motion.duration = duration ? `${duration[1]}${duration[2]}` : (tokens.motion.duration ?? '200ms');
+      tokens.motion.easing = /\b(linear)\b/.test(lower) ? 'linear' : (tokens.motion.easing ?? 'ease-in-out');
+      recognized = true;
+    }
+    if (/\bhover\b/.test(lower)) {
+      tokens.motion['hover-filter'] = 'brightness(0.95)';
+      recognized = true;
+    }
+
+    return recognized;
+  }
+
+  /**
+   * Turn a font description into a CSS font stack
+   */
+  private fontStack(description: string): string {
+    const lower = description.toLowerCase();
+    if (/\bsystem\b/.test(lower)) return FONT_STACKS['system sans-serif'];
+    if (/\bmono/.test(lower)) return FONT_STACKS.monospace;
+    if (/\bsans\b|\bsans-serif\b/.test(lower)) return FONT_STACKS['sans-serif'];
+    if (/\bserif\b/.test(lower)) return FONT_STACKS.serif;
+
+    // Named fonts are kept, with a generic fallback
+    const name = description.trim().replace(/\.$/, '');
+    return `${/\s/.test(name) && !name.includes(',') ? `"${name}"` : name}, sans-serif`;
+  }
+
+  /**
+   * Convert a label such as "Primary Accent" to a token name such as "primary-accent"
+   */
+  private slugify(text: string): string {
+    return text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+}
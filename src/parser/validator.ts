@@ -1,171 +1,153 @@
-import { ValidationResult, ParsedReadme } from '../types/index.js';
+import {
+  ValidationResult,
+  ValidationDiagnostic,
+  ValidationRule,
+  ValidatorConfig,
+  DiagnosticSeverity,
+  ParsedReadme,
+  RuleSeverity,
+  SourceRange
+} from '../types/index.js';
+import { ReadmeExtractor } from './extractor.js';
+import { BUILTIN_RULES } from './rules.js';
+import { CONSISTENCY_RULES } from './consistency.js';
 
 /**
  * Validates a README file against the Zero Source specification.
- * Checks for required sections, proper formatting, and consistency.
+ * Runs a set of rules over the parsed README; each rule's severity and
+ * options can be changed by the project config.
  */
 export class ReadmeValidator {
+  private extractor: ReadmeExtractor;
+  private rules: Map<string, ValidationRule>;
+
+  constructor() {
+    this.extractor = new ReadmeExtractor();
+    this.rules = new Map([...BUILTIN_RULES, ...CONSISTENCY_RULES].map(rule => [rule.id, rule]));
+  }
+
+  /**
+   * Add a rule, replacing any rule with the same id
+   * @param rule The rule to add
+   */
+  public registerRule(rule: ValidationRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * Get every registered rule
+   */
+  public getRules(): ValidationRule[] {
+    return [...this.rules.values()];
+  }
+
   /**
    * Validates a README string content against the Zero Source specification
    * @param content The README markdown content
+   * @param config Project config changing rule severities and options
    * @returns Validation result with any errors or warnings
    */
-  public validateContent(content: string): ValidationResult {
-    const result: ValidationResult = {
-      valid: true,
-      errors: [],
-      warnings: []
-    };
-
-    // Check if content is empty
-    if (!content || content.trim() === '') {
-      result.valid = false;
-      result.errors.push('README content is empty');
-      return result;
-    }
-
-    // Check for required title (level 1 heading)
-    if (!this.hasProjectTitle(content)) {
-      result.valid = false;
-      result.errors.push('Missing project title (level 1 heading at the start)');
-    }
-
-    // Check for required sections
-    const requiredSections = ['Description', 'Functionality', 'Technical Implementation'];
-    const missingSections = this.findMissingSections(content, requiredSections);
-    
-    if (missingSections.length > 0) {
-      result.valid = false;
-      missingSections.forEach(section => {
-        result.errors.push(`Missing required section: ${section}`);
-      });
-    }
-
-    // Check for functionality subsections
-    if (!this.hasFunctionalitySubsections(content)) {
-      result.warnings.push('Functionality section may be missing detailed subsections (Core Features, User Interface, etc.)');
-    }
-
-    // Check for technical implementation subsections
-    if (!this.hasTechnicalSubsections(content)) {
-      result.warnings.push('Technical Implementation section may be missing detailed subsections (Architecture, Data Structures, etc.)');
-    }
-
-    // Check for contradictions or inconsistencies
-    // This would require more sophisticated parsing and analysis
-
-    return result;
+  public validateContent(content: string, config?: ValidatorConfig): ValidationResult {
+    return this.validate(this.extractor.extract(content), config);
   }
 
   /**
    * Validates a parsed README structure
    * @param parsed The parsed README structure
+   * @param config Project config changing rule severities and options
    * @returns Validation result with any errors or warnings
    */
-  public validateParsed(parsed: ParsedReadme): ValidationResult {
+  public validate(parsed: ParsedReadme, config: ValidatorConfig = { rules: {} }): ValidationResult {
     const result: ValidationResult = {
       valid: true,
       errors: [],
-      warnings: []
+      warnings: [],
+      diagnostics: []
     };
 
-    // Check for required fields
-    if (!parsed.title) {
-      result.valid = false;
-      result.errors.push('Missing project title');
+    // Settings for rules we do not know are most likely typos
+    for (const id of Object.keys(config.rules)) {
+      if (!this.rules.has(id)) {
+        this.report(result, 'unknown-rule', 'warning',
+          `Unknown rule "${id}" in project config`, this.configRange(config));
+      }
     }
 
-    if (!parsed.description || parsed.description.trim() === '') {
-      result.valid = false;
-      result.errors.push('Missing or empty description');
-    }
+    for (const rule of this.rules.values()) {
+      const { severity, options } = this.settingsFor(rule, config);
+      if (severity === 'off') continue;
 
-    // Check for required sections
-    const requiredSections = ['Functionality', 'Technical Implementation'];
-    const foundSections = new Set(parsed.sections.map(s => s.title));
-    
-    for (const required of requiredSections) {
-      if (!foundSections.has(required)) {
-        result.valid = false;
-        result.errors.push(`Missing required section: ${required}`);
+      for (const finding of rule.check(parsed, options)) {
+        const message = finding.message ?? this.formatMessage(rule.message, finding.data);
+        this.report(result, rule.id, severity, message, finding.range);
       }
     }
 
-    // Check for metadata completeness
-    if (Object.keys(parsed.metadata).length === 0) {
-      result.warnings.push('No metadata tags found. Consider adding ZS:PLATFORM, ZS:LANGUAGE, etc.');
-    }
+    // Carry over extraction problems that no rule claims
+    parsed.diagnostics
+      .filter(d => !this.rules.has(d.ruleId))
+      .forEach(d => this.report(result, d.ruleId, d.severity, d.message, d.range));
 
     return result;
   }
 
   /**
-   * Checks if the README has a project title (level 1 heading at the start)
+   * Work out a rule's severity and options from its defaults and the config
    */
-  private hasProjectTitle(content: string): boolean {
-    const lines = content.split('\n');
-    // Find the first non-empty line
-    for (const line of lines) {
-      if (line.trim() === '') continue;
-      return line.startsWith('# ');
+  private settingsFor(rule: ValidationRule, config: ValidatorConfig): {
+    severity: RuleSeverity;
+    options: Record<string, unknown>;
+  } {
+    const setting = config.rules[rule.id];
+    if (setting === undefined) {
+      return { severity: rule.defaultSeverity, options: {} };
     }
-    return false;
+    if (typeof setting === 'string') {
+      return { severity: setting, options: {} };
+    }
+    return {
+      severity: setting.severity ?? rule.defaultSeverity,
+      options: setting.options ?? {}
+    };
   }
 
   /**
-   * Finds missing required sections in the README
+   * Fill `{placeholders}` in a rule message
    */
-  private findMissingSections(content: string, requiredSections: string[]): string[] {
-    const missing: string[] = [];
-    // Simple regex to find level 2 headings
-    const sectionRegex = /^## ([^\n#]+)/gm;
-    const foundSections = new Set<string>();
-    
-    let match;
-    while ((match = sectionRegex.exec(content)) !== null) {
-      foundSections.add(match[1].trim());
-    }
-
-    for (const section of requiredSections) {
-      if (!foundSections.has(section)) {
-        missing.push(section);
-      }
-    }
-
-    return missing;
+  private formatMessage(template: string, data: Record<string, string> = {}): string {
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => data[key] ?? match);
   }
 
   /**
-   * Checks if the README has detailed subsections under Functionality
+   * A range pointing at the config file, if it came from one
    */
-  private hasFunctionalitySubsections(content: string): boolean {
-    // Find the Functionality section
-    const functionalityRegex = /## Functionality\s+([\s\S]*?)(?=^##|\Z)/m;
-    const match = functionalityRegex.exec(content);
-    
-    if (!match) return false;
-    
-    // Check for level 3 headings within the section
-    const subsectionRegex = /### ([^\n#]+)/g;
-    const functionalityContent = match[1];
-    
-    return subsectionRegex.test(functionalityContent);
+  private configRange(config: ValidatorConfig): SourceRange | undefined {
+    return config.file
+      ? { start: { line: 1, column: 1 }, end: { line: 1, column: 1 }, file: config.file }
+      : undefined;
   }
 
   /**
-   * Checks if the README has detailed subsections under Technical Implementation
+   * Records a diagnostic and mirrors it into the plain error and warning lists
    */
-  private hasTechnicalSubsections(content: string): boolean {
-    // Find the Technical Implementation section
-    const technicalRegex = /## Technical Implementation\s+([\s\S]*?)(?=^##|\Z)/m;
-    const match = technicalRegex.exec(content);
-    
-    if (!match) return false;
-    
-    // Check for level 3 headings within the section
-    const subsectionRegex = /### ([^\n#]+)/g;
-    const technicalContent = match[1];
-    
-    return subsectionRegex.test(technicalContent);
+  private report(
+    result: ValidationResult,
+    ruleId: string,
+    severity: DiagnosticSeverity,
+    message: string,
+    range?: SourceRange
+  ): void {
+    const diagnostic: ValidationDiagnostic = { ruleId, severity, message };
+    if (range) {
+      diagnostic.range = range;
+    }
+    result.diagnostics.push(diagnostic);
+
+    if (severity === 'error') {
+      result.valid = false;
+      result.errors.push(message);
+    } else if (severity === 'warning') {
+      result.warnings.push(message);
+    }
   }
 }
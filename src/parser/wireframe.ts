@@ -0,0 +1,175 @@
+import { ReadmeCodeBlock, Wireframe, WireframeNode } from '../types/index.js';
+
+/**
+ * Code block languages that can hold a wireframe
+ */
+const WIREFRAME_LANGUAGES = new Set(['', 'text', 'txt', 'ascii', 'wireframe', 'plain']);
+
+/**
+ * A horizontal border such as `+-----+-----+`
+ */
+const BORDER_LINE = /^\s*\+[-=+]*\+\s*$/;
+
+/**
+ * Inline controls within a wireframe row, in order of precedence
+ */
+const CONTROL_PATTERN = /\[( |x|X|✓|✔)\]|[☐☑☒]|\[_+\]|\[([^\]]+)\]/g;
+
+/**
+ * Parses box-drawing wireframes from User Interface sections into layout trees.
+ * Boxes separated by `+---+` borders become regions, `|` delimited lines become
+ * rows, and rows are broken into buttons, checkboxes, inputs and text labels.
+ */
+export class WireframeParser {
+  /**
+   * Parse a code block as a wireframe
+   * @param block The code block to parse
+   * @returns The wireframe, or null if the block does not contain one
+   */
+  public parse(block: ReadmeCodeBlock): Wireframe | null {
+    if (!WIREFRAME_LANGUAGES.has(block.language)) {
+      return null;
+    }
+
+    const lines = block.content.split(/\r?\n/).map(line => line.trimEnd());
+    if (lines.filter(line => BORDER_LINE.test(line)).length < 2) {
+      return null;
+    }
+
+    const root: WireframeNode = { type: 'region', children: [] };
+    let border: string | null = null;
+    let body: string[] = [];
+
+    for (const line of lines) {
+      if (BORDER_LINE.test(line)) {
+        if (border !== null && body.length > 0) {
+          root.children.push(this.parseRegion(border, body));
+        }
+        border = line;
+        body = [];
+      } else if (border !== null && line.trim().startsWith('|')) {
+        body.push(line);
+      }
+    }
+
+    // A box left open at the end of the block
+    if (border !== null && body.length > 0) {
+      root.children.push(this.parseRegion(border, body));
+    }
+
+    return root.children.length > 0 ? { root, range: block.range } : null;
+  }
+
+  /**
+   * Parse the lines between two borders, splitting them into columns when the
+   * top border has inner `+` joints that line up with `|` in every line
+   */
+  private parseRegion(border: string, body: string[]): WireframeNode {
+    const start = border.indexOf('+');
+    const end = border.lastIndexOf('+');
+    const joints: number[] = [];
+    for (let i = start + 1; i < end; i++) {
+      if (border[i] === '+') joints.push(i);
+    }
+
+    const aligned = joints.length > 0 && body.every(line => joints.every(j => line[j] === '|'));
+    if (!aligned) {
+      return { type: 'region', children: this.parseRows(body.map(line => this.innerText(line))) };
+    }
+
+    const edges = [start, ...joints, end];
+    const columns: WireframeNode[] = [];
+    for (let c = 0; c < edges.length - 1; c++) {
+      const cells = body.map(line => line.slice(edges[c] + 1, edges[c + 1]));
+      columns.push({ type: 'region', children: this.parseRows(cells) });
+    }
+    return { type: 'region', children: columns };
+  }
+
+  /**
+   * Parse row texts, grouping runs of checkbox or bullet rows into lists
+   */
+  private parseRows(texts: string[]): WireframeNode[] {
+    const nodes: WireframeNode[] = [];
+    let list: WireframeNode | null = null;
+
+    for (const text of texts) {
+      if (text.trim() === '') continue;
+
+      const bullet = text.trim().match(/^[-*•]\s+(.*)$/);
+      const row = this.parseRow(bullet ? bullet[1] : text);
+      const isListRow = bullet !== null || row.children[0]?.type === 'checkbox';
+
+      if (!isListRow) {
+        list = null;
+        nodes.push(row);
+        continue;
+      }
+
+      if (!list) {
+        list = { type: 'list', children: [] };
+        nodes.push(list);
+      }
+      list.children.push(row);
+    }
+
+    // A single checkbox row is a form control rather than a list
+    return nodes.map(node =>
+      node.type === 'list' && node.children.length < 2 ? node.children[0] : node
+    );
+  }
+
+  /**
+   * Break a row into controls and the text labels between them
+   */
+  private parseRow(text: string): WireframeNode {
+    const row: WireframeNode = { type: 'row', children: [] };
+    let last = 0;
+
+    for (const match of text.matchAll(CONTROL_PATTERN)) {
+      this.pushText(row, text.slice(last, match.index));
+      row.children.push(this.parseControl(match));
+      last = match.index! + match[0].length;
+    }
+    this.pushText(row, text.slice(last));
+
+    return row;
+  }
+
+  /**
+   * Build the node for a single matched control
+   */
+  private parseControl(match: RegExpMatchArray): WireframeNode {
+    const token = match[0];
+    if (match[1] !== undefined || /^[☐☑☒]$/.test(token)) {
+      return {
+        type: 'checkbox',
+        checked: token !== '[ ]' && token !== '☐',
+        children: []
+      };
+    }
+    if (/^\[_+\]$/.test(token)) {
+      return { type: 'input', children: [] };
+    }
+    return { type: 'button', label: match[2].trim(), children: [] };
+  }
+
+  /**
+   * Add text labels, treating runs of two or more spaces as separators
+   */
+  private pushText(row: WireframeNode, text: string): void {
+    for (const label of text.split(/\s{2,}/)) {
+      if (label.trim() !== '') {
+        row.children.push({ type: 'text', label: label.trim(), children: [] });
+      }
+    }
+  }
+
+  /**
+   * Get the text between the outer `|` of a line
+   */
+  private innerText(line: string): string {
+    const trimmed = line.trim();
+    return trimmed.slice(1, trimmed.endsWith('|') ? -1 : undefined);
+  }
+}
@@ -37,6 +37,161 @@ export interface ReadmeSection {
   content: string;
   subsections: ReadmeSection[];
   level: number;
+  range: SourceRange;
+  lists: ReadmeList[];
+  tables: ReadmeTable[];
+  codeBlocks: ReadmeCodeBlock[];
+  wireframes: Wireframe[];
+}
+
+/**
+ * A bullet or numbered list found directly inside a section
+ */
+export interface ReadmeList {
+  ordered: boolean;
+  items: ReadmeListItem[];
+}
+
+/**
+ * A single list item, with any lists nested beneath it
+ */
+export interface ReadmeListItem {
+  text: string;
+  children: ReadmeList[];
+  range: SourceRange;
+}
+
+/**
+ * A markdown table found directly inside a section
+ */
+export interface ReadmeTable {
+  headers: string[];
+  rows: string[][];
+  range: SourceRange;
+}
+
+/**
+ * A fenced or indented code block found in the README
+ */
+export interface ReadmeCodeBlock {
+  /** Lowercased first word of the info string, or empty when untagged */
+  language: string;
+  /** The full info string following the opening fence */
+  info: string;
+  content: string;
+  range: SourceRange;
+  /** Titles of the enclosing sections, outermost first */
+  sectionPath: string[];
+}
+
+/**
+ * Kinds of element recognized in an ASCII wireframe
+ */
+export type WireframeNodeType =
+  | 'region'
+  | 'row'
+  | 'list'
+  | 'button'
+  | 'checkbox'
+  | 'input'
+  | 'text';
+
+/**
+ * A node in the layout tree of an ASCII wireframe
+ */
+export interface WireframeNode {
+  type: WireframeNodeType;
+  label?: string;
+  /** Whether a checkbox is drawn ticked */
+  checked?: boolean;
+  children: WireframeNode[];
+}
+
+/**
+ * A box-drawing wireframe parsed from a code block
+ */
+export interface Wireframe {
+  /** Region containing the boxes of the wireframe from top to bottom */
+  root: WireframeNode;
+  range: SourceRange;
+}
+
+/**
+ * A position in the README source. Lines and columns are 1-based.
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * A span of the README source, from start up to and including end
+ */
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+  /** File the range belongs to, when the README spans several files */
+  file?: string;
+}
+
+/**
+ * A single ZS metadata tag as written in the README
+ */
+export interface MetadataTag {
+  /** Upper-case key including the prefix, e.g. `ZS:PLATFORM` */
+  key: string;
+  value: string;
+  range: SourceRange;
+  source: 'comment' | 'front-matter';
+}
+
+/**
+ * ZS metadata merged from comment tags and YAML front matter
+ */
+export interface ReadmeMetadata {
+  platform?: string;
+  language?: string;
+  complexity?: 'LOW' | 'MEDIUM' | 'HIGH';
+  framework?: string;
+  dependencies: string[];
+  /** Every value of every key in document order, keyed without the `ZS:` prefix */
+  values: Record<string, string[]>;
+}
+
+/**
+ * Design tokens parsed from Style Guide sections, keyed by token name
+ * within each category, e.g. `colors.primary` or `motion.duration`
+ */
+export interface DesignTokens {
+  colors: Record<string, string>;
+  typography: Record<string, string>;
+  spacing: Record<string, string>;
+  motion: Record<string, string>;
+}
+
+/**
+ * Kinds of accessibility requirement the generators know how to enforce
+ */
+export type AccessibilityRuleKind =
+  | 'focus-management'
+  | 'semantic-html'
+  | 'aria'
+  | 'keyboard-navigation'
+  | 'contrast'
+  | 'labels'
+  | 'alt-text'
+  | 'reduced-motion';
+
+/**
+ * An accessibility requirement from an Accessibility section
+ */
+export interface AccessibilityRule {
+  kind: AccessibilityRuleKind;
+  /** The requirement as written */
+  text: string;
+  /** Minimum contrast ratio, for contrast rules */
+  minContrast?: number;
+  range: SourceRange;
 }
 
 /**
@@ -46,10 +201,246 @@ export interface ParsedReadme {
   title: string;
   description: string;
   sections: ReadmeSection[];
-  metadata: Record<string, string>;
+  codeBlocks: ReadmeCodeBlock[];
+  metadata: ReadmeMetadata;
+  metadataTags: MetadataTag[];
+  titleRange?: SourceRange;
+  entities: EntitySchema[];
+  features: Feature[];
+  commands: CommandModel;
+  designTokens: DesignTokens;
+  accessibility: AccessibilityRule[];
   appType?: AppType;
   languages?: ProgrammingLanguage[];
+  classification?: Classification;
   complexity?: 'LOW' | 'MEDIUM' | 'HIGH';
+  /** Spec version the README is checked against, from ZS:SPEC_VERSION or the default */
+  specVersion: string;
+  /** Problems noticed while extracting, such as unknown metadata keys */
+  diagnostics: ValidationDiagnostic[];
+}
+
+/**
+ * Severity of a validation diagnostic
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A single validation finding, located in the README source
+ */
+export interface ValidationDiagnostic {
+  ruleId: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  range?: SourceRange;
+}
+
+/**
+ * A scored candidate for the app type or a language of a README
+ */
+export interface ClassificationCandidate<T> {
+  value: T;
+  score: number;
+  /** Share of the total score across all candidates, from 0 to 1 */
+  confidence: number;
+  /** Human-readable reasons behind the score */
+  evidence: string[];
+}
+
+/**
+ * Ranked app type and language candidates for a README
+ */
+export interface Classification {
+  appTypes: ClassificationCandidate<AppType>[];
+  languages: ClassificationCandidate<ProgrammingLanguage>[];
+  /** True when the leading app type is not clearly ahead of the runner-up */
+  uncertain: boolean;
+}
+
+/**
+ * Primitive kinds a Data Model field can have
+ */
+export type FieldType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'object'
+  | 'reference'
+  | 'unknown';
+
+/**
+ * A single field of an entity described in a Data Model section
+ */
+export interface EntityField {
+  name: string;
+  type: FieldType;
+  /** The type exactly as written in the README */
+  rawType: string;
+  optional: boolean;
+  isArray: boolean;
+  description?: string;
+  /** Allowed values when the type is a union of literals */
+  values?: string[];
+  /** Target entity for reference fields and foreign keys */
+  reference?: string;
+}
+
+/**
+ * A relation from one entity to another, derived from its fields
+ */
+export interface EntityRelation {
+  field: string;
+  target: string;
+  cardinality: 'one' | 'many';
+}
+
+/**
+ * An entity described in a Data Model section
+ */
+export interface EntitySchema {
+  name: string;
+  description?: string;
+  fields: EntityField[];
+  relations: EntityRelation[];
+  range: SourceRange;
+}
+
+/**
+ * A requirement listed under a Features or Interactions section
+ */
+export interface Feature {
+  /** Stable identifier derived from the section, text and acceptance criteria */
+  id: string;
+  text: string;
+  kind: 'feature' | 'interaction';
+  /** Titles of the enclosing sections, outermost first */
+  sectionPath: string[];
+  /** Nested bullets refining the feature */
+  acceptanceCriteria: string[];
+  range: SourceRange;
+}
+
+/**
+ * A positional argument of a CLI command, e.g. `<file>` or `[tags...]`
+ */
+export interface CommandArgument {
+  name: string;
+  required: boolean;
+  /** Whether the argument takes all remaining values */
+  variadic: boolean;
+  description?: string;
+}
+
+/**
+ * An option of a CLI command, e.g. `-t, --tag <name>` or `--json`
+ */
+export interface CommandOption {
+  /** Long name without dashes, or the short name if there is no long one */
+  name: string;
+  /** Single-letter short name without the dash */
+  alias?: string;
+  /** Placeholder for the option's value; options without one are flags */
+  value?: string;
+  default?: string;
+  description?: string;
+}
+
+/**
+ * A command described in a Commands or Usage section
+ */
+export interface CliCommand {
+  /** Command words after the program name, e.g. `add` or `remote add` */
+  name: string;
+  description: string;
+  arguments: CommandArgument[];
+  options: CommandOption[];
+  range: SourceRange;
+}
+
+/**
+ * The command-line interface described by a README
+ */
+export interface CommandModel {
+  /** Name the program is run as, when usage examples show it */
+  program?: string;
+  commands: CliCommand[];
+  /** Options that apply to every command */
+  options: CommandOption[];
+}
+
+/**
+ * What a control of a generated web UI does
+ */
+export type UiAction = 'add' | 'remove' | 'toggle' | 'edit' | 'filter' | 'clear';
+
+/**
+ * A control in a region of a generated web UI
+ */
+export interface UiControl {
+  type: 'button' | 'checkbox' | 'text' | 'input';
+  label?: string;
+  action?: UiAction;
+  /** Event that triggers the action, e.g. `dblclick` for "Double-click the name" */
+  event?: string;
+  /** Entity field the control shows or edits */
+  field?: string;
+  /** Filter that a filter button selects */
+  filter?: string;
+}
+
+/**
+ * A region of a generated web UI, usually one box of the README wireframe
+ */
+export interface UiRegion {
+  kind: 'header' | 'filters' | 'list' | 'counter' | 'text';
+  /** Text shown in the region; in counters, `{count}` marks the number */
+  text?: string;
+  /** Which items a counter counts */
+  count?: 'all' | 'remaining';
+  controls: UiControl[];
+}
+
+/**
+ * A filter of the item list, e.g. Active or Completed
+ */
+export interface UiFilter {
+  name: string;
+  label: string;
+  /** JavaScript function expression that tests an item */
+  test: string;
+  /** Whether the filter could not be matched to a field and shows everything */
+  unmatched: boolean;
+}
+
+/**
+ * A README feature or interaction implemented by a UI action
+ */
+export interface UiRequirement {
+  id: string;
+  text: string;
+}
+
+/**
+ * The web UI planned from a README's wireframe, features, interactions and
+ * data model
+ */
+export interface WebAppPlan {
+  /** Entity the UI lists and edits */
+  entity?: string;
+  /** Field shown as each item's text */
+  textField?: string;
+  /** Boolean field that the checkbox toggles and counters and filters use */
+  doneField?: string;
+  regions: UiRegion[];
+  filters: UiFilter[];
+  defaultFilter?: string;
+  /** The actions the UI supports, with the requirements each implements */
+  actions: Partial<Record<UiAction, UiRequirement[]>>;
+  /** Interactions that match no action and are not wired */
+  unmatched: UiRequirement[];
+  /** localStorage key for each entity saved in the browser, by entity name */
+  storageKeys: Record<string, string>;
 }
 
 /**
@@ -59,15 +450,161 @@ export interface ValidationResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
+  diagnostics: ValidationDiagnostic[];
 }
 
+/**
+ * Parts of a README the quality score rates
+ */
+export type QualityAreaId = 'features' | 'data-model' | 'interface' | 'storage' | 'error-handling' | 'structure';
+
+/**
+ * How completely one part of a README is specified
+ */
+export interface QualityArea {
+  id: QualityAreaId;
+  title: string;
+  /** 0 to 100 */
+  score: number;
+  /** Share of the overall score, the weights of all areas add up to 1 */
+  weight: number;
+  /** What the score is based on, e.g. `3 of 5 features have acceptance criteria` */
+  findings: string[];
+  /** Concrete changes that would raise the score */
+  suggestions: string[];
+}
+
+/**
+ * Quality report for a README
+ */
+export interface QualityReport {
+  /** Weighted score from 0 to 100 */
+  score: number;
+  grade: 'A' | 'B' | 'C' | 'D' | 'F';
+  areas: QualityArea[];
+  /** The areas with the most room for improvement, lowest score first */
+  weakest: QualityArea[];
+}
+
+/**
+ * Output format of a validation report
+ */
+export type ReportFormat = 'text' | 'json' | 'sarif' | 'junit';
+
+/**
+ * Severity a project config can give a rule; `off` disables it
+ */
+export type RuleSeverity = DiagnosticSeverity | 'off';
+
+/**
+ * A single problem found by a validation rule
+ */
+export interface RuleFinding {
+  range?: SourceRange;
+  /** Values for the `{placeholders}` in the rule's message */
+  data?: Record<string, string>;
+  /** Replaces the rule's message, for rules that pass on existing diagnostics */
+  message?: string;
+}
+
+/**
+ * A validation rule run over the parsed README tree
+ */
+export interface ValidationRule {
+  id: string;
+  description: string;
+  defaultSeverity: DiagnosticSeverity;
+  /** Message template, e.g. `Missing required section: {section}` */
+  message: string;
+  check(parsed: ParsedReadme, options: Record<string, unknown>): RuleFinding[];
+}
+
+/**
+ * Project settings for a single rule, either a severity or a severity with options
+ */
+export type RuleConfig = RuleSeverity | {
+  severity?: RuleSeverity;
+  options?: Record<string, unknown>;
+};
+
+/**
+ * Project validator config, read from `.tinsrc.json`
+ */
+export interface ValidatorConfig {
+  rules: Record<string, RuleConfig>;
+  /** File the config was read from */
+  file?: string;
+}
+
+/**
+ * The language of a generated file: a programming language, or JSON for
+ * data and configuration
+ */
+export type FileLanguage = ProgrammingLanguage | 'json';
+
 /**
  * Represents a source code file to be generated
  */
 export interface SourceFile {
   path: string;
   content: string;
-  language: ProgrammingLanguage;
+  language: FileLanguage;
+}
+
+/**
+ * Result of fixing a README
+ */
+export interface FixResult {
+  /** The corrected README content */
+  content: string;
+  /** One line per change made, in the order they were applied */
+  changes: string[];
+  /** Unified diff from the original to the corrected README; empty if nothing changed */
+  diff: string;
+  /** Whether the corrected README was written back to its file */
+  written: boolean;
+  /** Validation of the corrected README */
+  validation: ValidationResult;
+}
+
+/**
+ * Result of migrating a README to another spec version
+ */
+export interface MigrationResult extends FixResult {
+  /** Spec version the README targeted before migrating */
+  fromVersion: string;
+  /** Spec version the README targets now */
+  toVersion: string;
+}
+
+/**
+ * Heading levels a spec version expects
+ */
+export interface HeadingConventions {
+  /** Level of top-level sections; the project title is always level 1 */
+  sectionLevel: number;
+  /** Deepest heading level allowed */
+  maxLevel: number;
+  /** Whether every heading must be exactly one level below its parent */
+  strictNesting: boolean;
+}
+
+/**
+ * What a version of the Zero Source specification requires of a README
+ */
+export interface SpecSchema {
+  version: string;
+  /** Sections that must be present, as `/` separated heading paths */
+  requiredSections: string[];
+  /** Whether the description must be in a Description section rather than below the title */
+  descriptionSection: boolean;
+  /** Metadata keys that may be used, without the `ZS:` prefix */
+  metadataKeys: string[];
+  /** Metadata keys that must be set, without the `ZS:` prefix */
+  requiredMetadata: string[];
+  headings: HeadingConventions;
+  /** Sections renamed in this version, from their old `/` separated path to the new title */
+  renamedSections: Record<string, string>;
 }
 
 /**
@@ -78,6 +615,8 @@ export interface GeneratorOptions {
   outputFormat?: 'files' | 'zip' | 'tarball';
   includeComments?: boolean;
   styleFramework?: string;
+  /** Directory of templates that override or extend the built-in ones */
+  templateDir?: string;
 }
 
 /**
@@ -87,10 +626,98 @@ export interface GenerationResult {
   files: SourceFile[];
   outputPath?: string;
   appType: AppType;
+  /** Language of the generated source, when a template was found */
+  language?: ProgrammingLanguage;
   mainFile?: string;
   commandToRun?: string;
 }
 
+/**
+ * A Data Model field as generated code sees it
+ */
+export interface AppField extends EntityField {
+  required: boolean;
+  /** Set for fields the server fills in: the id, or a created or updated timestamp */
+  managed?: 'id' | 'created' | 'updated';
+}
+
+/**
+ * A Data Model entity as generated code sees it
+ */
+export interface AppEntity extends Omit<EntitySchema, 'fields'> {
+  fields: AppField[];
+  plural: string;
+  /** REST resource name, e.g. `loan-items` for `LoanItem` */
+  resource: string;
+  idType: 'number' | 'string';
+  /** Whether the README lists an `id` field; generated code adds one if not */
+  hasId: boolean;
+  /** localStorage key, when the web UI saves the entity in the browser */
+  storageKey?: string;
+}
+
+/**
+ * What a route of a generated API server does with its entity
+ */
+export type ApiAction = 'list' | 'create' | 'get' | 'replace' | 'update' | 'remove';
+
+/**
+ * A route of a generated API server, e.g. `GET /books/:id`
+ */
+export interface ApiRoute {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  entity: string;
+  action: ApiAction;
+}
+
+/**
+ * What a README describes, independent of the language it is generated in.
+ * Language emitters turn it into files.
+ */
+export interface AppModel {
+  title: string;
+  description: string;
+  /** Project name for files and packages, e.g. `my-app` */
+  slug: string;
+  appType: AppType;
+  features: Feature[];
+  entities: AppEntity[];
+  /** REST routes for the entities, served by API servers */
+  routes: ApiRoute[];
+  /** The command-line interface, named after the slug if the README does not name it */
+  cli: CommandModel & { program: string };
+  ui: WebAppPlan;
+  /** Design tokens, with colors adjusted to meet any contrast requirement */
+  tokens: DesignTokens;
+  accessibility: AccessibilityRule[];
+  metadata: ReadmeMetadata;
+  complexity?: 'LOW' | 'MEDIUM' | 'HIGH';
+}
+
+/**
+ * Writes an application model as files in one programming language. Adding
+ * a language means adding an emitter and its templates.
+ */
+export interface LanguageEmitter {
+  readonly language: ProgrammingLanguage;
+  /**
+   * Write the app's files
+   * @param model The application model
+   * @param template The language's template for the app type
+   * @param partials Partials the template can include
+   */
+  emit(model: AppModel, template: CodeTemplate, partials: Map<string, string>): SourceFile[];
+  /**
+   * The file among the emitted ones that starts the app
+   */
+  mainFile(files: Pick<SourceFile, 'path'>[], appType: AppType): string | undefined;
+  /**
+   * The shell command that runs the app from the directory it is written to
+   */
+  runCommand(appType: AppType, mainFile: string): string | undefined;
+}
+
 /**
  * Template for generating code based on application type
  */
@@ -107,5 +734,5 @@ export interface CodeTemplate {
 export interface TemplateFile {
   path: string;
   template: string;
-  language: ProgrammingLanguage;
+  language: FileLanguage;
 }
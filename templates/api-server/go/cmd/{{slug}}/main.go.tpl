@@ -0,0 +1,31 @@
+// Command {{slug}} is the API server for {{title}}, generated from a Zero
+// Source README.
+package main
+
+import (
+	"log"
+	"net/http"
+	"os"
+	"path/filepath"
+
+	"{{slug}}/internal/api"
+	"{{slug}}/internal/models"
+	"{{slug}}/internal/store"
+)
+
+const name = {{title | json}}
+
+func main() {
+	dir := os.Getenv("DATA_DIR")
+	if dir == "" {
+		dir = filepath.Join(".", "data")
+	}
+	server := api.NewServer(name, store.New(dir), models.All)
+
+	port := os.Getenv("PORT")
+	if port == "" {
+		port = "3000"
+	}
+	log.Printf("%s listening on http://localhost:%s", name, port)
+	log.Fatal(http.ListenAndServe(":"+port, server))
+}
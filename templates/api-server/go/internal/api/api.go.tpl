@@ -0,0 +1,358 @@
+// Package api serves models as REST resources with net/http.
+package api
+
+import (
+	"encoding/json"
+	"errors"
+	"fmt"
+	"io"
+	"log"
+	"net/http"
+	"strconv"
+	"strings"
+	"time"
+
+	"{{slug}}/internal/store"
+)
+
+const maxBodyBytes = 1 << 20
+
+// Field describes a field of a model to the validator
+type Field struct {
+	Name     string
+	Type     string
+	Required bool
+	Array    bool
+	Values   []string
+	// Managed is set for fields the server sets: "id", or a "created" or
+	// "updated" timestamp
+	Managed string
+}
+
+// Model describes a model from the README Data Model
+type Model struct {
+	Name       string
+	Collection string
+	IDType     string
+	Fields     []Field
+	// Encode writes a record as JSON through the model's struct
+	Encode func(store.Record) (json.RawMessage, error)
+}
+
+// Encode writes a record as JSON through T, so its fields come out in the
+// order T declares them and unset optional fields are left out
+func Encode[T any](record store.Record) (json.RawMessage, error) {
+	data, err := json.Marshal(record)
+	if err != nil {
+		return nil, err
+	}
+	var value T
+	if err := json.Unmarshal(data, &value); err != nil {
+		return nil, err
+	}
+	return json.MarshalIndent(value, "", "  ")
+}
+
+// Error is an error to respond with, such as a 404 or a 422
+type Error struct {
+	Status  int
+	Message string
+	Details []string
+}
+
+func (e *Error) Error() string {
+	return e.Message
+}
+
+// Server routes / and /<resource>[/<id>] to the CRUD handlers below
+type Server struct {
+	name   string
+	store  *store.FileStore
+	models []Model
+}
+
+// NewServer serves the models from a store
+func NewServer(name string, s *store.FileStore, models []Model) *Server {
+	return &Server{name: name, store: s, models: models}
+}
+
+type route struct {
+	method  string
+	handler func() error
+}
+
+func (s *Server) ServeHTTP(w http.ResponseWriter, r *http.Request) {
+	segments := strings.FieldsFunc(r.URL.Path, func(c rune) bool { return c == '/' })
+	model := s.model(segments)
+
+	var routes []route
+	switch {
+	case len(segments) == 0:
+		routes = []route{
+			{http.MethodGet, func() error { return s.index(w) }},
+		}
+	case model == nil || len(segments) > 2:
+		writeError(w, &Error{Status: http.StatusNotFound, Message: fmt.Sprintf("No route for %s %s", r.Method, r.URL.Path)})
+		return
+	case len(segments) == 1:
+		routes = []route{
+			{http.MethodGet, func() error { return s.list(w, r, model) }},
+			{http.MethodPost, func() error { return s.create(w, r, model) }},
+		}
+	default:
+		id := segments[1]
+		routes = []route{
+			{http.MethodGet, func() error { return s.get(w, model, id) }},
+			{http.MethodPut, func() error { return s.replace(w, r, model, id) }},
+			{http.MethodPatch, func() error { return s.update(w, r, model, id) }},
+			{http.MethodDelete, func() error { return s.remove(w, model, id) }},
+		}
+	}
+
+	allowed := make([]string, 0, len(routes))
+	for _, route := range routes {
+		if route.method == r.Method {
+			if err := route.handler(); err != nil {
+				writeError(w, err)
+			}
+			return
+		}
+		allowed = append(allowed, route.method)
+	}
+	w.Header().Set("Allow", strings.Join(allowed, ", "))
+	writeError(w, &Error{Status: http.StatusMethodNotAllowed, Message: fmt.Sprintf("%s is not allowed on %s", r.Method, r.URL.Path)})
+}
+
+func (s *Server) model(segments []string) *Model {
+	for i := range s.models {
+		if len(segments) > 0 && s.models[i].Collection == segments[0] {
+			return &s.models[i]
+		}
+	}
+	return nil
+}
+
+// Handlers
+
+func (s *Server) index(w http.ResponseWriter) error {
+	resources := make([]string, len(s.models))
+	for i, model := range s.models {
+		resources[i] = "/" + model.Collection
+	}
+	return writeJSON(w, http.StatusOK, map[string]any{"name": s.name, "resources": resources})
+}
+
+// list filters by query parameters, e.g. ?completed=true
+func (s *Server) list(w http.ResponseWriter, r *http.Request, model *Model) error {
+	records, err := s.store.List(model.Collection)
+	if err != nil {
+		return err
+	}
+
+	matches := []json.RawMessage{}
+	query := r.URL.Query()
+	for _, record := range records {
+		if !matchesQuery(record, query) {
+			continue
+		}
+		data, err := model.Encode(record)
+		if err != nil {
+			return err
+		}
+		matches = append(matches, data)
+	}
+	return writeJSON(w, http.StatusOK, matches)
+}
+
+func (s *Server) get(w http.ResponseWriter, model *Model, id string) error {
+	record, err := s.find(model, id)
+	if err != nil {
+		return err
+	}
+	return writeRecord(w, http.StatusOK, model, record)
+}
+
+func (s *Server) create(w http.ResponseWriter, r *http.Request, model *Model) error {
+	body, err := readBody(w, r, model, false)
+	if err != nil {
+		return err
+	}
+	record, err := s.store.Insert(model.Collection, prepare(model, body, nil), model.IDType)
+	if err != nil {
+		return err
+	}
+	return writeRecord(w, http.StatusCreated, model, record)
+}
+
+func (s *Server) replace(w http.ResponseWriter, r *http.Request, model *Model, id string) error {
+	existing, err := s.find(model, id)
+	if err != nil {
+		return err
+	}
+	body, err := readBody(w, r, model, false)
+	if err != nil {
+		return err
+	}
+	record, err := s.store.Put(model.Collection, existing["id"], prepare(model, body, existing))
+	if err != nil {
+		return err
+	}
+	return writeRecord(w, http.StatusOK, model, record)
+}
+
+func (s *Server) update(w http.ResponseWriter, r *http.Request, model *Model, id string) error {
+	existing, err := s.find(model, id)
+	if err != nil {
+		return err
+	}
+	body, err := readBody(w, r, model, true)
+	if err != nil {
+		return err
+	}
+
+	merged := store.Record{}
+	for name, value := range existing {
+		merged[name] = value
+	}
+	for name, value := range body {
+		merged[name] = value
+	}
+	record, err := s.store.Put(model.Collection, existing["id"], prepare(model, merged, existing))
+	if err != nil {
+		return err
+	}
+	return writeRecord(w, http.StatusOK, model, record)
+}
+
+func (s *Server) remove(w http.ResponseWriter, model *Model, id string) error {
+	if _, err := s.find(model, id); err != nil {
+		return err
+	}
+	if _, err := s.store.Remove(model.Collection, id); err != nil {
+		return err
+	}
+	w.WriteHeader(http.StatusNoContent)
+	return nil
+}
+
+func (s *Server) find(model *Model, id string) (store.Record, error) {
+	record, err := s.store.Get(model.Collection, id)
+	if err == nil && record == nil {
+		err = &Error{Status: http.StatusNotFound, Message: fmt.Sprintf("%s %s not found", model.Name, id)}
+	}
+	return record, err
+}
+
+// Helpers
+
+// readBody reads a JSON body and rejects it with 422 Unprocessable Entity
+// if it does not match the model. With partial, as for PATCH, missing
+// fields are allowed.
+func readBody(w http.ResponseWriter, r *http.Request, model *Model, partial bool) (store.Record, error) {
+	data, err := io.ReadAll(http.MaxBytesReader(w, r.Body, maxBodyBytes))
+	var tooLarge *http.MaxBytesError
+	if errors.As(err, &tooLarge) {
+		return nil, &Error{Status: http.StatusRequestEntityTooLarge, Message: "Request body is too large"}
+	}
+	if err != nil {
+		return nil, err
+	}
+
+	var body any
+	if len(data) > 0 {
+		if err := json.Unmarshal(data, &body); err != nil {
+			return nil, &Error{Status: http.StatusBadRequest, Message: "Request body is not valid JSON"}
+		}
+	}
+	if problems := Check(model, body, partial); len(problems) > 0 {
+		return nil, &Error{Status: http.StatusUnprocessableEntity, Message: "Invalid " + model.Name, Details: problems}
+	}
+	return body.(map[string]any), nil
+}
+
+// prepare sets the fields the server manages, ignoring any values the
+// client sent
+func prepare(model *Model, body store.Record, existing store.Record) store.Record {
+	record := store.Record{}
+	for name, value := range body {
+		if name != "id" {
+			record[name] = value
+		}
+	}
+
+	now := time.Now().UTC().Format("2006-01-02T15:04:05.000Z")
+	for _, field := range model.Fields {
+		switch field.Managed {
+		case "id":
+			delete(record, field.Name)
+		case "created":
+			if existing != nil {
+				record[field.Name] = existing[field.Name]
+			} else {
+				record[field.Name] = now
+			}
+		case "updated":
+			record[field.Name] = now
+		}
+	}
+	return record
+}
+
+func matchesQuery(record store.Record, query map[string][]string) bool {
+	for name, values := range query {
+		if text(record[name]) != values[0] {
+			return false
+		}
+	}
+	return true
+}
+
+// text is a value as it would appear in a query string
+func text(value any) string {
+	switch value := value.(type) {
+	case nil:
+		return "null"
+	case string:
+		return value
+	case float64:
+		return strconv.FormatFloat(value, 'f', -1, 64)
+	default:
+		data, _ := json.Marshal(value)
+		return string(data)
+	}
+}
+
+func writeRecord(w http.ResponseWriter, status int, model *Model, record store.Record) error {
+	data, err := model.Encode(record)
+	if err != nil {
+		return err
+	}
+	return writeJSON(w, status, data)
+}
+
+func writeJSON(w http.ResponseWriter, status int, body any) error {
+	data, err := json.MarshalIndent(body, "", "  ")
+	if err != nil {
+		return err
+	}
+	w.Header().Set("Content-Type", "application/json; charset=utf-8")
+	w.WriteHeader(status)
+	_, err = w.Write(data)
+	return err
+}
+
+func writeError(w http.ResponseWriter, err error) {
+	var apiErr *Error
+	if !errors.As(err, &apiErr) {
+		log.Print(err)
+		apiErr = &Error{Status: http.StatusInternalServerError, Message: "Internal server error"}
+	}
+
+	body := struct {
+		Error   string   `json:"error"`
+		Details []string `json:"details,omitempty"`
+	}{apiErr.Message, apiErr.Details}
+	if err := writeJSON(w, apiErr.Status, body); err != nil {
+		log.Print(err)
+	}
+}
@@ -0,0 +1,117 @@
+package api
+
+import (
+	"fmt"
+	"sort"
+	"strings"
+	"time"
+)
+
+var checks = map[string]func(any) bool{
+	"string": func(value any) bool { _, ok := value.(string); return ok },
+	// JSON numbers decode as float64
+	"number":  func(value any) bool { _, ok := value.(float64); return ok },
+	"boolean": func(value any) bool { _, ok := value.(bool); return ok },
+	"date":    isDate,
+	"object":  func(value any) bool { _, ok := value.(map[string]any); return ok },
+	"reference": func(value any) bool {
+		switch value.(type) {
+		case string, float64:
+			return true
+		}
+		return false
+	},
+	"unknown": func(any) bool { return true },
+}
+
+// Check lists the problems with a request body; none means it is valid.
+// With partial, as for PATCH, missing fields are allowed.
+func Check(model *Model, body any, partial bool) []string {
+	values, ok := body.(map[string]any)
+	if !ok {
+		return []string{"Request body must be a JSON object"}
+	}
+
+	var problems []string
+	known := map[string]bool{}
+	for _, field := range model.Fields {
+		known[field.Name] = true
+		// Ids and timestamps are set by the server
+		if field.Managed != "" {
+			continue
+		}
+
+		value := values[field.Name]
+		if value == nil {
+			if field.Required && !partial {
+				problems = append(problems, field.Name+" is required")
+			}
+			continue
+		}
+
+		items := []any{value}
+		if field.Array {
+			if items, ok = value.([]any); !ok {
+				problems = append(problems, field.Name+" must be an array")
+				continue
+			}
+		}
+
+		check, ok := checks[field.Type]
+		if !ok {
+			check = checks["unknown"]
+		}
+		if !all(items, check) {
+			suffix := ""
+			if field.Array {
+				suffix = "[]"
+			}
+			problems = append(problems, fmt.Sprintf("%s must be of type %s%s", field.Name, field.Type, suffix))
+		} else if len(field.Values) > 0 && !all(items, func(item any) bool { return contains(field.Values, item) }) {
+			problems = append(problems, fmt.Sprintf("%s must be one of %s", field.Name, strings.Join(field.Values, ", ")))
+		}
+	}
+
+	var unknown []string
+	for name := range values {
+		if !known[name] {
+			unknown = append(unknown, name)
+		}
+	}
+	sort.Strings(unknown)
+	for _, name := range unknown {
+		problems = append(problems, fmt.Sprintf("%s is not a field of %s", name, model.Name))
+	}
+	return problems
+}
+
+func isDate(value any) bool {
+	text, ok := value.(string)
+	if !ok {
+		return false
+	}
+	for _, layout := range []string{time.RFC3339Nano, "2006-01-02"} {
+		if _, err := time.Parse(layout, text); err == nil {
+			return true
+		}
+	}
+	return false
+}
+
+func all(items []any, check func(any) bool) bool {
+	for _, item := range items {
+		if !check(item) {
+			return false
+		}
+	}
+	return true
+}
+
+func contains(values []string, item any) bool {
+	for _, value := range values {
+		if value == item {
+			return true
+		}
+	}
+	return false
+}
@@ -0,0 +1,30 @@
+// Package {{goPackage}} holds the {{name}} model, from the README Data Model.
+package {{goPackage}}
+
+import "{{slug}}/internal/api"
+
+// {{name | pascal}} is a record served at /{{resource}}
+type {{name | pascal}} struct {
+{{#each fields}}
+	// {{#if description}}{{description}}{{else}}{{name}}: {{rawType}}{{/if}}
+	{{name | pascal}} {{goType}} `json:"{{name}}{{#unless required}},omitempty{{/unless}}"`
+{{#unless @last}}
+
+{{/unless}}
+{{/each}}
+}
+
+// Model describes {{plural}} to the server
+var Model = api.Model{
+	Name:       {{name | json}},
+	Collection: {{resource | json}},
+	IDType:     {{idType | json}},
+	Fields: []api.Field{
+{{#each fields}}
+		{Name: {{name | json}}, Type: {{type | json}}{{#if required}}, Required: true{{/if}}{{#if isArray}}, Array: true{{/if}}{{#if values}}, Values: []string{
+			{{#each values}}{{this | json}},{{#unless @last}} {{/unless}}{{/each}}
+		}{{/if}}{{#if managed}}, Managed: {{managed | json}}{{/if}}},
+{{/each}}
+	},
+	Encode: api.Encode[{{name | pascal}}],
+}
@@ -0,0 +1,20 @@
+// Package models lists the models from the README Data Model.
+package models
+
+import (
+	"{{slug}}/internal/api"
+{{#each goPackages.entities}}
+	"{{slug}}/internal/models/{{this}}"
+{{/each}}
+)
+
+// All models, each served at /<resource>
+{{#if entities}}
+var All = []api.Model{
+{{#each entities}}
+	{{goPackage}}.Model,
+{{/each}}
+}
+{{else}}
+var All = []api.Model{}
+{{/if}}
@@ -0,0 +1,196 @@
+// Package store keeps each collection of records in memory and saves it to
+// <dir>/<collection>.json after every change.
+package store
+
+import (
+	"crypto/rand"
+	"encoding/json"
+	"errors"
+	"fmt"
+	"io/fs"
+	"os"
+	"path/filepath"
+	"sync"
+)
+
+// Record is a record as it is stored and sent: its JSON fields by name
+type Record = map[string]any
+
+// FileStore is a file-backed store that is safe for concurrent use
+type FileStore struct {
+	dir         string
+	mu          sync.Mutex
+	collections map[string][]Record
+}
+
+// New returns a store that saves its collections in dir
+func New(dir string) *FileStore {
+	return &FileStore{dir: dir, collections: map[string][]Record{}}
+}
+
+// List returns the records of a collection in the order they were added
+func (s *FileStore) List(collection string) ([]Record, error) {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+
+	records, err := s.load(collection)
+	if err != nil {
+		return nil, err
+	}
+	return append([]Record(nil), records...), nil
+}
+
+// Get returns the record with an id, or nil if there is none
+func (s *FileStore) Get(collection, id string) (Record, error) {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+
+	records, err := s.load(collection)
+	if err != nil {
+		return nil, err
+	}
+	if i := indexOf(records, id); i >= 0 {
+		return records[i], nil
+	}
+	return nil, nil
+}
+
+// Insert adds a record with a new id: the next integer for numeric ids,
+// otherwise a UUID
+func (s *FileStore) Insert(collection string, record Record, idType string) (Record, error) {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+
+	records, err := s.load(collection)
+	if err != nil {
+		return nil, err
+	}
+
+	var id any
+	if idType == "number" {
+		next := 1
+		for _, existing := range records {
+			if n, ok := existing["id"].(float64); ok && int(n) >= next {
+				next = int(n) + 1
+			} else if n, ok := existing["id"].(int); ok && n >= next {
+				next = n + 1
+			}
+		}
+		id = next
+	} else if id, err = newUUID(); err != nil {
+		return nil, err
+	}
+
+	stored := withID(id, record)
+	s.collections[collection] = append(records, stored)
+	return stored, s.save(collection)
+}
+
+// Put adds or replaces the record with an id
+func (s *FileStore) Put(collection string, id any, record Record) (Record, error) {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+
+	records, err := s.load(collection)
+	if err != nil {
+		return nil, err
+	}
+
+	stored := withID(id, record)
+	if i := indexOf(records, fmt.Sprint(id)); i >= 0 {
+		records[i] = stored
+	} else {
+		s.collections[collection] = append(records, stored)
+	}
+	return stored, s.save(collection)
+}
+
+// Remove deletes the record with an id, reporting whether there was one
+func (s *FileStore) Remove(collection, id string) (bool, error) {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+
+	records, err := s.load(collection)
+	if err != nil {
+		return false, err
+	}
+	i := indexOf(records, id)
+	if i < 0 {
+		return false, nil
+	}
+	s.collections[collection] = append(records[:i:i], records[i+1:]...)
+	return true, s.save(collection)
+}
+
+func (s *FileStore) load(collection string) ([]Record, error) {
+	if records, ok := s.collections[collection]; ok {
+		return records, nil
+	}
+
+	var records []Record
+	data, err := os.ReadFile(s.file(collection))
+	if err != nil && !errors.Is(err, fs.ErrNotExist) {
+		return nil, err
+	}
+	if err == nil {
+		if err := json.Unmarshal(data, &records); err != nil {
+			return nil, fmt.Errorf("reading %s: %w", s.file(collection), err)
+		}
+	}
+	s.collections[collection] = records
+	return records, nil
+}
+
+func (s *FileStore) save(collection string) error {
+	if err := os.MkdirAll(s.dir, 0o755); err != nil {
+		return err
+	}
+	records := s.collections[collection]
+	if records == nil {
+		records = []Record{}
+	}
+	data, err := json.MarshalIndent(records, "", "  ")
+	if err != nil {
+		return err
+	}
+
+	// Write a temporary file first so a crash cannot leave half a file
+	temporary := s.file(collection) + ".tmp"
+	if err := os.WriteFile(temporary, data, 0o644); err != nil {
+		return err
+	}
+	return os.Rename(temporary, s.file(collection))
+}
+
+func (s *FileStore) file(collection string) string {
+	return filepath.Join(s.dir, collection+".json")
+}
+
+func indexOf(records []Record, id string) int {
+	for i, record := range records {
+		if fmt.Sprint(record["id"]) == id {
+			return i
+		}
+	}
+	return -1
+}
+
+func withID(id any, record Record) Record {
+	stored := Record{"id": id}
+	for name, value := range record {
+		if name != "id" {
+			stored[name] = value
+		}
+	}
+	return stored
+}
+
+func newUUID() (string, error) {
+	b := make([]byte, 16)
+	if _, err := rand.Read(b); err != nil {
+		return "", err
+	}
+	b[6] = b[6]&0x0f | 0x40
+	b[8] = b[8]&0x3f | 0x80
+	return fmt.Sprintf("%x-%x-%x-%x-%x", b[0:4], b[4:6], b[6:8], b[8:10], b[10:]), nil
+}
@@ -0,0 +1,64 @@
+// CRUD handlers shared by every model
+
+const { httpError, send } = require('./router');
+const { store } = require('./store');
+
+function controller(model) {
+    const find = id => {
+        const record = store.get(model.collection, id);
+        if (!record) throw httpError(404, `${model.name} ${id} not found`);
+        return record;
+    };
+
+    return {
+        // Query parameters filter the list, e.g. ?completed=true
+        list(req, res) {
+            const filters = Object.entries(req.query);
+            send(res, 200, store.list(model.collection)
+                .filter(record => filters.every(([key, value]) => String(record[key]) === value)));
+        },
+
+        get(req, res) {
+            send(res, 200, find(req.params.id));
+        },
+
+        create(req, res) {
+            send(res, 201, store.insert(model.collection, prepare(model, req.body), model.idType));
+        },
+
+        replace(req, res) {
+            const existing = find(req.params.id);
+            send(res, 200, store.put(model.collection, existing.id, prepare(model, req.body, existing)));
+        },
+
+        update(req, res) {
+            const existing = find(req.params.id);
+            send(res, 200, store.put(model.collection, existing.id, prepare(model, { ...existing, ...req.body }, existing)));
+        },
+
+        remove(req, res) {
+            find(req.params.id);
+            store.remove(model.collection, req.params.id);
+            send(res, 204);
+        }
+    };
+}
+
+/**
+ * Set the fields the server manages, ignoring any values the client sent
+ */
+function prepare(model, body, existing) {
+    const record = { ...body };
+    const now = new Date().toISOString();
+
+    for (const [name, field] of Object.entries(model.fields)) {
+        if (field.managed === 'id') delete record[name];
+        if (field.managed === 'created') record[name] = existing ? existing[name] : now;
+        if (field.managed === 'updated') record[name] = now;
+    }
+    delete record.id;
+
+    return record;
+}
+
+module.exports = { controller };
@@ -0,0 +1,115 @@
+// Routing and JSON helpers built on Node's http module
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+class Router {
+    constructor() {
+        this.routes = [];
+    }
+
+    get(pattern, ...handlers) { this.add('GET', pattern, handlers); }
+    post(pattern, ...handlers) { this.add('POST', pattern, handlers); }
+    put(pattern, ...handlers) { this.add('PUT', pattern, handlers); }
+    patch(pattern, ...handlers) { this.add('PATCH', pattern, handlers); }
+    delete(pattern, ...handlers) { this.add('DELETE', pattern, handlers); }
+
+    /**
+     * Register handlers for a method and a path such as /tasks/:id. Each
+     * handler is called as (req, res, next) and may throw an httpError.
+     */
+    add(method, pattern, handlers) {
+        const keys = [];
+        const source = pattern.replace(/\/:(\w+)/g, (_, key) => {
+            keys.push(key);
+            return '/([^/]+)';
+        });
+        this.routes.push({ method, regex: new RegExp(`^${source}/?$`), keys, handlers });
+    }
+
+    async handle(req, res) {
+        const url = new URL(req.url, 'http://localhost');
+        const allowed = [];
+
+        for (const route of this.routes) {
+            const match = route.regex.exec(url.pathname);
+            if (!match) continue;
+            if (route.method !== req.method) {
+                allowed.push(route.method);
+                continue;
+            }
+
+            req.params = Object.fromEntries(route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+            req.query = Object.fromEntries(url.searchParams);
+            try {
+                req.body = await readBody(req);
+                await run(route.handlers, req, res);
+            } catch (error) {
+                if (!error.status) console.error(error);
+                sendError(res, error.status || 500, error.status ? error.message : 'Internal server error', error.details);
+            }
+            return;
+        }
+
+        if (allowed.length > 0) {
+            res.setHeader('Allow', allowed.join(', '));
+            sendError(res, 405, `${req.method} is not allowed on ${url.pathname}`);
+        } else {
+            sendError(res, 404, `No route for ${req.method} ${url.pathname}`);
+        }
+    }
+}
+
+async function run(handlers, req, res) {
+    let index = 0;
+    const next = async () => {
+        const handler = handlers[index++];
+        if (handler) await handler(req, res, next);
+    };
+    await next();
+}
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        let data = '';
+        req.setEncoding('utf8');
+        req.on('data', chunk => {
+            data += chunk;
+            if (data.length > MAX_BODY_BYTES) {
+                reject(httpError(413, 'Request body is too large'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => {
+            if (!data) return resolve(undefined);
+            try {
+                resolve(JSON.parse(data));
+            } catch {
+                reject(httpError(400, 'Request body is not valid JSON'));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+function httpError(status, message, details) {
+    const error = new Error(message);
+    error.status = status;
+    error.details = details;
+    return error;
+}
+
+function send(res, status, body) {
+    if (body === undefined) {
+        res.writeHead(status);
+        res.end();
+        return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body, null, 2));
+}
+
+function sendError(res, status, message, details) {
+    send(res, status, details ? { error: message, details } : { error: message });
+}
+
+module.exports = { Router, httpError, send };
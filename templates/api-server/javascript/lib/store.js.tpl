@@ -0,0 +1,73 @@
+// File-backed store: each collection is kept in memory and saved to
+// <data dir>/<collection>.json after every change
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+class FileStore {
+    constructor(dir) {
+        this.dir = dir;
+        this.collections = new Map();
+    }
+
+    list(collection) {
+        return [...this.load(collection).values()];
+    }
+
+    get(collection, id) {
+        return this.load(collection).get(String(id));
+    }
+
+    /**
+     * Add a record with a new id: the next integer for numeric ids,
+     * otherwise a UUID
+     */
+    insert(collection, record, idType = 'string') {
+        const items = this.load(collection);
+        const id = idType === 'number'
+            ? Math.max(0, ...[...items.values()].map(item => Number(item.id) || 0)) + 1
+            : crypto.randomUUID();
+        const stored = { id, ...record };
+        items.set(String(id), stored);
+        this.save(collection);
+        return stored;
+    }
+
+    put(collection, id, record) {
+        const stored = { id, ...record };
+        this.load(collection).set(String(id), stored);
+        this.save(collection);
+        return stored;
+    }
+
+    remove(collection, id) {
+        const removed = this.load(collection).delete(String(id));
+        if (removed) this.save(collection);
+        return removed;
+    }
+
+    load(collection) {
+        if (!this.collections.has(collection)) {
+            const file = this.file(collection);
+            const records = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : [];
+            this.collections.set(collection, new Map(records.map(record => [String(record.id), record])));
+        }
+        return this.collections.get(collection);
+    }
+
+    save(collection) {
+        fs.mkdirSync(this.dir, { recursive: true });
+        const file = this.file(collection);
+        fs.writeFileSync(`${file}.tmp`, JSON.stringify(this.list(collection), null, 2));
+        fs.renameSync(`${file}.tmp`, file);
+    }
+
+    file(collection) {
+        return path.join(this.dir, `${collection}.json`);
+    }
+}
+
+const store = new FileStore(process.env.DATA_DIR || path.join(__dirname, '..', 'data'));
+
+module.exports = { FileStore, store };
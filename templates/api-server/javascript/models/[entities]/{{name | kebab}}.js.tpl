@@ -0,0 +1,12 @@
+// {{name}} model, from the README Data Model
+
+module.exports = {
+    name: {{name | json}},
+    collection: {{resource | json}},
+    idType: {{idType | json}},
+    fields: {
+{{#each fields}}
+        {{name | json}}: { type: {{type | json}}, required: {{required}}, array: {{isArray}}{{#if values}}, values: {{values | json}}{{/if}}{{#if managed}}, managed: {{managed | json}}{{/if}} }{{#unless @last}},{{/unless}}
+{{/each}}
+    }
+};
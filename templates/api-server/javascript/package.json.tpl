@@ -0,0 +1,11 @@
+{
+  "name": {{slug | json}},
+  "version": "1.0.0",
+  "description": {{description | json}},
+  "main": "server.js",
+  "scripts": {
+    "start": "node server.js"
+  },
+  "author": "",
+  "license": "MIT"
+}
@@ -0,0 +1,16 @@
+// Routes for {{plural}}
+
+const {{name | pascal}} = require('../models/{{name | kebab}}');
+const { controller } = require('../lib/controller');
+const { validate } = require('../lib/validate');
+
+module.exports = router => {
+    const {{plural | camel}} = controller({{name | pascal}});
+
+    router.get('/{{resource}}', {{plural | camel}}.list);
+    router.post('/{{resource}}', validate({{name | pascal}}), {{plural | camel}}.create);
+    router.get('/{{resource}}/:id', {{plural | camel}}.get);
+    router.put('/{{resource}}/:id', validate({{name | pascal}}), {{plural | camel}}.replace);
+    router.patch('/{{resource}}/:id', validate({{name | pascal}}, { partial: true }), {{plural | camel}}.update);
+    router.delete('/{{resource}}/:id', {{plural | camel}}.remove);
+};
@@ -0,0 +1,22 @@
+#!/usr/bin/env node
+// API server for {{title}}, generated from a Zero Source README
+
+const http = require('http');
+const { Router, send } = require('./lib/router');
+
+const NAME = {{title | json}};
+const router = new Router();
+
+router.get('/', (req, res) => send(res, 200, {
+    name: NAME,
+    resources: [{{#each entities}}'/{{resource}}'{{#unless @last}}, {{/unless}}{{/each}}]
+}));
+{{#each entities}}
+require('./routes/{{name | kebab}}')(router);
+{{/each}}
+
+const port = Number(process.env.PORT) || 3000;
+
+http.createServer((req, res) => router.handle(req, res)).listen(port, () => {
+    console.log(`${NAME} listening on http://localhost:${port}`);
+});
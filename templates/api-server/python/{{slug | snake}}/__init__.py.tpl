@@ -0,0 +1,3 @@
+"""{{title}}, generated from a Zero Source README"""
+
+__version__ = "1.0.0"
@@ -0,0 +1,5 @@
+"""Start the API server: python -m {{slug | snake}}"""
+
+from .server import main
+
+main()
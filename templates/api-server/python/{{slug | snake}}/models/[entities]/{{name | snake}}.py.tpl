@@ -0,0 +1,41 @@
+"""{{name}} model, from the README Data Model"""
+
+from __future__ import annotations
+
+from dataclasses import dataclass, field
+from typing import Any, Literal
+
+from .base import FieldSpec, Model
+
+
+@dataclass
+class {{name | pascal}}:
+{{#each fields}}
+{{#if required}}
+{{#unless managed}}
+    {{pyName}}: {{pyType}} = field(metadata={"json": {{name | json}}})
+{{/unless}}
+{{/if}}
+{{/each}}
+{{#each fields}}
+{{#if required}}
+{{#if managed}}
+    {{pyName}}: {{pyType}} | None = field(default=None, metadata={"json": {{name | json}}})
+{{/if}}
+{{else}}
+    {{pyName}}: {{pyType}} | None = field(default=None, metadata={"json": {{name | json}}})
+{{/if}}
+{{/each}}
+
+
+{{name | snake | upper}} = Model(
+    name={{name | json}},
+    collection={{resource | json}},
+    id_type={{idType | json}},
+    record={{name | pascal}},
+    fields={
+{{#each fields}}
+        {{name | json}}: FieldSpec({{type | json}}, required={{#if required}}True{{else}}False{{/if}}, array={{#if isArray}}True{{else}}False{{/if}}{{#if values}}, values=[{{#each values}}{{this | json}}{{#unless @last}}, {{/unless}}{{/each}}]{{/if}}{{#if managed}}, managed={{managed | json}}{{/if}}),
+{{/each}}
+    },
+)
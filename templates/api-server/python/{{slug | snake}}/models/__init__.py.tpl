@@ -0,0 +1,12 @@
+"""Models from the README Data Model, by REST resource name"""
+
+from .base import Model
+{{#each entities}}
+from .{{name | snake}} import {{name | pascal}}, {{name | snake | upper}}
+{{/each}}
+
+MODELS: dict[str, Model] = {
+{{#each entities}}
+    {{resource | json}}: {{name | snake | upper}},
+{{/each}}
+}
@@ -0,0 +1,42 @@
+"""How models describe their fields to the server and validator"""
+
+from __future__ import annotations
+
+import dataclasses
+from dataclasses import dataclass
+from typing import Any, Optional
+
+
+@dataclass(frozen=True)
+class FieldSpec:
+    type: str
+    required: bool
+    array: bool = False
+    values: Optional[list[str]] = None
+    #: Set by the server: "id", or a "created" or "updated" timestamp
+    managed: Optional[str] = None
+
+
+@dataclass(frozen=True)
+class Model:
+    name: str
+    collection: str
+    id_type: str
+    #: The dataclass records are read into
+    record: type
+    #: Fields by their name in JSON
+    fields: dict[str, FieldSpec]
+
+    def from_json(self, data: dict[str, Any]) -> Any:
+        """Build a record from its JSON fields"""
+        names = {field.metadata["json"]: field.name for field in dataclasses.fields(self.record)}
+        return self.record(**{names[key]: value for key, value in data.items() if key in names})
+
+    def to_json(self, record: Any) -> dict[str, Any]:
+        """The JSON fields of a record, leaving out unset optional ones"""
+        data = {}
+        for field in dataclasses.fields(record):
+            value = getattr(record, field.name)
+            if value is not None or self.fields[field.metadata["json"]].required:
+                data[field.metadata["json"]] = value
+        return data
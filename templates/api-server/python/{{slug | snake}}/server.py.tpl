@@ -0,0 +1,205 @@
+"""API server for {{title}}, generated from a Zero Source README"""
+
+from __future__ import annotations
+
+import json
+import os
+import traceback
+from datetime import datetime, timezone
+from http import HTTPStatus
+from http.server import BaseHTTPRequestHandler, ThreadingHTTPServer
+from typing import Any, Optional
+from urllib.parse import parse_qsl, unquote, urlsplit
+
+from .models import MODELS
+from .models.base import Model
+from .store import store
+from .validate import check
+
+NAME = {{title | json}}
+MAX_BODY_BYTES = 1024 * 1024
+
+
+class HttpError(Exception):
+    def __init__(self, status: int, message: str, details: Optional[list[str]] = None) -> None:
+        super().__init__(message)
+        self.status = status
+        self.details = details
+
+
+class Handler(BaseHTTPRequestHandler):
+    """Routes / and /<resource>[/<id>] to the CRUD handlers below"""
+
+    def do_GET(self) -> None:
+        self.handle_request("GET")
+
+    def do_POST(self) -> None:
+        self.handle_request("POST")
+
+    def do_PUT(self) -> None:
+        self.handle_request("PUT")
+
+    def do_PATCH(self) -> None:
+        self.handle_request("PATCH")
+
+    def do_DELETE(self) -> None:
+        self.handle_request("DELETE")
+
+    def handle_request(self, method: str) -> None:
+        url = urlsplit(self.path)
+        segments = [unquote(segment) for segment in url.path.split("/") if segment]
+        try:
+            model = MODELS.get(segments[0]) if segments else None
+            if not segments:
+                routes = {"GET": self.index}
+            elif model is None or len(segments) > 2:
+                raise HttpError(404, f"No route for {method} {url.path}")
+            elif len(segments) == 1:
+                routes = {"GET": lambda: self.list(model, dict(parse_qsl(url.query))), "POST": lambda: self.create(model)}
+            else:
+                id = segments[1]
+                routes = {
+                    "GET": lambda: self.get(model, id),
+                    "PUT": lambda: self.replace(model, id),
+                    "PATCH": lambda: self.update(model, id),
+                    "DELETE": lambda: self.remove(model, id),
+                }
+
+            if method not in routes:
+                self.send_error_body(405, f"{method} is not allowed on {url.path}", headers={"Allow": ", ".join(routes)})
+                return
+            routes[method]()
+        except HttpError as error:
+            self.send_error_body(error.status, str(error), error.details)
+        except Exception:
+            traceback.print_exc()
+            self.send_error_body(500, "Internal server error")
+
+    # Handlers
+
+    def index(self) -> None:
+        self.send({"name": NAME, "resources": [f"/{resource}" for resource in MODELS]})
+
+    def list(self, model: Model, filters: dict[str, str]) -> None:
+        """Query parameters filter the list, e.g. ?completed=true"""
+        records = [
+            record for record in store.list(model.collection)
+            if all(as_text(record.get(key)) == value for key, value in filters.items())
+        ]
+        self.send(records)
+
+    def get(self, model: Model, id: str) -> None:
+        self.send(find(model, id))
+
+    def create(self, model: Model) -> None:
+        body = self.read_body()
+        validate(model, body)
+        self.send(store.insert(model.collection, prepare(model, body), model.id_type), 201)
+
+    def replace(self, model: Model, id: str) -> None:
+        existing = find(model, id)
+        body = self.read_body()
+        validate(model, body)
+        self.send(store.put(model.collection, existing["id"], prepare(model, body, existing)))
+
+    def update(self, model: Model, id: str) -> None:
+        existing = find(model, id)
+        body = self.read_body()
+        validate(model, body, partial=True)
+        self.send(store.put(model.collection, existing["id"], prepare(model, {**existing, **body}, existing)))
+
+    def remove(self, model: Model, id: str) -> None:
+        find(model, id)
+        store.remove(model.collection, id)
+        self.send(None, 204)
+
+    # Helpers
+
+    def read_body(self) -> Any:
+        length = int(self.headers.get("Content-Length") or 0)
+        if length > MAX_BODY_BYTES:
+            raise HttpError(413, "Request body is too large")
+        data = self.rfile.read(length) if length else b""
+        if not data:
+            return None
+        try:
+            return json.loads(data)
+        except ValueError:
+            raise HttpError(400, "Request body is not valid JSON") from None
+
+    def send(self, body: Any, status: int = 200, headers: Optional[dict[str, str]] = None) -> None:
+        self.send_response(status)
+        for name, value in (headers or {}).items():
+            self.send_header(name, value)
+        if body is None:
+            self.send_header("Content-Length", "0")
+            self.end_headers()
+            return
+        data = json.dumps(body, indent=2).encode("utf-8")
+        self.send_header("Content-Type", "application/json; charset=utf-8")
+        self.send_header("Content-Length", str(len(data)))
+        self.end_headers()
+        self.wfile.write(data)
+
+    def send_error_body(
+        self, status: int, message: str, details: Optional[list[str]] = None, headers: Optional[dict[str, str]] = None
+    ) -> None:
+        body: dict[str, Any] = {"error": message}
+        if details:
+            body["details"] = details
+        self.send(body, status, headers)
+
+
+def find(model: Model, id: str) -> dict[str, Any]:
+    record = store.get(model.collection, id)
+    if record is None:
+        raise HttpError(404, f"{model.name} {id} not found")
+    return record
+
+
+def validate(model: Model, body: Any, partial: bool = False) -> None:
+    """Reject bodies that do not match the model with 422 Unprocessable Entity"""
+    errors = check(model, body, partial)
+    if errors:
+        raise HttpError(422, f"Invalid {model.name}", errors)
+
+
+def prepare(model: Model, body: dict[str, Any], existing: Optional[dict[str, Any]] = None) -> dict[str, Any]:
+    """Set the fields the server manages, ignoring any values the client
+    sent, and read the rest through the model's dataclass"""
+    now = datetime.now(timezone.utc).isoformat(timespec="milliseconds").replace("+00:00", "Z")
+    values = {key: value for key, value in body.items() if key != "id"}
+    for name, field in model.fields.items():
+        if field.managed == "id":
+            values.pop(name, None)
+        elif field.managed == "created":
+            values[name] = existing.get(name) if existing else now
+        elif field.managed == "updated":
+            values[name] = now
+
+    record = model.to_json(model.from_json(values))
+    record.pop("id", None)
+    return record
+
+
+def as_text(value: Any) -> str:
+    """A value as it would appear in a query string, as in ?completed=true"""
+    if isinstance(value, bool):
+        return "true" if value else "false"
+    if value is None:
+        return "null"
+    if isinstance(value, float) and value.is_integer():
+        return str(int(value))
+    return value if isinstance(value, str) else json.dumps(value)
+
+
+def main() -> None:
+    port = int(os.environ.get("PORT") or 3000)
+    server = ThreadingHTTPServer(("", port), Handler)
+    print(f"{NAME} listening on http://localhost:{port}", flush=True)
+    try:
+        server.serve_forever()
+    except KeyboardInterrupt:
+        pass
+    finally:
+        server.server_close()
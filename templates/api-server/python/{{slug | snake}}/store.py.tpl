@@ -0,0 +1,76 @@
+"""File-backed store: each collection is kept in memory and saved to
+<data dir>/<collection>.json after every change"""
+
+from __future__ import annotations
+
+import json
+import os
+import threading
+import uuid
+from pathlib import Path
+from typing import Any, Optional, Union
+
+Id = Union[str, int]
+
+
+class FileStore:
+    def __init__(self, directory: Path) -> None:
+        self.directory = directory
+        self.collections: dict[str, dict[str, dict[str, Any]]] = {}
+        self.lock = threading.Lock()
+
+    def list(self, collection: str) -> list[dict[str, Any]]:
+        with self.lock:
+            return list(self._load(collection).values())
+
+    def get(self, collection: str, id: Id) -> Optional[dict[str, Any]]:
+        with self.lock:
+            return self._load(collection).get(str(id))
+
+    def insert(self, collection: str, record: dict[str, Any], id_type: str = "string") -> dict[str, Any]:
+        """Add a record with a new id: the next integer for numeric ids,
+        otherwise a UUID"""
+        with self.lock:
+            items = self._load(collection)
+            if id_type == "number":
+                new_id: Id = max([0, *(int(item["id"]) for item in items.values())]) + 1
+            else:
+                new_id = str(uuid.uuid4())
+            stored = {"id": new_id, **record}
+            items[str(new_id)] = stored
+            self._save(collection)
+            return stored
+
+    def put(self, collection: str, id: Id, record: dict[str, Any]) -> dict[str, Any]:
+        with self.lock:
+            stored = {"id": id, **record}
+            self._load(collection)[str(id)] = stored
+            self._save(collection)
+            return stored
+
+    def remove(self, collection: str, id: Id) -> bool:
+        with self.lock:
+            removed = self._load(collection).pop(str(id), None) is not None
+            if removed:
+                self._save(collection)
+            return removed
+
+    def _load(self, collection: str) -> dict[str, dict[str, Any]]:
+        if collection not in self.collections:
+            file = self._file(collection)
+            records = json.loads(file.read_text("utf-8")) if file.exists() else []
+            self.collections[collection] = {str(record["id"]): record for record in records}
+        return self.collections[collection]
+
+    def _save(self, collection: str) -> None:
+        self.directory.mkdir(parents=True, exist_ok=True)
+        file = self._file(collection)
+        temporary = file.with_suffix(".json.tmp")
+        temporary.write_text(json.dumps(list(self.collections[collection].values()), indent=2), "utf-8")
+        temporary.replace(file)
+
+    def _file(self, collection: str) -> Path:
+        return self.directory / f"{collection}.json"
+
+
+store = FileStore(Path(os.environ.get("DATA_DIR") or Path.cwd() / "data"))
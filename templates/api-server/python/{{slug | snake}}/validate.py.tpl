@@ -0,0 +1,64 @@
+"""Checks request bodies against a model's fields"""
+
+from __future__ import annotations
+
+import math
+from datetime import datetime
+from typing import Any, Callable
+
+from .models.base import Model
+
+
+def _is_date(value: Any) -> bool:
+    if not isinstance(value, str):
+        return False
+    try:
+        datetime.fromisoformat(value.replace("Z", "+00:00"))
+        return True
+    except ValueError:
+        return False
+
+
+CHECKS: dict[str, Callable[[Any], bool]] = {
+    "string": lambda value: isinstance(value, str),
+    "number": lambda value: isinstance(value, (int, float)) and not isinstance(value, bool) and math.isfinite(value),
+    "boolean": lambda value: isinstance(value, bool),
+    "date": _is_date,
+    "object": lambda value: isinstance(value, dict),
+    "reference": lambda value: isinstance(value, (str, int)) and not isinstance(value, bool),
+    "unknown": lambda value: True,
+}
+
+
+def check(model: Model, body: Any, partial: bool = False) -> list[str]:
+    """List the problems with a request body; none means it is valid. With
+    partial, as for PATCH, missing fields are allowed."""
+    if not isinstance(body, dict):
+        return ["Request body must be a JSON object"]
+
+    errors = []
+    for name, field in model.fields.items():
+        # Ids and timestamps are set by the server
+        if field.managed:
+            continue
+
+        value = body.get(name)
+        if value is None:
+            if field.required and not partial:
+                errors.append(f"{name} is required")
+            continue
+        if field.array and not isinstance(value, list):
+            errors.append(f"{name} must be an array")
+            continue
+
+        items = value if field.array else [value]
+        if not all(CHECKS.get(field.type, CHECKS["unknown"])(item) for item in items):
+            errors.append(f"{name} must be of type {field.type}{'[]' if field.array else ''}")
+        elif field.values and not all(item in field.values for item in items):
+            errors.append(f"{name} must be one of {', '.join(field.values)}")
+
+    for name in body:
+        if name not in model.fields:
+            errors.append(f"{name} is not a field of {model.name}")
+
+    return errors
@@ -0,0 +1,16 @@
+{
+  "name": {{slug | json}},
+  "version": "1.0.0",
+  "description": {{description | json}},
+  "main": "dist/server.js",
+  "scripts": {
+    "build": "tsc",
+    "start": "node dist/server.js"
+  },
+  "devDependencies": {
+    "@types/node": "^20.0.0",
+    "typescript": "^5.0.0"
+  },
+  "author": "",
+  "license": "MIT"
+}
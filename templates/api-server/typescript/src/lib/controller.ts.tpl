@@ -0,0 +1,72 @@
+// CRUD handlers shared by every model
+
+import { Handler, HttpError, send } from './router';
+import { Id, StoredRecord, store } from './store';
+import { Model } from './model';
+
+export interface Controller {
+    list: Handler;
+    get: Handler;
+    create: Handler;
+    replace: Handler;
+    update: Handler;
+    remove: Handler;
+}
+
+export function controller(model: Model): Controller {
+    const find = (id: Id): StoredRecord => {
+        const record = store.get(model.collection, id);
+        if (!record) throw new HttpError(404, `${model.name} ${id} not found`);
+        return record;
+    };
+
+    return {
+        // Query parameters filter the list, e.g. ?completed=true
+        list(req, res) {
+            const filters = Object.entries(req.query);
+            send(res, 200, store.list(model.collection)
+                .filter(record => filters.every(([key, value]) => String(record[key]) === value)));
+        },
+
+        get(req, res) {
+            send(res, 200, find(req.params.id));
+        },
+
+        create(req, res) {
+            send(res, 201, store.insert(model.collection, prepare(model, req.body as Record<string, unknown>), model.idType));
+        },
+
+        replace(req, res) {
+            const existing = find(req.params.id);
+            send(res, 200, store.put(model.collection, existing.id, prepare(model, req.body as Record<string, unknown>, existing)));
+        },
+
+        update(req, res) {
+            const existing = find(req.params.id);
+            send(res, 200, store.put(model.collection, existing.id, prepare(model, { ...existing, ...req.body as Record<string, unknown> }, existing)));
+        },
+
+        remove(req, res) {
+            find(req.params.id);
+            store.remove(model.collection, req.params.id);
+            send(res, 204);
+        }
+    };
+}
+
+/**
+ * Set the fields the server manages, ignoring any values the client sent
+ */
+function prepare(model: Model, body: Record<string, unknown>, existing?: StoredRecord): Record<string, unknown> {
+    const record = { ...body };
+    const now = new Date().toISOString();
+
+    for (const [name, field] of Object.entries(model.fields)) {
+        if (field.managed === 'id') delete record[name];
+        if (field.managed === 'created') record[name] = existing ? existing[name] : now;
+        if (field.managed === 'updated') record[name] = now;
+    }
+    delete record.id;
+
+    return record;
+}
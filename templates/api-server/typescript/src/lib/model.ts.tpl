@@ -0,0 +1,19 @@
+// How models describe their fields to the controller and validator
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'date' | 'object' | 'reference' | 'unknown';
+
+export interface FieldSpec {
+    type: FieldType;
+    required: boolean;
+    array: boolean;
+    values?: readonly string[];
+    /** Set by the server: the id, or a created or updated timestamp */
+    managed?: 'id' | 'created' | 'updated';
+}
+
+export interface Model {
+    name: string;
+    collection: string;
+    idType: 'string' | 'number';
+    fields: Record<string, FieldSpec>;
+}
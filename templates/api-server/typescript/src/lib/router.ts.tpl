@@ -0,0 +1,134 @@
+// Routing and JSON helpers built on Node's http module
+
+import { IncomingMessage, ServerResponse } from 'http';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface Request extends IncomingMessage {
+    params: Record<string, string>;
+    query: Record<string, string>;
+    body: unknown;
+}
+
+export type Response = ServerResponse;
+
+export type Handler = (req: Request, res: Response, next: () => Promise<void>) => unknown;
+
+export class HttpError extends Error {
+    constructor(public status: number, message: string, public details?: unknown) {
+        super(message);
+    }
+}
+
+interface Route {
+    method: string;
+    regex: RegExp;
+    keys: string[];
+    handlers: Handler[];
+}
+
+export class Router {
+    private routes: Route[] = [];
+
+    get(pattern: string, ...handlers: Handler[]): void { this.add('GET', pattern, handlers); }
+    post(pattern: string, ...handlers: Handler[]): void { this.add('POST', pattern, handlers); }
+    put(pattern: string, ...handlers: Handler[]): void { this.add('PUT', pattern, handlers); }
+    patch(pattern: string, ...handlers: Handler[]): void { this.add('PATCH', pattern, handlers); }
+    delete(pattern: string, ...handlers: Handler[]): void { this.add('DELETE', pattern, handlers); }
+
+    /**
+     * Register handlers for a method and a path such as /tasks/:id. Each
+     * handler is called as (req, res, next) and may throw an HttpError.
+     */
+    add(method: string, pattern: string, handlers: Handler[]): void {
+        const keys: string[] = [];
+        const source = pattern.replace(/\/:(\w+)/g, (_, key: string) => {
+            keys.push(key);
+            return '/([^/]+)';
+        });
+        this.routes.push({ method, regex: new RegExp(`^${source}/?$`), keys, handlers });
+    }
+
+    async handle(incoming: IncomingMessage, res: Response): Promise<void> {
+        const req = incoming as Request;
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const allowed: string[] = [];
+
+        for (const route of this.routes) {
+            const match = route.regex.exec(url.pathname);
+            if (!match) continue;
+            if (route.method !== req.method) {
+                allowed.push(route.method);
+                continue;
+            }
+
+            req.params = Object.fromEntries(route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+            req.query = Object.fromEntries(url.searchParams);
+            try {
+                req.body = await readBody(req);
+                await run(route.handlers, req, res);
+            } catch (error) {
+                if (error instanceof HttpError) {
+                    sendError(res, error.status, error.message, error.details);
+                } else {
+                    console.error(error);
+                    sendError(res, 500, 'Internal server error');
+                }
+            }
+            return;
+        }
+
+        if (allowed.length > 0) {
+            res.setHeader('Allow', allowed.join(', '));
+            sendError(res, 405, `${req.method} is not allowed on ${url.pathname}`);
+        } else {
+            sendError(res, 404, `No route for ${req.method} ${url.pathname}`);
+        }
+    }
+}
+
+async function run(handlers: Handler[], req: Request, res: Response): Promise<void> {
+    let index = 0;
+    const next = async (): Promise<void> => {
+        const handler = handlers[index++];
+        if (handler) await handler(req, res, next);
+    };
+    await next();
+}
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        let data = '';
+        req.setEncoding('utf8');
+        req.on('data', (chunk: string) => {
+            data += chunk;
+            if (data.length > MAX_BODY_BYTES) {
+                reject(new HttpError(413, 'Request body is too large'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => {
+            if (!data) return resolve(undefined);
+            try {
+                resolve(JSON.parse(data));
+            } catch {
+                reject(new HttpError(400, 'Request body is not valid JSON'));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+export function send(res: Response, status: number, body?: unknown): void {
+    if (body === undefined) {
+        res.writeHead(status);
+        res.end();
+        return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body, null, 2));
+}
+
+function sendError(res: Response, status: number, message: string, details?: unknown): void {
+    send(res, status, details ? { error: message, details } : { error: message });
+}
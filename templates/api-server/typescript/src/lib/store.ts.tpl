@@ -0,0 +1,79 @@
+// File-backed store: each collection is kept in memory and saved to
+// <data dir>/<collection>.json after every change
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export type Id = string | number;
+
+export interface StoredRecord {
+    id: Id;
+    [field: string]: unknown;
+}
+
+export class FileStore {
+    private collections = new Map<string, Map<string, StoredRecord>>();
+
+    constructor(private dir: string) {}
+
+    list(collection: string): StoredRecord[] {
+        return [...this.load(collection).values()];
+    }
+
+    get(collection: string, id: Id): StoredRecord | undefined {
+        return this.load(collection).get(String(id));
+    }
+
+    /**
+     * Add a record with a new id: the next integer for numeric ids,
+     * otherwise a UUID
+     */
+    insert(collection: string, record: Record<string, unknown>, idType: 'string' | 'number' = 'string'): StoredRecord {
+        const items = this.load(collection);
+        const id = idType === 'number'
+            ? Math.max(0, ...[...items.values()].map(item => Number(item.id) || 0)) + 1
+            : crypto.randomUUID();
+        const stored = { id, ...record };
+        items.set(String(id), stored);
+        this.save(collection);
+        return stored;
+    }
+
+    put(collection: string, id: Id, record: Record<string, unknown>): StoredRecord {
+        const stored = { id, ...record };
+        this.load(collection).set(String(id), stored);
+        this.save(collection);
+        return stored;
+    }
+
+    remove(collection: string, id: Id): boolean {
+        const removed = this.load(collection).delete(String(id));
+        if (removed) this.save(collection);
+        return removed;
+    }
+
+    private load(collection: string): Map<string, StoredRecord> {
+        let items = this.collections.get(collection);
+        if (!items) {
+            const file = this.file(collection);
+            const records: StoredRecord[] = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : [];
+            items = new Map(records.map(record => [String(record.id), record]));
+            this.collections.set(collection, items);
+        }
+        return items;
+    }
+
+    private save(collection: string): void {
+        fs.mkdirSync(this.dir, { recursive: true });
+        const file = this.file(collection);
+        fs.writeFileSync(`${file}.tmp`, JSON.stringify(this.list(collection), null, 2));
+        fs.renameSync(`${file}.tmp`, file);
+    }
+
+    private file(collection: string): string {
+        return path.join(this.dir, `${collection}.json`);
+    }
+}
+
+export const store = new FileStore(process.env.DATA_DIR || path.join(__dirname, '..', '..', 'data'));
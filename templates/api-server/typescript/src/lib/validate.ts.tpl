@@ -0,0 +1,65 @@
+// Middleware that checks request bodies against a model's fields
+
+import { Handler, HttpError } from './router';
+import { FieldType, Model } from './model';
+
+const CHECKS: Record<FieldType, (value: unknown) => boolean> = {
+    string: value => typeof value === 'string',
+    number: value => typeof value === 'number' && Number.isFinite(value),
+    boolean: value => typeof value === 'boolean',
+    date: value => typeof value === 'string' && !Number.isNaN(Date.parse(value)),
+    object: value => typeof value === 'object' && value !== null && !Array.isArray(value),
+    reference: value => typeof value === 'string' || typeof value === 'number',
+    unknown: () => true
+};
+
+/**
+ * Reject bodies that do not match the model with 422 Unprocessable Entity.
+ * With partial, as for PATCH, missing fields are allowed.
+ */
+export function validate(model: Model, { partial = false } = {}): Handler {
+    return (req, res, next) => {
+        const errors = check(model, req.body, partial);
+        if (errors.length > 0) {
+            throw new HttpError(422, `Invalid ${model.name}`, errors);
+        }
+        return next();
+    };
+}
+
+function check(model: Model, body: unknown, partial: boolean): string[] {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        return ['Request body must be a JSON object'];
+    }
+
+    const record = body as Record<string, unknown>;
+    const errors: string[] = [];
+    for (const [name, field] of Object.entries(model.fields)) {
+        // Ids and timestamps are set by the server
+        if (field.managed) continue;
+
+        const value = record[name];
+        if (value === undefined || value === null) {
+            if (field.required && !partial) errors.push(`${name} is required`);
+            continue;
+        }
+        if (field.array && !Array.isArray(value)) {
+            errors.push(`${name} must be an array`);
+            continue;
+        }
+
+        const items: unknown[] = field.array ? value as unknown[] : [value];
+        const values = field.values;
+        if (!items.every(CHECKS[field.type] || CHECKS.unknown)) {
+            errors.push(`${name} must be of type ${field.type}${field.array ? '[]' : ''}`);
+        } else if (values && !items.every(item => values.includes(item as string))) {
+            errors.push(`${name} must be one of ${values.join(', ')}`);
+        }
+    }
+
+    for (const name of Object.keys(record)) {
+        if (!(name in model.fields)) errors.push(`${name} is not a field of ${model.name}`);
+    }
+
+    return errors;
+}
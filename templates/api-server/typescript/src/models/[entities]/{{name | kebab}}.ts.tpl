@@ -0,0 +1,20 @@
+// {{name}} model, from the README Data Model
+
+import { Model } from '../lib/model';
+
+export interface {{name}} {
+{{#each fields}}
+    {{name}}{{#unless required}}?{{/unless}}: {{tsType}};
+{{/each}}
+}
+
+export const {{name}}Model: Model = {
+    name: {{name | json}},
+    collection: {{resource | json}},
+    idType: {{idType | json}},
+    fields: {
+{{#each fields}}
+        {{name | json}}: { type: {{type | json}}, required: {{required}}, array: {{isArray}}{{#if values}}, values: {{values | json}}{{/if}}{{#if managed}}, managed: {{managed | json}}{{/if}} }{{#unless @last}},{{/unless}}
+{{/each}}
+    }
+};
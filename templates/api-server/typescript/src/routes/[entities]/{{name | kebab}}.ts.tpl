@@ -0,0 +1,17 @@
+// Routes for {{plural}}
+
+import { Router } from '../lib/router';
+import { {{name}}Model } from '../models/{{name | kebab}}';
+import { controller } from '../lib/controller';
+import { validate } from '../lib/validate';
+
+export default (router: Router): void => {
+    const {{plural | camel}} = controller({{name}}Model);
+
+    router.get('/{{resource}}', {{plural | camel}}.list);
+    router.post('/{{resource}}', validate({{name}}Model), {{plural | camel}}.create);
+    router.get('/{{resource}}/:id', {{plural | camel}}.get);
+    router.put('/{{resource}}/:id', validate({{name}}Model), {{plural | camel}}.replace);
+    router.patch('/{{resource}}/:id', validate({{name}}Model, { partial: true }), {{plural | camel}}.update);
+    router.delete('/{{resource}}/:id', {{plural | camel}}.remove);
+};
@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+// API server for {{title}}, generated from a Zero Source README
+
+import http from 'http';
+import { Router, send } from './lib/router';
+{{#each entities}}
+import {{name | camel}}Routes from './routes/{{name | kebab}}';
+{{/each}}
+
+const NAME = {{title | json}};
+const router = new Router();
+
+router.get('/', (req, res) => send(res, 200, {
+    name: NAME,
+    resources: [{{#each entities}}'/{{resource}}'{{#unless @last}}, {{/unless}}{{/each}}]
+}));
+{{#each entities}}
+{{name | camel}}Routes(router);
+{{/each}}
+
+const port = Number(process.env.PORT) || 3000;
+
+http.createServer((req, res) => router.handle(req, res)).listen(port, () => {
+    console.log(`${NAME} listening on http://localhost:${port}`);
+});
@@ -0,0 +1,13 @@
+// Command {{program}} is the command-line entry point for {{title}},
+// generated from a Zero Source README.
+package main
+
+import (
+	"os"
+
+	"{{slug}}/internal/cli"
+)
+
+func main() {
+	os.Exit(cli.Run(os.Args[1:]))
+}
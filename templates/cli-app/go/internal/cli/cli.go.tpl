@@ -0,0 +1,420 @@
+// Package cli dispatches the command-line words to a command's handler and
+// prints help and version output for {{program}}.
+package cli
+
+import (
+	"errors"
+	"flag"
+	"fmt"
+	"io"
+	"os"
+	"strings"
+{{#if commands}}
+
+{{#each goPackages.commands}}
+	"{{slug}}/internal/commands/{{this}}"
+{{/each}}
+{{/if}}
+)
+
+const (
+	program     = {{program | json}}
+	description = {{description | json}}
+	version     = "1.0.0"
+)
+
+const (
+	exitOK      = 0
+	exitFailure = 1
+	exitUsage   = 2
+)
+
+// argument is a positional argument of a command
+type argument struct {
+	name        string
+	description string
+	required    bool
+	// variadic takes all remaining values
+	variadic bool
+}
+
+// option is an option of a command, e.g. `-t, --tag <name>`; options
+// without a value are flags
+type option struct {
+	name        string
+	alias       string
+	value       string
+	fallback    string
+	description string
+}
+
+type command struct {
+	name        string
+	description string
+	run         func(values) error
+	arguments   []argument
+	options     []option
+}
+
+{{#if globalOptions}}
+var globalOptions = []option{
+{{#each globalOptions}}
+	{name: {{name | json}}{{#if alias}}, alias: {{alias | json}}{{/if}}{{#if value}}, value: {{value | json}}{{/if}}{{#if default}}, fallback: {{default | json}}{{/if}}{{#if description}}, description: {{description | json}}{{/if}}},
+{{/each}}
+}
+{{else}}
+var globalOptions = []option{}
+{{/if}}
+
+{{#if commands}}
+var commands = []command{
+{{#each commands}}
+	{
+		name:        {{name | json}},
+		description: {{description | json}},
+		run:         run{{name | pascal}},
+{{#if arguments}}
+		arguments: []argument{
+{{#each arguments}}
+			{name: {{name | json}}{{#if description}}, description: {{description | json}}{{/if}}{{#if required}}, required: true{{/if}}{{#if variadic}}, variadic: true{{/if}}},
+{{/each}}
+		},
+{{/if}}
+{{#if options}}
+		options: []option{
+{{#each options}}
+			{name: {{name | json}}{{#if alias}}, alias: {{alias | json}}{{/if}}{{#if value}}, value: {{value | json}}{{/if}}{{#if default}}, fallback: {{default | json}}{{/if}}{{#if description}}, description: {{description | json}}{{/if}}},
+{{/each}}
+		},
+{{/if}}
+	},
+{{/each}}
+}
+{{else}}
+var commands = []command{}
+{{/if}}
+{{#each commands}}
+
+func run{{name | pascal}}(v values) error {
+	var input {{goPackage}}.Input
+{{#each arguments}}
+{{#if variadic}}
+	input.{{name | pascal}} = v.rest({{@index}})
+{{else}}
+	input.{{name | pascal}} = v.arg({{@index}})
+{{/if}}
+{{/each}}
+{{#each options}}
+{{#if value}}
+	input.{{name | pascal}} = v.option({{name | json}})
+{{else}}
+	input.{{name | pascal}} = v.flag({{name | json}})
+{{/if}}
+{{/each}}
+{{#each globalOptions}}
+{{#if value}}
+	input.{{name | pascal}} = v.option({{name | json}})
+{{else}}
+	input.{{name | pascal}} = v.flag({{name | json}})
+{{/if}}
+{{/each}}
+	return {{goPackage}}.Run(input)
+}
+{{/each}}
+
+// values holds what the command line gave for each argument and option
+type values struct {
+	positional [][]string
+	options    map[string]*string
+	flags      map[string]*bool
+}
+
+func (v values) arg(i int) string {
+	if len(v.positional[i]) == 0 {
+		return ""
+	}
+	return v.positional[i][0]
+}
+
+func (v values) rest(i int) []string {
+	return v.positional[i]
+}
+
+func (v values) option(name string) string {
+	return *v.options[name]
+}
+
+func (v values) flag(name string) bool {
+	return *v.flags[name]
+}
+
+// usageError is a mistake in the command line, which exits with 2
+type usageError struct {
+	message string
+}
+
+func (e *usageError) Error() string {
+	return e.message
+}
+
+// Run runs the command named by the command-line words and returns the
+// exit code: 0 on success, 1 when the command fails and 2 for usage errors
+func Run(args []string) int {
+	// Options every command accepts may also come before the command
+	fs, globals := flagSet(globalOptions, values{})
+	showVersion := fs.Bool("version", false, "")
+	if err := fs.Parse(args); err != nil {
+		return failed(err, nil)
+	}
+	if *showVersion {
+		fmt.Println(version)
+		return exitOK
+	}
+
+	words := fs.Args()
+	cmd := findCommand(words)
+	if cmd == nil {
+		if len(words) > 0 {
+			return failed(&usageError{fmt.Sprintf("Unknown command '%s'", words[0])}, nil)
+		}
+		if len(commands) > 0 {
+			printHelp(os.Stderr)
+			return exitUsage
+		}
+		printHelp(os.Stdout)
+		return exitOK
+	}
+
+	fs, v := flagSet(append(append([]option(nil), cmd.options...), globalOptions...), globals)
+	positional, err := parse(fs, words[len(strings.Fields(cmd.name)):])
+	if err == nil {
+		v.positional, err = take(positional, cmd.arguments)
+	}
+	if err != nil {
+		return failed(err, cmd)
+	}
+
+	if err := cmd.run(v); err != nil {
+		fmt.Fprintf(os.Stderr, "%s: %v\n", program, err)
+		return exitFailure
+	}
+	return exitOK
+}
+
+// findCommand finds the command with the longest name that the words start
+// with
+func findCommand(words []string) *command {
+	var found *command
+	for i, cmd := range commands {
+		names := strings.Fields(cmd.name)
+		if len(names) <= len(words) && strings.Join(words[:len(names)], " ") == cmd.name &&
+			(found == nil || len(cmd.name) > len(found.name)) {
+			found = &commands[i]
+		}
+	}
+	return found
+}
+
+// flagSet makes a flag set for options, with the values already given as
+// defaults, e.g. those of options given before the command
+func flagSet(options []option, given values) (*flag.FlagSet, values) {
+	fs := flag.NewFlagSet(program, flag.ContinueOnError)
+	fs.SetOutput(io.Discard)
+
+	v := values{options: map[string]*string{}, flags: map[string]*bool{}}
+	for _, opt := range options {
+		names := []string{opt.name}
+		if opt.alias != "" {
+			names = append(names, opt.alias)
+		}
+		if opt.value != "" {
+			value := opt.fallback
+			if previous, ok := given.options[opt.name]; ok {
+				value = *previous
+			}
+			v.options[opt.name] = &value
+			for _, name := range names {
+				fs.StringVar(&value, name, value, "")
+			}
+		} else {
+			value := false
+			if previous, ok := given.flags[opt.name]; ok {
+				value = *previous
+			}
+			v.flags[opt.name] = &value
+			for _, name := range names {
+				fs.BoolVar(&value, name, value, "")
+			}
+		}
+	}
+	return fs, v
+}
+
+// parse reads options wherever they appear among the arguments; the flag
+// package alone stops at the first argument. Everything after -- is an
+// argument.
+func parse(fs *flag.FlagSet, args []string) ([]string, error) {
+	var positional []string
+	for {
+		if err := fs.Parse(args); err != nil {
+			return nil, err
+		}
+		rest := fs.Args()
+		if len(rest) == 0 {
+			return positional, nil
+		}
+		if consumed := len(args) - len(rest); consumed > 0 && args[consumed-1] == "--" {
+			return append(positional, rest...), nil
+		}
+		positional = append(positional, rest[0])
+		args = rest[1:]
+	}
+}
+
+// take gives each argument one of the values, or all that remain when it is
+// variadic
+func take(values []string, arguments []argument) ([][]string, error) {
+	taken := make([][]string, len(arguments))
+	for i, arg := range arguments {
+		switch {
+		case len(values) == 0:
+			if arg.required && arg.variadic {
+				return nil, &usageError{fmt.Sprintf("Missing required argument <%s...>", arg.name)}
+			}
+			if arg.required {
+				return nil, &usageError{fmt.Sprintf("Missing required argument <%s>", arg.name)}
+			}
+		case arg.variadic:
+			taken[i], values = values, nil
+		default:
+			taken[i], values = values[:1], values[1:]
+		}
+	}
+	if len(values) > 0 {
+		return nil, &usageError{fmt.Sprintf("Unexpected argument '%s'", values[0])}
+	}
+	return taken, nil
+}
+
+// failed reports a parse error, printing help for -h and --help
+func failed(err error, cmd *command) int {
+	if errors.Is(err, flag.ErrHelp) {
+		if cmd != nil {
+			printCommandHelp(os.Stdout, cmd)
+		} else {
+			printHelp(os.Stdout)
+		}
+		return exitOK
+	}
+
+	var usage *usageError
+	message := err.Error()
+	if errors.As(err, &usage) {
+		message = usage.message
+	} else if name, ok := strings.CutPrefix(message, "flag provided but not defined: "); ok {
+		message = "Unknown option " + name
+	} else if name, ok := strings.CutPrefix(message, "flag needs an argument: "); ok {
+		message = "Option " + name + " needs a value"
+	} else {
+		message = strings.ToUpper(message[:1]) + message[1:]
+	}
+	fmt.Fprintf(os.Stderr, "%s: %s\n", program, message)
+	if cmd != nil {
+		fmt.Fprintf(os.Stderr, "Run '%s %s --help' for usage.\n", program, cmd.name)
+	} else {
+		fmt.Fprintf(os.Stderr, "Run '%s --help' for usage.\n", program)
+	}
+	return exitUsage
+}
+
+func printHelp(w io.Writer) {
+	if len(commands) > 0 {
+		fmt.Fprintf(w, "Usage: %s <command> [options]\n", program)
+	} else {
+		fmt.Fprintf(w, "Usage: %s [options]\n", program)
+	}
+	if description != "" {
+		fmt.Fprintf(w, "\n%s\n", description)
+	}
+
+	if len(commands) > 0 {
+		fmt.Fprintln(w, "\nCommands:")
+		rows := make([][2]string, len(commands))
+		for i, cmd := range commands {
+			rows[i] = [2]string{strings.TrimSpace(cmd.name + " " + usage(&cmd)), cmd.description}
+		}
+		table(w, rows)
+	}
+
+	fmt.Fprintln(w, "\nOptions:")
+	options := append([]option{
+		{name: "help", alias: "h", description: "Show help"},
+		{name: "version", description: "Show the version number"},
+	}, globalOptions...)
+	table(w, optionRows(options))
+}
+
+func printCommandHelp(w io.Writer, cmd *command) {
+	fmt.Fprintf(w, "Usage: %s %s [options]\n", program, strings.TrimSpace(cmd.name+" "+usage(cmd)))
+	if cmd.description != "" {
+		fmt.Fprintf(w, "\n%s\n", cmd.description)
+	}
+
+	if len(cmd.arguments) > 0 {
+		fmt.Fprintln(w, "\nArguments:")
+		rows := make([][2]string, len(cmd.arguments))
+		for i, arg := range cmd.arguments {
+			rows[i] = [2]string{arg.name, arg.description}
+		}
+		table(w, rows)
+	}
+
+	fmt.Fprintln(w, "\nOptions:")
+	options := append(append([]option(nil), cmd.options...), option{name: "help", alias: "h", description: "Show help"})
+	table(w, optionRows(append(options, globalOptions...)))
+}
+
+func usage(cmd *command) string {
+	parts := make([]string, len(cmd.arguments))
+	for i, arg := range cmd.arguments {
+		name := arg.name
+		if arg.variadic {
+			name += "..."
+		}
+		if arg.required {
+			parts[i] = "<" + name + ">"
+		} else {
+			parts[i] = "[" + name + "]"
+		}
+	}
+	return strings.Join(parts, " ")
+}
+
+func optionRows(options []option) [][2]string {
+	rows := make([][2]string, len(options))
+	for i, opt := range options {
+		label := "    --" + opt.name
+		if opt.alias != "" {
+			label = "-" + opt.alias + ", --" + opt.name
+		}
+		if opt.value != "" {
+			label += " <" + opt.value + ">"
+		}
+		description := opt.description
+		if opt.fallback != "" {
+			description = strings.TrimSpace(fmt.Sprintf("%s (default: %s)", description, opt.fallback))
+		}
+		rows[i] = [2]string{label, description}
+	}
+	return rows
+}
+
+func table(w io.Writer, rows [][2]string) {
+	width := 0
+	for _, row := range rows {
+		width = max(width, len(row[0]))
+	}
+	for _, row := range rows {
+		fmt.Fprintln(w, strings.TrimRight(fmt.Sprintf("  %-*s  %s", width, row[0], row[1]), " "))
+	}
+}
@@ -0,0 +1,27 @@
+// Package {{goPackage}} handles `{{program}} {{name}}`{{#if description}}: {{description}}{{/if}}
+package {{goPackage}}
+
+import "fmt"
+
+// Input holds the arguments and options of `{{program}} {{name}}`
+type Input struct {
+{{#each arguments}}
+	// <{{name}}{{#if variadic}}...{{/if}}>{{#if description}}: {{description}}{{/if}}
+	{{name | pascal}} {{#if variadic}}[]string{{else}}string{{/if}}
+{{/each}}
+{{#each options}}
+	// --{{name}}{{#if description}}: {{description}}{{/if}}
+	{{name | pascal}} {{#if value}}string{{else}}bool{{/if}}
+{{/each}}
+{{#each globalOptions}}
+	// --{{name}}{{#if description}}: {{description}}{{/if}}
+	{{name | pascal}} {{#if value}}string{{else}}bool{{/if}}
+{{/each}}
+}
+
+// Run runs the command. A returned error is printed and exits with 1.
+func Run(input Input) error {
+	// TODO: implement `{{name}}`
+	fmt.Printf("%s %+v\n", {{name | json}}, input)
+	return nil
+}
@@ -0,0 +1,19 @@
+// Handler for `{{program}} {{name}}`{{#if description}}: {{description}}{{/if}}
+//
+// Arguments:{{#unless arguments}} none{{/unless}}
+{{#each arguments}}
+//   {{name | camel}}{{#if variadic}} (list){{/if}}{{#unless required}} (optional){{/unless}}{{#if description}} - {{description}}{{/if}}
+{{/each}}
+// Options:{{#unless options}} none{{/unless}}
+{{#each options}}
+//   {{name | camel}}{{#if description}} - {{description}}{{/if}}
+{{/each}}
+
+/**
+ * @param {object} input Parsed arguments and options, by camel-cased name
+ * @returns {Promise<number|void>} The exit code, 0 if nothing is returned
+ */
+module.exports = async function {{name | camel}}Command({ args, options }) {
+    // TODO: implement `{{name}}`
+    console.log({{name | json}}, args, options);
+};
@@ -0,0 +1,156 @@
+// Command dispatch, help and version output for {{program}}
+
+const { parseArgs, UsageError } = require('./args');
+const { version } = require('../package.json');
+
+const PROGRAM = {{program | json}};
+const DESCRIPTION = {{description | json}};
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const GLOBAL_OPTIONS = [
+    { name: 'help', alias: 'h', description: 'Show help' },
+    { name: 'version', description: 'Show the version number' }{{#each globalOptions}},
+    {{this | json}}{{/each}}
+];
+
+const COMMANDS = [
+{{#each commands}}
+    {
+        name: {{name | json}},
+        description: {{description | json}},
+        arguments: {{arguments | json}},
+        options: {{options | json}},
+        load: () => require('../commands/{{name | kebab}}')
+    }{{#unless @last}},{{/unless}}
+{{/each}}
+];
+
+/**
+ * Run the command named by the command-line words
+ * @returns The exit code: 0 on success, 1 when the command fails and 2 for
+ *          usage errors
+ */
+async function run(argv) {
+    const command = findCommand(argv);
+    const rest = command ? argv.slice(command.name.split(' ').length) : argv;
+    const flags = rest.slice(0, rest.includes('--') ? rest.indexOf('--') : rest.length);
+
+    if (flags.includes('--help') || flags.includes('-h')) {
+        console.log(command ? commandHelp(command) : help());
+        return EXIT_OK;
+    }
+    if (!command && flags.includes('--version')) {
+        console.log(version);
+        return EXIT_OK;
+    }
+    if (!command) {
+        if (argv.length > 0 && !argv[0].startsWith('-')) {
+            return usageError(`Unknown command '${argv[0]}'`);
+        }
+        try {
+            parseArgs(argv, [], GLOBAL_OPTIONS);
+        } catch (error) {
+            if (error instanceof UsageError) return usageError(error.message);
+            throw error;
+        }
+        if (COMMANDS.length > 0) {
+            console.error(help());
+            return EXIT_USAGE;
+        }
+        console.log(help());
+        return EXIT_OK;
+    }
+
+    let input;
+    try {
+        input = parseArgs(rest, command.arguments, commandOptions(command));
+    } catch (error) {
+        if (error instanceof UsageError) return usageError(error.message, command);
+        throw error;
+    }
+
+    try {
+        const code = await command.load()(input);
+        return typeof code === 'number' ? code : EXIT_OK;
+    } catch (error) {
+        console.error(`${PROGRAM}: ${error instanceof Error ? error.message : error}`);
+        return EXIT_FAILURE;
+    }
+}
+
+/**
+ * Find the command with the longest name that the words start with
+ */
+function findCommand(argv) {
+    return COMMANDS
+        .filter(command => command.name.split(' ').every((word, i) => argv[i] === word))
+        .sort((a, b) => b.name.length - a.name.length)[0];
+}
+
+function usageError(message, command) {
+    console.error(`${PROGRAM}: ${message}`);
+    console.error(`Run '${PROGRAM}${command ? ` ${command.name}` : ''} --help' for usage.`);
+    return EXIT_USAGE;
+}
+
+function help() {
+    const lines = [`Usage: ${PROGRAM}${COMMANDS.length > 0 ? ' <command>' : ''} [options]`];
+    if (DESCRIPTION) lines.push('', DESCRIPTION);
+    if (COMMANDS.length > 0) {
+        lines.push('', 'Commands:', ...table(COMMANDS.map(command => [
+            [command.name, usage(command)].filter(Boolean).join(' '),
+            command.description
+        ])));
+    }
+    lines.push('', 'Options:', ...table(GLOBAL_OPTIONS.map(option => [optionLabel(option), optionDescription(option)])));
+    return lines.join('\n');
+}
+
+function commandHelp(command) {
+    const lines = [`Usage: ${PROGRAM} ${[command.name, usage(command)].filter(Boolean).join(' ')} [options]`];
+    if (command.description) lines.push('', command.description);
+    if (command.arguments.length > 0) {
+        lines.push('', 'Arguments:', ...table(command.arguments.map(argument => [
+            argument.name,
+            argument.description || ''
+        ])));
+    }
+    lines.push('', 'Options:', ...table(commandOptions(command).map(option => [optionLabel(option), optionDescription(option)])));
+    return lines.join('\n');
+}
+
+/**
+ * Options a command accepts: its own, then the global ones except --version
+ */
+function commandOptions(command) {
+    return [...command.options, ...GLOBAL_OPTIONS.filter(option => option.name !== 'version')];
+}
+
+function usage(command) {
+    return command.arguments
+        .map(argument => {
+            const name = `${argument.name}${argument.variadic ? '...' : ''}`;
+            return argument.required ? `<${name}>` : `[${name}]`;
+        })
+        .join(' ');
+}
+
+function optionLabel(option) {
+    const names = [option.alias ? `-${option.alias}` : '    ', `--${option.name}`].join(option.alias ? ', ' : '');
+    return option.value ? `${names} <${option.value}>` : names;
+}
+
+function optionDescription(option) {
+    const description = option.description || '';
+    return option.default !== undefined ? `${description} (default: ${option.default})`.trim() : description;
+}
+
+function table(rows) {
+    const width = Math.max(...rows.map(([label]) => label.length));
+    return rows.map(([label, description]) => `  ${label.padEnd(width)}  ${description}`.trimEnd());
+}
+
+module.exports = { run, COMMANDS };
@@ -0,0 +1,14 @@
+{
+  "name": {{slug | json}},
+  "version": "1.0.0",
+  "description": {{description | json}},
+  "main": "index.js",
+  "bin": {
+    {{program | json}}: "index.js"
+  },
+  "scripts": {
+    "start": "node index.js"
+  },
+  "author": "",
+  "license": "MIT"
+}
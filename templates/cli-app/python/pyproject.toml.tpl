@@ -0,0 +1,12 @@
+[build-system]
+requires = ["setuptools>=61"]
+build-backend = "setuptools.build_meta"
+
+[project]
+name = {{slug | json}}
+version = "1.0.0"
+description = {{description | json}}
+requires-python = ">=3.9"
+
+[project.scripts]
+{{program | json}} = "{{slug | snake}}.cli:main"
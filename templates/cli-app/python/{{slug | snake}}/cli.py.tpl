@@ -0,0 +1,99 @@
+"""Command dispatch, help and version output for {{program}}"""
+
+from __future__ import annotations
+
+import argparse
+import importlib
+import sys
+from typing import Optional, Sequence
+
+from . import __version__
+
+PROGRAM = {{program | json}}
+DESCRIPTION = {{description | json}}
+
+EXIT_OK = 0
+EXIT_FAILURE = 1
+EXIT_USAGE = 2
+
+
+def build_parser() -> argparse.ArgumentParser:
+    parser = argparse.ArgumentParser(prog=PROGRAM, description=DESCRIPTION or None)
+    parser.add_argument("--version", action="version", version=f"%(prog)s {__version__}")
+    add_global_options(parser)
+{{#if commands}}
+    commands = parser.add_subparsers(metavar="<command>")
+    groups: dict = {}
+{{#each commands}}
+
+    command = add_command(commands, groups, {{name | json}}, {{description | json}})
+{{#each arguments}}
+    command.add_argument("{{name | snake}}", metavar={{name | json}}{{#if variadic}}, nargs="{{#if required}}+{{else}}*{{/if}}"{{else}}{{#unless required}}, nargs="?"{{/unless}}{{/if}}{{#if description}}, help={{description | json}}{{/if}})
+{{/each}}
+{{#each options}}
+    command.add_argument({{#if alias}}"-{{alias}}", {{/if}}"--{{name}}", dest="{{name | snake}}"{{#if value}}, metavar={{value | json}}{{#if default}}, default={{default | json}}{{/if}}{{else}}, action="store_true"{{/if}}{{#if description}}, help={{description | json}}{{/if}})
+{{/each}}
+    add_global_options(command, suppress=True)
+    command.set_defaults(handler="{{name | snake}}")
+{{/each}}
+{{/if}}
+    return parser
+
+
+def add_global_options(parser: argparse.ArgumentParser, suppress: bool = False) -> None:
+    """Add the options every command accepts. Command parsers suppress the
+    defaults so they do not hide a value given before the command."""
+{{#each globalOptions}}
+    parser.add_argument({{#if alias}}"-{{alias}}", {{/if}}"--{{name}}", dest="{{name | snake}}"{{#if value}}, metavar={{value | json}}{{else}}, action="store_true"{{/if}}, default=argparse.SUPPRESS if suppress else {{#if value}}{{#if default}}{{default | json}}{{else}}None{{/if}}{{else}}False{{/if}}{{#if description}}, help={{description | json}}{{/if}})
+{{else}}
+    pass
+{{/each}}
+
+
+def add_command(commands, groups: dict, name: str, description: str) -> argparse.ArgumentParser:
+    """Add the parser for a command. Commands of several words, such as
+    `remote add`, are nested under a parser for each leading word."""
+    *parents, last = name.split()
+    for index, word in enumerate(parents):
+        prefix = " ".join(parents[: index + 1])
+        if prefix not in groups:
+            group = commands.add_parser(word, help=f"{prefix} commands")
+            groups[prefix] = group.add_subparsers(metavar="<command>")
+            group.set_defaults(group=group)
+        commands = groups[prefix]
+    return commands.add_parser(last, help=description or None, description=description or None)
+
+
+def main(argv: Optional[Sequence[str]] = None) -> int:
+    """Run the command named by the command-line words
+
+    Returns the exit code: 0 on success, 1 when the command fails and 2 for
+    usage errors.
+    """
+    parser = build_parser()
+    try:
+        args = parser.parse_args(argv)
+    except SystemExit as error:
+        return error.code if isinstance(error.code, int) else EXIT_USAGE
+
+    handler = getattr(args, "handler", None)
+    if handler is None:
+        # No command, or only the first words of one
+        help_parser = getattr(args, "group", parser)
+{{#if commands}}
+        help_parser.print_help(sys.stderr)
+        return EXIT_USAGE
+{{else}}
+        help_parser.print_help()
+        return EXIT_OK
+{{/if}}
+
+    for name in ("handler", "group"):
+        vars(args).pop(name, None)
+    try:
+        module = importlib.import_module(f".commands.{handler}", __package__)
+        code = module.run(args)
+    except Exception as error:  # noqa: BLE001 - report any failure of the command
+        print(f"{PROGRAM}: {error}", file=sys.stderr)
+        return EXIT_FAILURE
+    return code if isinstance(code, int) else EXIT_OK
@@ -0,0 +1,22 @@
+"""Handler for `{{program}} {{name}}`{{#if description}}: {{description}}{{/if}}
+
+Arguments:{{#unless arguments}} none{{/unless}}
+{{#each arguments}}
+    {{name | snake}}{{#if variadic}} (list){{/if}}{{#unless required}} (optional){{/unless}}{{#if description}} - {{description}}{{/if}}
+{{/each}}
+Options:{{#unless options}} none{{/unless}}
+{{#each options}}
+    {{name | snake}}{{#if description}} - {{description}}{{/if}}
+{{/each}}
+"""
+
+from __future__ import annotations
+
+import argparse
+
+
+def run(args: argparse.Namespace) -> int | None:
+    """Run the command; return an exit code, or None for 0"""
+    # TODO: implement `{{name}}`
+    print({{name | json}}, vars(args))
+    return None
@@ -0,0 +1 @@
+"""Handlers for the commands of {{program}}, one module per command"""
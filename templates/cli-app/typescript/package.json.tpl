@@ -0,0 +1,19 @@
+{
+  "name": {{slug | json}},
+  "version": "1.0.0",
+  "description": {{description | json}},
+  "main": "dist/index.js",
+  "bin": {
+    {{program | json}}: "dist/index.js"
+  },
+  "scripts": {
+    "build": "tsc",
+    "start": "node dist/index.js"
+  },
+  "devDependencies": {
+    "@types/node": "^20.0.0",
+    "typescript": "^5.0.0"
+  },
+  "author": "",
+  "license": "MIT"
+}
@@ -0,0 +1,34 @@
+// Handler for `{{program}} {{name}}`{{#if description}}: {{description}}{{/if}}
+
+export interface {{name | pascal}}Input {
+{{#if arguments}}
+    args: {
+{{#each arguments}}
+        /**{{#if description}} {{description}}{{else}} {{name}}{{/if}} */
+        {{name | camel}}{{#unless required}}{{#unless variadic}}?{{/unless}}{{/unless}}: {{#if variadic}}string[]{{else}}string{{/if}};
+{{/each}}
+    };
+{{else}}
+    args: Record<string, never>;
+{{/if}}
+    options: {
+{{#each options}}
+        /**{{#if description}} {{description}}{{else}} --{{name}}{{/if}} */
+        {{name | camel}}{{#if value}}{{#unless default}}?{{/unless}}: string{{else}}: boolean{{/if}};
+{{/each}}
+{{#each globalOptions}}
+        /**{{#if description}} {{description}}{{else}} --{{name}}{{/if}} */
+        {{name | camel}}{{#if value}}{{#unless default}}?{{/unless}}: string{{else}}: boolean{{/if}};
+{{/each}}
+        help: boolean;
+    };
+}
+
+/**
+ * @param input Parsed arguments and options, by camel-cased name
+ * @returns The exit code, 0 if nothing is returned
+ */
+export default async function {{name | camel}}Command({ args, options }: {{name | pascal}}Input): Promise<number | void> {
+    // TODO: implement `{{name}}`
+    console.log({{name | json}}, args, options);
+}
@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+// Command-line entry point for {{title}}, generated from a Zero Source README
+
+import { run } from './lib/cli';
+
+run(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+});
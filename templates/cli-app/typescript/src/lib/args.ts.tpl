@@ -0,0 +1,149 @@
+// Argument parsing for the commands of {{program}}
+
+export interface ArgumentSpec {
+    name: string;
+    required: boolean;
+    variadic: boolean;
+    description?: string;
+}
+
+export interface OptionSpec {
+    name: string;
+    alias?: string;
+    /** Placeholder for the option's value; options without one are flags */
+    value?: string;
+    default?: string;
+    description?: string;
+}
+
+export interface Input {
+    args: Record<string, string | string[] | undefined>;
+    options: Record<string, string | boolean | undefined>;
+}
+
+export class UsageError extends Error {}
+
+/**
+ * Parse command-line words against a command's arguments and options.
+ * Supports --name value, --name=value, -n value, grouped flags such as -ab,
+ * --no-<flag> and -- to end the options.
+ * @returns Arguments and options by camel-cased name
+ * @throws UsageError if the words do not match
+ */
+export function parseArgs(argv: string[], argumentSpecs: ArgumentSpec[], optionSpecs: OptionSpec[]): Input {
+    const options: Input['options'] = {};
+    const positionals: string[] = [];
+
+    for (const spec of optionSpecs) {
+        if (spec.value === undefined) {
+            options[camel(spec.name)] = false;
+        } else if (spec.default !== undefined) {
+            options[camel(spec.name)] = spec.default;
+        }
+    }
+
+    for (let i = 0; i < argv.length; i++) {
+        const word = argv[i];
+
+        if (word === '--') {
+            positionals.push(...argv.slice(i + 1));
+            break;
+        }
+
+        if (word.startsWith('--')) {
+            const [name, inline] = splitValue(word.slice(2));
+            const spec = optionSpecs.find(option => option.name === name);
+            const negated = !spec && name.startsWith('no-')
+                ? optionSpecs.find(option => option.name === name.slice(3) && option.value === undefined)
+                : undefined;
+
+            if (negated) {
+                options[camel(negated.name)] = false;
+            } else if (!spec) {
+                throw new UsageError(`Unknown option --${name}`);
+            } else {
+                i = take(spec, `--${name}`, inline, argv, i, options);
+            }
+            continue;
+        }
+
+        if (word.startsWith('-') && word.length > 1 && !isNumber(word)) {
+            const letters = word.slice(1);
+            for (let j = 0; j < letters.length; j++) {
+                const spec = optionSpecs.find(option => option.alias === letters[j] || option.name === letters[j]);
+                if (!spec) {
+                    throw new UsageError(`Unknown option -${letters[j]}`);
+                }
+                if (spec.value !== undefined) {
+                    i = take(spec, `-${letters[j]}`, letters.slice(j + 1) || undefined, argv, i, options);
+                    break;
+                }
+                options[camel(spec.name)] = true;
+            }
+            continue;
+        }
+
+        positionals.push(word);
+    }
+
+    const args: Input['args'] = {};
+    for (const spec of argumentSpecs) {
+        if (spec.variadic) {
+            const values = positionals.splice(0);
+            args[camel(spec.name)] = values;
+            if (spec.required && values.length === 0) {
+                throw new UsageError(`Missing required argument <${spec.name}...>`);
+            }
+        } else if (positionals.length > 0) {
+            args[camel(spec.name)] = positionals.shift();
+        } else if (spec.required) {
+            throw new UsageError(`Missing required argument <${spec.name}>`);
+        }
+    }
+    if (positionals.length > 0) {
+        throw new UsageError(`Unexpected argument '${positionals[0]}'`);
+    }
+
+    return { args, options };
+}
+
+/**
+ * Store an option's value, from the same word or the next one
+ * @returns The index of the last word used
+ */
+function take(
+    spec: OptionSpec,
+    flag: string,
+    inline: string | undefined,
+    argv: string[],
+    i: number,
+    options: Input['options']
+): number {
+    if (spec.value === undefined) {
+        if (inline !== undefined) {
+            throw new UsageError(`Option ${flag} does not take a value`);
+        }
+        options[camel(spec.name)] = true;
+        return i;
+    }
+
+    const value = inline !== undefined ? inline : argv[i + 1];
+    if (value === undefined || (inline === undefined && value.startsWith('-') && !isNumber(value))) {
+        throw new UsageError(`Option ${flag} needs a value <${spec.value}>`);
+    }
+    options[camel(spec.name)] = value;
+    return inline !== undefined ? i : i + 1;
+}
+
+function splitValue(word: string): [string, string | undefined] {
+    const index = word.indexOf('=');
+    return index === -1 ? [word, undefined] : [word.slice(0, index), word.slice(index + 1)];
+}
+
+function isNumber(word: string): boolean {
+    return /^-\d/.test(word);
+}
+
+function camel(name: string): string {
+    return name.replace(/[-_\s]+(\w)/g, (_, letter: string) => letter.toUpperCase());
+}
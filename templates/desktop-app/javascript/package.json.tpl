@@ -0,0 +1,14 @@
+{
+  "name": {{slug | json}},
+  "version": "1.0.0",
+  "description": {{description | json}},
+  "main": "main.js",
+  "scripts": {
+    "start": "electron ."
+  },
+  "devDependencies": {
+    "electron": "^28.0.0"
+  },
+  "author": "",
+  "license": "MIT"
+}
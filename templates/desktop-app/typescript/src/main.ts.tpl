@@ -0,0 +1,24 @@
+import { app, BrowserWindow } from 'electron';
+import path from 'path';
+
+function createWindow(): void {
+    const window = new BrowserWindow({
+        width: 1024,
+        height: 768,
+        title: {{title | json}}
+    });
+
+    window.loadFile(path.join(__dirname, '..', 'index.html'));
+}
+
+app.whenReady().then(() => {
+    createWindow();
+
+    app.on('activate', () => {
+        if (BrowserWindow.getAllWindows().length === 0) createWindow();
+    });
+});
+
+app.on('window-all-closed', () => {
+    if (process.platform !== 'darwin') app.quit();
+});
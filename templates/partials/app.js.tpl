@@ -0,0 +1,20 @@
+// Main application code for {{title}}
+
+document.addEventListener('DOMContentLoaded', () => {
+    console.log('Application initialized');
+    initApp();
+});
+
+function initApp() {
+    const appElement = document.getElementById('app');
+    if (!appElement) return;
+
+    appElement.innerHTML = '<p>Application successfully generated from Zero Source README!</p>';
+{{#if a11y.aria}}
+    announce('{{title | js}} is ready');
+{{/if}}
+}
+{{#if a11y.script}}
+
+{{a11y.script}}
+{{/if}}
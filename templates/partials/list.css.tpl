@@ -0,0 +1,47 @@
+{{#if ui.entity}}
+
+.region {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: calc(0.5 * {{vars.spacing.base}});
+    margin-bottom: {{vars.spacing.base}};
+}
+
+.add-form input {
+    flex: 1;
+}
+
+.filters button[aria-pressed="false"] {
+    color: {{vars.colors.primary}};
+    background-color: transparent;
+}
+
+.item-list {
+    display: block;
+    list-style: none;
+    border: 1px solid {{vars.colors.border}};
+    border-radius: 4px;
+}
+
+.item {
+    display: flex;
+    align-items: center;
+    gap: {{vars.spacing.base}};
+    padding: calc(0.5 * {{vars.spacing.base}}) {{vars.spacing.base}};
+    border-bottom: 1px solid {{vars.colors.border}};
+}
+
+.item:last-child {
+    border-bottom: none;
+}
+
+.item-text,
+.item .edit {
+    flex: 1;
+}
+
+.item-text[data-action] {
+    cursor: pointer;
+}
+{{/if}}
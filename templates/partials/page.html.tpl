@@ -0,0 +1,25 @@
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>{{title | html}}</title>
+    <link rel="stylesheet" href="tokens.css">
+    <link rel="stylesheet" href="style.css">
+</head>
+<body>{{a11y.skipLink}}
+    <header>
+        <h1{{#if a11y.semanticHtml}} id="app-title"{{/if}}>{{title | html}}</h1>
+    </header>
+    <main{{#if a11y.focusManagement}} id="main" tabindex="-1"{{/if}}>
+        <p>{{description | html}}</p>
+        {{#if a11y.semanticHtml}}<section id="app" aria-labelledby="app-title"></section>{{else}}<div id="app"></div>{{/if}}{{a11y.liveRegion}}
+    </main>
+    <footer>
+        <p>&copy; {{year}} Generated from Zero Source README</p>
+    </footer>
+{{#each scripts}}
+    <script src="{{this}}"></script>
+{{/each}}
+</body>
+</html>
@@ -0,0 +1,74 @@
+/* Styles for {{title}} */
+/* Values come from tokens.css, generated from the README Style Guide */
+
+* {
+    box-sizing: border-box;
+    margin: 0;
+    padding: 0;
+}
+
+body {
+    font-family: {{vars.typography.font-family}};
+    font-size: {{vars.typography.font-size}};
+    line-height: {{vars.typography.line-height}};
+    color: {{vars.colors.text}};
+    background-color: {{vars.colors.background}};
+    max-width: 1200px;
+    margin: 0 auto;
+    padding: {{vars.spacing.base}};
+}
+
+header {
+    background-color: {{vars.colors.surface}};
+    text-align: center;
+    padding: {{vars.spacing.base}};
+    margin-bottom: calc(2 * {{vars.spacing.base}});
+}
+
+main {
+    min-height: 70vh;
+}
+
+footer {
+    text-align: center;
+    padding: {{vars.spacing.base}};
+    margin-top: calc(2 * {{vars.spacing.base}});
+    background-color: {{vars.colors.surface}};
+}
+
+a {
+    color: {{vars.colors.link}};
+}
+
+button {
+    font: inherit;
+    color: {{vars.colors.on-primary}};
+    background-color: {{vars.colors.primary}};
+    border: 1px solid {{vars.colors.primary}};
+    border-radius: 4px;
+    padding: calc(0.5 * {{vars.spacing.base}}) {{vars.spacing.base}};
+    cursor: pointer;
+}
+
+input {
+    font: inherit;
+    border: 1px solid {{vars.colors.border}};
+    border-radius: 4px;
+    padding: calc(0.5 * {{vars.spacing.base}});
+}
+
+a, button, input, li {
+    transition: color {{vars.motion.duration}} {{vars.motion.easing}}, background-color {{vars.motion.duration}} {{vars.motion.easing}}, filter {{vars.motion.duration}} {{vars.motion.easing}};
+}
+
+a:hover, button:hover {
+    filter: {{vars.motion.hover-filter}};
+}
+{{#if stateRules}}
+
+{{stateRules}}
+{{/if}}
+{{#if a11y.css}}
+
+{{a11y.css}}
+{{/if}}
@@ -0,0 +1,28 @@
+// Main application code for {{title}}
+
+document.addEventListener('DOMContentLoaded', () => {
+    console.log('Application initialized');
+    initApp();
+});
+
+function initApp() {
+    const appElement = document.getElementById('app');
+    if (!appElement) return;
+
+{{#if ui.entity}}
+    const schema = App.schemas.{{ui.entity}};
+    const model = new App.Model(schema, schema.storageKey);
+    const view = new App.AppView(appElement);
+    const controller = new App.AppController(model, view);
+    controller.render();
+{{else}}
+    appElement.innerHTML = '<p>Application successfully generated from Zero Source README!</p>';
+{{/if}}
+{{#if a11y.aria}}
+    announce('{{title | js}} is ready');
+{{/if}}
+}
+{{#if a11y.script}}
+
+{{a11y.script}}
+{{/if}}
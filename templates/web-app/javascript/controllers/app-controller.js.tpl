@@ -0,0 +1,227 @@
+{{#if ui.entity}}
+// Controller: turns events on the view's controls into changes to the
+// {{ui.noun}} model, and draws the view again after every change
+{{#if ui.unmatched}}
+//
+// These README interactions match no action and are not wired up:
+{{#each ui.unmatched}}
+// - {{text}} ({{id}})
+{{/each}}
+{{/if}}
+
+window.App = window.App || {};
+
+App.AppController = class {
+    constructor(model, view) {
+        this.model = model;
+        this.view = view;
+        this.state = { filter: {{#if ui.defaultFilter}}{{ui.defaultFilter | json}}{{else}}null{{/if}}, editing: null };
+
+        const root = view.root;
+        root.addEventListener('submit', event => this.onSubmit(event));
+        root.addEventListener('click', event => this.onEvent(event, 'click'));
+        root.addEventListener('dblclick', event => this.onEvent(event, 'dblclick'));
+        root.addEventListener('change', event => this.onEvent(event, 'change'));
+{{#if ui.actions.edit}}
+        root.addEventListener('keydown', event => this.onKeydown(event));
+        root.addEventListener('focusout', event => this.onFocusout(event));
+{{/if}}
+        model.subscribe(() => this.render());
+    }
+
+    render() {
+        const items = this.model.all();
+{{#if ui.filters}}
+        const visible = items.filter(App.filters[this.state.filter] || (() => true));
+{{else}}
+        const visible = items;
+{{/if}}
+        this.view.render(items, visible, this.state);
+    }
+
+    /**
+     * Run the action of the control an event happened on, when that control
+     * acts on this kind of event
+     */
+    onEvent(event, type) {
+        const control = event.target.closest('[data-action]');
+        if (!control || !this.view.root.contains(control)) return;
+        const id = this.itemId(control);
+
+        switch (`${control.dataset.action}:${type}`) {
+{{#each ui.listControls}}
+{{#if action}}
+            case '{{action}}:{{event}}':
+{{#if is.checkbox}}
+                this.{{action}}(id, control.checked);
+{{else}}
+                this.{{action}}(id);
+{{/if}}
+                break;
+{{/if}}
+{{/each}}
+{{#if ui.filters}}
+            case 'filter:click':
+                this.filter(control.dataset.filter);
+                break;
+{{/if}}
+{{#if ui.actions.clear}}
+            case 'clear:click':
+                this.clear();
+                break;
+{{/if}}
+        }
+    }
+
+    /**
+     * The id of the {{ui.noun}} a control belongs to
+     */
+    itemId(control) {
+        const item = control.closest('[data-id]');
+        return item ? this.model.all().find(each => String(each.id) === item.dataset.id)?.id : undefined;
+    }
+
+{{#if ui.actions.add}}
+    onSubmit(event) {
+        const form = event.target.closest('[data-action="add"]');
+        if (!form) return;
+        event.preventDefault();
+        const input = form.querySelector('input');
+        const text = input.value.trim();
+        if (!text) return;
+        this.add(text);
+        input.value = '';
+        input.focus();
+    }
+
+    /**
+     * Add a {{ui.noun}}
+{{#each ui.actions.add}}
+     * - {{text}} ({{id}})
+{{/each}}
+     */
+    add(text) {
+        this.model.add({ {{ui.textField}}: text });
+        this.announce(`Added ${text}`);
+    }
+{{else}}
+    onSubmit(event) {
+        event.preventDefault();
+    }
+{{/if}}
+{{#if ui.actions.toggle}}
+
+    /**
+     * Mark a {{ui.noun}} done or not done
+{{#each ui.actions.toggle}}
+     * - {{text}} ({{id}})
+{{/each}}
+     */
+    toggle(id, done) {
+        const item = this.model.get(id);
+        if (!item) return;
+        this.model.update(id, { {{ui.doneField}}: done === undefined ? !item.{{ui.doneField}} : done });
+        this.announce(`${item.{{ui.textField}}} marked ${this.model.get(id).{{ui.doneField}} ? 'done' : 'not done'}`);
+    }
+{{/if}}
+{{#if ui.actions.remove}}
+
+    /**
+     * Delete a {{ui.noun}}
+{{#each ui.actions.remove}}
+     * - {{text}} ({{id}})
+{{/each}}
+     */
+    remove(id) {
+        const item = this.model.get(id);
+        if (!item) return;
+        this.model.remove(id);
+        this.announce(`Deleted ${item.{{ui.textField}}}`);
+    }
+{{/if}}
+{{#if ui.actions.edit}}
+
+    /**
+     * Edit a {{ui.noun}}'s text: Enter or leaving the field saves it, Escape
+     * cancels
+{{#each ui.actions.edit}}
+     * - {{text}} ({{id}})
+{{/each}}
+     */
+    edit(id) {
+        this.state.editing = id;
+        this.render();
+        this.view.focusEditor();
+    }
+
+    save(input) {
+        const id = this.state.editing;
+        this.state.editing = null;
+        const text = input.value.trim();
+        if (!text) {
+            this.render();
+            return;
+        }
+        this.model.update(id, { {{ui.textField}}: text });
+        this.announce(`Saved ${text}`);
+    }
+
+    cancel() {
+        this.state.editing = null;
+        this.render();
+    }
+
+    onKeydown(event) {
+        const control = event.target.closest('[data-action]');
+        if (!control) return;
+        if (control.dataset.action === 'save' && event.key === 'Enter') {
+            event.preventDefault();
+            this.save(control);
+        } else if (control.dataset.action === 'save' && event.key === 'Escape') {
+            event.stopPropagation();
+            this.cancel();
+        } else if (control.dataset.action === 'edit' && event.key === 'Enter') {
+            event.preventDefault();
+            event.stopPropagation();
+            this.edit(this.itemId(control));
+        }
+    }
+
+    onFocusout(event) {
+        if (event.target.dataset.action === 'save' && this.state.editing !== null) {
+            this.save(event.target);
+        }
+    }
+{{/if}}
+{{#if ui.filters}}
+
+    /**
+     * Show only the {{ui.noun}} items a filter lets through
+{{#each ui.actions.filter}}
+     * - {{text}} ({{id}})
+{{/each}}
+     */
+    filter(name) {
+        this.state.filter = name;
+        this.render();
+    }
+{{/if}}
+{{#if ui.actions.clear}}
+
+    /**
+     * Delete every {{ui.noun}}{{#if ui.doneField}} that is done{{/if}}
+{{#each ui.actions.clear}}
+     * - {{text}} ({{id}})
+{{/each}}
+     */
+    clear() {
+        this.model.removeWhere({{#if ui.doneField}}item => item.{{ui.doneField}}{{else}}() => true{{/if}});
+        this.announce('Cleared');
+    }
+{{/if}}
+
+    announce(message) {
+        if (typeof announce === 'function') announce(message);
+    }
+};
+{{/if}}
@@ -0,0 +1,121 @@
+{{#if entities}}
+// Model: a list of records kept in memory and, when the README asks for
+// it, saved to localStorage after every change
+
+window.App = window.App || {};
+
+App.Model = class {
+    /**
+     * @param schema The entity's fields, from models/
+     * @param storageKey localStorage key, or none to keep records in memory
+     */
+    constructor(schema, storageKey) {
+        this.schema = schema;
+        this.storageKey = storageKey;
+        this.listeners = [];
+        this.items = this.load();
+    }
+
+    all() {
+        return this.items;
+    }
+
+    get(id) {
+        return this.items.find(item => item.id === id);
+    }
+
+    add(values) {
+        const item = { ...this.defaults(), ...values };
+        this.items = [...this.items, item];
+        this.changed();
+        return item;
+    }
+
+    update(id, changes) {
+        this.items = this.items.map(item => (item.id === id ? { ...item, ...changes, ...this.touched() } : item));
+        this.changed();
+    }
+
+    remove(id) {
+        this.items = this.items.filter(item => item.id !== id);
+        this.changed();
+    }
+
+    /**
+     * Remove every record that passes a test
+     */
+    removeWhere(test) {
+        this.items = this.items.filter(item => !test(item));
+        this.changed();
+    }
+
+    /**
+     * Call a function after every change
+     */
+    subscribe(listener) {
+        this.listeners.push(listener);
+    }
+
+    /**
+     * Values for a new record: a new id, the current time for timestamps and
+     * an empty value for everything else
+     */
+    defaults() {
+        const now = new Date().toISOString();
+        // Records get an id even when the README lists none
+        const values = {
+            id: this.schema.fields.id?.type === 'number'
+                ? Math.max(0, ...this.items.map(item => Number(item.id) || 0)) + 1
+                : (crypto.randomUUID ? crypto.randomUUID() : String(Date.now()) + Math.random().toString(16).slice(2))
+        };
+        for (const [name, field] of Object.entries(this.schema.fields)) {
+            if (name === 'id') {
+                continue;
+            }
+            if (field.array) {
+                values[name] = [];
+            } else if (field.type === 'date') {
+                values[name] = now;
+            } else if (field.type === 'boolean') {
+                values[name] = false;
+            } else if (field.type === 'number') {
+                values[name] = 0;
+            } else if (field.values) {
+                values[name] = field.values[0];
+            } else if (field.type === 'string') {
+                values[name] = '';
+            }
+        }
+        return values;
+    }
+
+    /**
+     * Fields recording when a record last changed
+     */
+    touched() {
+        const now = new Date().toISOString();
+        return Object.fromEntries(
+            Object.keys(this.schema.fields)
+                .filter(name => /^(updated|modified)(at)?$/i.test(name.replace(/[_-]/g, '')))
+                .map(name => [name, now])
+        );
+    }
+
+    load() {
+        if (!this.storageKey) return [];
+        try {
+            const stored = JSON.parse(localStorage.getItem(this.storageKey));
+            return Array.isArray(stored) ? stored : [];
+        } catch {
+            return [];
+        }
+    }
+
+    changed() {
+        if (this.storageKey) {
+            localStorage.setItem(this.storageKey, JSON.stringify(this.items));
+        }
+        this.listeners.forEach(listener => listener(this.items));
+    }
+};
+{{/if}}
@@ -0,0 +1,14 @@
+// {{name}} model, from the README Data Model
+
+window.App = window.App || {};
+App.schemas = App.schemas || {};
+
+App.schemas.{{name}} = {
+    name: {{name | json}},
+    storageKey: {{#if storageKey}}{{storageKey | json}}{{else}}null{{/if}},
+    fields: {
+{{#each fields}}
+        {{name | json}}: { type: {{type | json}}, required: {{required}}, array: {{isArray}}{{#if values}}, values: {{values | json}}{{/if}} }{{#unless @last}},{{/unless}}
+{{/each}}
+    }
+};
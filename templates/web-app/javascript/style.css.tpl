@@ -0,0 +1,2 @@
+{{> style.css}}
+{{> list.css}}
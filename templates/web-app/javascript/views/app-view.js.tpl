@@ -0,0 +1,152 @@
+{{#if ui.entity}}
+// View: draws the regions of the README wireframe, from top to bottom.
+// Controls name their action in data-action for the controller.
+
+window.App = window.App || {};
+
+App.AppView = class {
+    constructor(root) {
+        this.root = root;
+    }
+
+    /**
+     * Draw the UI, keeping focus on the control that had it
+     * @param items Every {{ui.noun}}
+     * @param visible The {{ui.noun}} items the current filter shows
+     * @param state The filter and the {{ui.noun}} being edited
+     */
+    render(items, visible, state) {
+        const focus = this.focused();
+        this.root.innerHTML = `
+{{#each ui.regions}}
+{{#if is.header}}
+            <form class="region add-form" data-action="add">
+{{#if text}}
+                <h2>{{text | html}}</h2>
+{{/if}}
+{{#each controls}}
+{{#if is.input}}
+                <input name="{{field}}" aria-label="New {{ui.noun}}" placeholder="New {{ui.noun}}" autocomplete="off" required>
+{{/if}}
+{{#if is.button}}
+                <button type="submit">{{label | html}}</button>
+{{/if}}
+{{/each}}
+            </form>
+{{/if}}
+{{#if is.filters}}
+            <nav class="region filters" aria-label="Filters">
+{{#if text}}
+                <span>{{text | html}}</span>
+{{/if}}
+{{#each controls}}
+                <button type="button" data-action="filter" data-filter="{{filter}}" aria-pressed="${state.filter === '{{filter}}'}">{{label | html}}</button>
+{{/each}}
+            </nav>
+{{/if}}
+{{#if is.list}}
+            <ul class="region item-list" aria-label="{{ui.noun}} list">
+                ${visible.map(item => this.item(item, state)).join('')}
+            </ul>
+{{/if}}
+{{#if is.counter}}
+            <p class="region counter">
+                {{before | html}}${items{{#if remaining}}.filter(item => !item.{{ui.doneField}}){{/if}}.length}{{after | html}}
+{{#each controls}}
+                <button type="button" data-action="{{action}}">{{label | html}}</button>
+{{/each}}
+            </p>
+{{/if}}
+{{#if is.text}}
+            <p class="region">
+{{#if text}}
+                {{text | html}}
+{{/if}}
+{{#each controls}}
+                <button type="button" data-action="{{action}}">{{label | html}}</button>
+{{/each}}
+            </p>
+{{/if}}
+{{/each}}`;
+        this.restore(focus);
+    }
+
+    /**
+     * Draw one {{ui.noun}} of the list
+     */
+    item(item, state) {
+        const text = escapeHtml(item.{{ui.textField}});
+{{#if ui.actions.edit}}
+        if (state.editing === item.id) {
+            return `
+                <li class="item editing" data-id="${escapeHtml(item.id)}">
+                    <input class="edit" data-action="save" value="${text}" aria-label="Edit {{ui.noun}}">
+                </li>`;
+        }
+{{/if}}
+        return `
+                <li class="item{{#if ui.doneField}}${item.{{ui.doneField}} ? ' completed' : ''}{{/if}}" data-id="${escapeHtml(item.id)}">
+{{#each ui.listControls}}
+{{#if is.checkbox}}
+                    <input type="checkbox" data-action="{{action}}" ${item.{{field}} ? 'checked' : ''} aria-label="${text}">
+{{/if}}
+{{#if is.text}}
+{{#if action}}
+                    <span class="item-text" data-action="{{action}}" role="button" tabindex="0">${text}</span>
+{{else}}
+                    <span class="item-text">${text}</span>
+{{/if}}
+{{/if}}
+{{#if is.button}}
+                    <button type="button" data-action="{{action}}" aria-label="{{verb}} ${text}">{{label | html}}</button>
+{{/if}}
+{{/each}}
+                </li>`;
+    }
+
+    /**
+     * Note which control has focus, by its action and {{ui.noun}}
+     */
+    focused() {
+        const active = document.activeElement;
+        if (!active || !this.root.contains(active) || !active.dataset.action) return null;
+        const item = active.closest('[data-id]');
+        return { action: active.dataset.action, filter: active.dataset.filter, id: item && item.dataset.id };
+    }
+
+    /**
+     * Put focus back on the same control after drawing, or on the list when
+     * the {{ui.noun}} it belonged to is gone
+     */
+    restore(focus) {
+        if (!focus) return;
+        const scope = focus.id ? this.root.querySelector(`[data-id="${CSS.escape(focus.id)}"]`) : this.root;
+        const selector = focus.filter
+            ? `[data-action="filter"][data-filter="${CSS.escape(focus.filter)}"]`
+            : `[data-action="${CSS.escape(focus.action)}"]`;
+        const target = (scope && scope.querySelector(selector))
+            || this.root.querySelector('.item [data-action]')
+            || this.root.querySelector('input, button');
+        if (target) target.focus();
+    }
+
+    /**
+     * Start editing: put the cursor at the end of the {{ui.noun}}'s text
+     */
+    focusEditor() {
+        const editor = this.root.querySelector('.edit');
+        if (editor) {
+            editor.focus();
+            editor.setSelectionRange(editor.value.length, editor.value.length);
+        }
+    }
+};
+
+function escapeHtml(value) {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+{{/if}}
@@ -0,0 +1 @@
+{{> page.html}}
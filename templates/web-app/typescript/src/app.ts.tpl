@@ -0,0 +1,28 @@
+// Main application code for {{title}}
+
+document.addEventListener('DOMContentLoaded', () => {
+    console.log('Application initialized');
+    initApp();
+});
+
+function initApp(): void {
+    const appElement = document.getElementById('app');
+    if (!appElement) return;
+
+{{#if ui.entity}}
+    const schema = App.{{ui.entity | camel}}Schema;
+    const model = new App.Model<App.{{ui.entity}}>(schema, schema.storageKey);
+    const view = new App.AppView(appElement);
+    const controller = new App.AppController(model, view);
+    controller.render();
+{{else}}
+    appElement.innerHTML = '<p>Application successfully generated from Zero Source README!</p>';
+{{/if}}
+{{#if a11y.aria}}
+    announce('{{title | js}} is ready');
+{{/if}}
+}
+{{#if a11y.script}}
+
+{{a11y.script}}
+{{/if}}
@@ -0,0 +1,232 @@
+{{#if ui.entity}}
+// Controller: turns events on the view's controls into changes to the
+// {{ui.noun}} model, and draws the view again after every change
+{{#if ui.unmatched}}
+//
+// These README interactions match no action and are not wired up:
+{{#each ui.unmatched}}
+// - {{text}} ({{id}})
+{{/each}}
+{{/if}}
+
+namespace App {
+    export class AppController {
+        private state: ViewState = { filter: {{#if ui.defaultFilter}}{{ui.defaultFilter | json}}{{else}}null{{/if}}, editing: null };
+
+        constructor(private model: Model<{{ui.entity}}>, private view: AppView) {
+
+            const root = view.root;
+            root.addEventListener('submit', event => this.onSubmit(event));
+            root.addEventListener('click', event => this.onEvent(event, 'click'));
+            root.addEventListener('dblclick', event => this.onEvent(event, 'dblclick'));
+            root.addEventListener('change', event => this.onEvent(event, 'change'));
+{{#if ui.actions.edit}}
+            root.addEventListener('keydown', event => this.onKeydown(event as KeyboardEvent));
+            root.addEventListener('focusout', event => this.onFocusout(event));
+{{/if}}
+            model.subscribe(() => this.render());
+        }
+
+        render(): void {
+            const items = this.model.all();
+{{#if ui.filters}}
+            const visible = items.filter((this.state.filter !== null && filters[this.state.filter]) || (() => true));
+{{else}}
+            const visible = items;
+{{/if}}
+            this.view.render(items, visible, this.state);
+        }
+
+        /**
+         * Run the action of the control an event happened on, when that control
+         * acts on this kind of event
+         */
+        onEvent(event: Event, type: string): void {
+            const control = (event.target as HTMLElement).closest<HTMLElement>('[data-action]');
+            if (!control || !this.view.root.contains(control)) return;
+            const id = this.itemId(control);
+
+            switch (`${control.dataset.action}:${type}`) {
+{{#each ui.listControls}}
+{{#if action}}
+                case '{{action}}:{{event}}':
+{{#if is.checkbox}}
+                    this.{{action}}(id, (control as HTMLInputElement).checked);
+{{else}}
+                    this.{{action}}(id);
+{{/if}}
+                    break;
+{{/if}}
+{{/each}}
+{{#if ui.filters}}
+                case 'filter:click':
+                    this.filter(control.dataset.filter ?? null);
+                    break;
+{{/if}}
+{{#if ui.actions.clear}}
+                case 'clear:click':
+                    this.clear();
+                    break;
+{{/if}}
+            }
+        }
+
+        /**
+         * The id of the {{ui.noun}} a control belongs to
+         */
+        itemId(control: HTMLElement): Id | undefined {
+            const item = control.closest<HTMLElement>('[data-id]');
+            return item ? this.model.all().find(each => String(each.id) === item.dataset.id)?.id : undefined;
+        }
+
+{{#if ui.actions.add}}
+        onSubmit(event: Event): void {
+            const form = (event.target as HTMLElement).closest('[data-action="add"]');
+            if (!form) return;
+            event.preventDefault();
+            const input = form.querySelector('input');
+            if (!input) return;
+            const text = input.value.trim();
+            if (!text) return;
+            this.add(text);
+            input.value = '';
+            input.focus();
+        }
+
+        /**
+         * Add a {{ui.noun}}
+{{#each ui.actions.add}}
+         * - {{text}} ({{id}})
+{{/each}}
+         */
+        add(text: string): void {
+            this.model.add({ {{ui.textField}}: text });
+            this.announce(`Added ${text}`);
+        }
+{{else}}
+        onSubmit(event: Event): void {
+            event.preventDefault();
+        }
+{{/if}}
+{{#if ui.actions.toggle}}
+
+        /**
+         * Mark a {{ui.noun}} done or not done
+{{#each ui.actions.toggle}}
+         * - {{text}} ({{id}})
+{{/each}}
+         */
+        toggle(id: Id | undefined, done?: boolean): void {
+            const item = id === undefined ? undefined : this.model.get(id);
+            if (!item) return;
+            const value = done === undefined ? !item.{{ui.doneField}} : done;
+            this.model.update(item.id, { {{ui.doneField}}: value });
+            this.announce(`${item.{{ui.textField}}} marked ${value ? 'done' : 'not done'}`);
+        }
+{{/if}}
+{{#if ui.actions.remove}}
+
+        /**
+         * Delete a {{ui.noun}}
+{{#each ui.actions.remove}}
+         * - {{text}} ({{id}})
+{{/each}}
+         */
+        remove(id: Id | undefined): void {
+            const item = id === undefined ? undefined : this.model.get(id);
+            if (!item) return;
+            this.model.remove(item.id);
+            this.announce(`Deleted ${item.{{ui.textField}}}`);
+        }
+{{/if}}
+{{#if ui.actions.edit}}
+
+        /**
+         * Edit a {{ui.noun}}'s text: Enter or leaving the field saves it, Escape
+         * cancels
+{{#each ui.actions.edit}}
+         * - {{text}} ({{id}})
+{{/each}}
+         */
+        edit(id: Id | undefined): void {
+            if (id === undefined) return;
+            this.state.editing = id;
+            this.render();
+            this.view.focusEditor();
+        }
+
+        save(input: HTMLInputElement): void {
+            const id = this.state.editing;
+            this.state.editing = null;
+            const text = input.value.trim();
+            if (id === null || !text) {
+                this.render();
+                return;
+            }
+            this.model.update(id, { {{ui.textField}}: text });
+            this.announce(`Saved ${text}`);
+        }
+
+        cancel(): void {
+            this.state.editing = null;
+            this.render();
+        }
+
+        onKeydown(event: KeyboardEvent): void {
+            const control = (event.target as HTMLElement).closest<HTMLElement>('[data-action]');
+            if (!control) return;
+            if (control.dataset.action === 'save' && event.key === 'Enter') {
+                event.preventDefault();
+                this.save(control as HTMLInputElement);
+            } else if (control.dataset.action === 'save' && event.key === 'Escape') {
+                event.stopPropagation();
+                this.cancel();
+            } else if (control.dataset.action === 'edit' && event.key === 'Enter') {
+                event.preventDefault();
+                event.stopPropagation();
+                this.edit(this.itemId(control));
+            }
+        }
+
+        onFocusout(event: FocusEvent): void {
+            const target = event.target as HTMLElement;
+            if (target.dataset.action === 'save' && this.state.editing !== null) {
+                this.save(target as HTMLInputElement);
+            }
+        }
+{{/if}}
+{{#if ui.filters}}
+
+        /**
+         * Show only the {{ui.noun}} items a filter lets through
+{{#each ui.actions.filter}}
+         * - {{text}} ({{id}})
+{{/each}}
+         */
+        filter(name: string | null): void {
+            this.state.filter = name;
+            this.render();
+        }
+{{/if}}
+{{#if ui.actions.clear}}
+
+        /**
+         * Delete every {{ui.noun}}{{#if ui.doneField}} that is done{{/if}}
+{{#each ui.actions.clear}}
+         * - {{text}} ({{id}})
+{{/each}}
+         */
+        clear(): void {
+            this.model.removeWhere({{#if ui.doneField}}item => item.{{ui.doneField}} === true{{else}}() => true{{/if}});
+            this.announce('Cleared');
+        }
+{{/if}}
+
+        announce(message: string): void {
+            // The page script defines announce() when the README asks for ARIA
+            const announce = (window as unknown as { announce?: (message: string) => void }).announce;
+            if (announce) announce(message);
+        }
+    }
+}
+{{/if}}
@@ -0,0 +1,14 @@
+{{#if ui.filters}}
+// Filters for the {{ui.noun}} list, by name: each tests whether an item shows
+
+namespace App {
+    export const filters: Record<string, (item: {{ui.entity}}) => boolean> = {
+{{#each ui.filters}}
+{{#if unmatched}}
+        // "{{label}}" matches no field of {{ui.entity}}, so it shows everything
+{{/if}}
+        {{name | json}}: {{test}}{{#unless @last}},{{/unless}}
+{{/each}}
+    };
+}
+{{/if}}
@@ -0,0 +1,133 @@
+{{#if entities}}
+// Model: a list of records kept in memory and, when the README asks for
+// it, saved to localStorage after every change
+
+namespace App {
+    export type Id = string | number;
+
+    export interface FieldSpec {
+        type: 'string' | 'number' | 'boolean' | 'date' | 'object' | 'reference' | 'unknown';
+        required: boolean;
+        array: boolean;
+        values?: readonly string[];
+    }
+
+    export interface Schema {
+        name: string;
+        /** localStorage key, or null to keep records in memory */
+        storageKey: string | null;
+        fields: Record<string, FieldSpec>;
+    }
+
+    export class Model<T extends { id: Id }> {
+        private items: T[];
+        private listeners: ((items: T[]) => void)[] = [];
+
+        constructor(private schema: Schema, private storageKey: string | null) {
+            this.items = this.load();
+        }
+
+        all(): T[] {
+            return this.items;
+        }
+
+        get(id: Id): T | undefined {
+            return this.items.find(item => item.id === id);
+        }
+
+        add(values: Partial<T>): T {
+            const item = { ...this.defaults(), ...values } as T;
+            this.items = [...this.items, item];
+            this.changed();
+            return item;
+        }
+
+        update(id: Id, changes: Partial<T>): void {
+            this.items = this.items.map(item => (item.id === id ? { ...item, ...changes, ...this.touched() } : item));
+            this.changed();
+        }
+
+        remove(id: Id): void {
+            this.items = this.items.filter(item => item.id !== id);
+            this.changed();
+        }
+
+        /**
+         * Remove every record that passes a test
+         */
+        removeWhere(test: (item: T) => boolean): void {
+            this.items = this.items.filter(item => !test(item));
+            this.changed();
+        }
+
+        /**
+         * Call a function after every change
+         */
+        subscribe(listener: (items: T[]) => void): void {
+            this.listeners.push(listener);
+        }
+
+        /**
+         * Values for a new record: a new id, the current time for timestamps
+         * and an empty value for everything else
+         */
+        private defaults(): Record<string, unknown> {
+            const now = new Date().toISOString();
+            // Records get an id even when the README lists none
+            const values: Record<string, unknown> = {
+                id: this.schema.fields.id?.type === 'number'
+                    ? Math.max(0, ...this.items.map(item => Number(item.id) || 0)) + 1
+                    : (typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : String(Date.now()) + Math.random().toString(16).slice(2))
+            };
+            for (const [name, field] of Object.entries(this.schema.fields)) {
+                if (name === 'id') {
+                    continue;
+                }
+                if (field.array) {
+                    values[name] = [];
+                } else if (field.type === 'date') {
+                    values[name] = now;
+                } else if (field.type === 'boolean') {
+                    values[name] = false;
+                } else if (field.type === 'number') {
+                    values[name] = 0;
+                } else if (field.values) {
+                    values[name] = field.values[0];
+                } else if (field.type === 'string') {
+                    values[name] = '';
+                }
+            }
+            return values;
+        }
+
+        /**
+         * Fields recording when a record last changed
+         */
+        private touched(): Partial<T> {
+            const now = new Date().toISOString();
+            return Object.fromEntries(
+                Object.keys(this.schema.fields)
+                    .filter(name => /^(updated|modified)(at)?$/i.test(name.replace(/[_-]/g, '')))
+                    .map(name => [name, now])
+            ) as Partial<T>;
+        }
+
+        private load(): T[] {
+            if (!this.storageKey) return [];
+            try {
+                const stored = JSON.parse(localStorage.getItem(this.storageKey) ?? '[]');
+                return Array.isArray(stored) ? stored : [];
+            } catch {
+                return [];
+            }
+        }
+
+        private changed(): void {
+            if (this.storageKey) {
+                localStorage.setItem(this.storageKey, JSON.stringify(this.items));
+            }
+            this.listeners.forEach(listener => listener(this.items));
+        }
+    }
+}
+{{/if}}
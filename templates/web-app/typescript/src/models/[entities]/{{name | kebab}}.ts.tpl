@@ -0,0 +1,22 @@
+// {{name}} model, from the README Data Model
+
+namespace App {
+    export interface {{name}} {
+{{#unless hasId}}
+        id: Id;
+{{/unless}}
+{{#each fields}}
+        {{name}}{{#unless required}}?{{/unless}}: {{tsType}};
+{{/each}}
+    }
+
+    export const {{name | camel}}Schema: Schema = {
+        name: {{name | json}},
+        storageKey: {{#if storageKey}}{{storageKey | json}}{{else}}null{{/if}},
+        fields: {
+{{#each fields}}
+            {{name | json}}: { type: {{type | json}}, required: {{required}}, array: {{isArray}}{{#if values}}, values: {{values | json}}{{/if}} }{{#unless @last}},{{/unless}}
+{{/each}}
+        }
+    };
+}